@@ -6,8 +6,8 @@ MCP_SETTINGS_FILE="/Users/chetpaslawski/Library/Application Support/Windsurf/Use
 
 echo "Setting up Dev Memory system..."
 
-# 1. Create necessary directories
-mkdir -p "$PROJECT_ROOT/.dev-memory/"{context,interactions,metadata,logs}
+# 1. Create the memory home (projects get their own namespace inside it)
+mkdir -p "${DEV_MEMORY_HOME:-$HOME/.dev-memory}"
 
 # 2. Build the server
 npm run build
@@ -44,28 +44,18 @@ GIT_HOOKS_DIR="$PROJECT_ROOT/.git/hooks"
 if [ -d "$GIT_HOOKS_DIR" ]; then
     echo "Setting up Git hooks..."
     
-    # Create post-commit hook
-    cat > "$GIT_HOOKS_DIR/post-commit" << 'EOF'
+    # Create post-commit hook. It writes straight to this project's namespace
+    # under ${DEV_MEMORY_HOME:-~/.dev-memory}, so the server doesn't need to
+    # be running.
+    cat > "$GIT_HOOKS_DIR/post-commit" << EOF
 #!/bin/bash
-COMMIT_MSG=$(git log -1 HEAD --pretty=format:%B)
-COMMIT_HASH=$(git rev-parse HEAD)
-DIFF=$(git diff HEAD^)
-
-# Store commit context
-curl -X POST http://localhost:3000/api/memory/store \
-  -H "Content-Type: application/json" \
-  -d "{
-    \"context_type\": \"development\",
-    \"content\": \"$COMMIT_MSG\n\n$DIFF\",
-    \"metadata\": {
-      \"source\": \"git\",
-      \"priority\": 3,
-      \"commit\": \"$COMMIT_HASH\"
-    }
-  }"
+node "$PROJECT_ROOT/build/index.js" ingest-commit HEAD || true
 EOF
 
     chmod +x "$GIT_HOOKS_DIR/post-commit"
+
+    # Capture recent history on first setup
+    node "$PROJECT_ROOT/build/index.js" ingest-commit --backfill 50 || true
 fi
 
 # 5. Start the server
@@ -75,5 +65,5 @@ npm start &
 echo "Dev Memory system setup complete!"
 echo "The server will now start automatically when needed."
 echo "You can monitor it at:"
-echo "- Logs: $PROJECT_ROOT/.dev-memory/logs/"
+echo "- Memory: ${DEV_MEMORY_HOME:-$HOME/.dev-memory}/"
 echo "- Status: ps aux | grep dev-memory-server"
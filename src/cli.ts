@@ -0,0 +1,1014 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { ingestCommits } from './core/ingest.js';
+import { migrateStore } from './core/migrate.js';
+import { MemoryHome } from './core/projects.js';
+import {
+  STORE_BACKENDS,
+  StoreBackend,
+  Workspace,
+  openStore,
+  openWorkspace,
+  reencryptNamespace
+} from './core/workspace.js';
+import { IntegrityReport, MemoryPatch, SearchMode } from './core/store.js';
+import { MemoryFilter, parseDuration, parseTimeBound } from './core/filter.js';
+import { compressContexts, mergeMemories, pruneMemories, storeMemory } from './core/operations.js';
+import { createDefaultPipeline } from './core/enrich.js';
+import { formatMemory, preview } from './core/format.js';
+import { BaseMemory, MEMORY_TYPES, MemoryType } from './core/types.js';
+import { CONFLICT_POLICIES, exportBundle, exportMarkdown, importBundle } from './core/bundle.js';
+import { writeFileAtomic } from './core/files.js';
+import { AuditReport, auditStore, createRedactor } from './core/redact.js';
+import { Cipher, KEY_FILE, findKey, generateKey, loadCipher, readKeyFile, writeKeyFile } from './core/crypto.js';
+import { ConfigFlags, DevMemoryConfig, FLAG_NAMES, loadConfig, pruneRequest, workspaceConfig } from './core/config.js';
+import { setLogLevel } from './core/log.js';
+
+const USAGE = `Usage: dev-memory [global options] [command] [options]
+
+Without a command, runs the MCP server on stdio.
+Memories are kept in $DEV_MEMORY_HOME (default ~/.dev-memory), one namespace
+per repository, using the storage backend in $DEV_MEMORY_BACKEND (file or
+sqlite, default file).
+
+Global options, given before the command; they override the config file and
+environment variables:
+  --config <file>             Config file (default $DEV_MEMORY_CONFIG, else
+                              dev-memory.config.json in the memory home)
+  --home <dir>                Memory home ($DEV_MEMORY_HOME)
+  --backend <backend>         file or sqlite ($DEV_MEMORY_BACKEND)
+  --search-mode <mode>        semantic, keyword or hybrid ($DEV_MEMORY_SEARCH_MODE)
+  --max-results <n>           Default get_context page size, 1-50 ($DEV_MEMORY_MAX_RESULTS)
+  --log-level <level>         debug, info, warn, error or silent ($DEV_MEMORY_LOG_LEVEL)
+
+Commands:
+  add [content]               Store a memory; reads the content from stdin when omitted
+    --type <type>             development, conversation, document, system or custom (default custom)
+    --importance <n>          Inferred from the content when omitted, as are category and topics
+    --category <name>
+    --topic <topic>           Repeat for several topics
+    --source <source>         Where the memory came from (default cli)
+    --ttl <duration>          Archive automatically after e.g. 12h, 30d or 2w
+                              (units: m minutes, h hours, d days, w weeks)
+  search <query>              Rank memories against a query
+    --mode <mode>             semantic, keyword or hybrid (default hybrid)
+    --limit <n>               Results to show (default 10)
+  show <id>                   Print a memory in full
+  edit <id>                   Change a memory's content or metadata
+    --content <text>          Replace the content
+    --type, --importance, --category, --topic, --source
+                              Replace that metadata field
+    --unset <key>             Remove a metadata key; repeat for several
+  rm <id>...                  Delete memories and remove them from every context
+  ls                          List memories, newest first
+    --sort <field>            timestamp or importance (default timestamp)
+    --limit <n>               Memories to show (default 20, 0 for all)
+    --archived                List the archive instead of live memories
+  contexts                    List contexts and sessions with their memory counts
+  optimize                    Tidy up memories and contexts
+    --strategy <strategy>     compress, prune or merge (required)
+    --dry-run                 prune and merge: report without changing anything
+    --threshold <n>           merge: similarity (0-1) for duplicates (default 0.9)
+    --target-size <n>         prune: keep at most this many memories
+    --min-score <n>           prune: archive memories scoring below this (0-1)
+  stats                       Count memories by type, archived memories and contexts
+  export [file]               Write memories, contexts and links as a JSONL bundle (default stdout)
+    --format <format>         jsonl or markdown, a log grouped by type and topic (default jsonl)
+    --live-only               Leave out archived memories (markdown never includes them)
+    --type <type>             Only export memories of this type
+  import <file>               Load a JSONL bundle, or - for stdin; exits 1 if any line is rejected
+    --on-conflict <policy>    skip, overwrite or rekey (new ids) for ids already stored (default skip)
+  ingest-commit [rev]         Store a commit (default HEAD) as a development memory
+    --backfill <n>            Ingest the last n commits reachable from rev instead
+    --max-diff-chars <n>      Patch text kept per commit (default 4000, 0 for stat only)
+  migrate-store               Copy the current project's memories and contexts to another backend
+    --from <backend>          Backend to copy from (default file)
+    --to <backend>            Backend to copy to (default sqlite)
+    --all                     Migrate every known project and the global namespace
+  verify                      Check the current project's memories, indexes and contexts
+    --repair                  Quarantine corrupt files and rebuild the indexes
+    --all                     Check every known project and the global namespace
+  audit                       Rescan stored memories for secrets and personal data
+    --fix                     Redact what is found, as if it were being stored now
+    --all                     Audit every known project and the global namespace
+  rotate-key                  Re-encrypt every project and the global namespace under a new key
+    --new-key-file <file>     Take the new key from this file, creating it if missing
+                              (default: a fresh key in $DEV_MEMORY_HOME/memory.key)
+    --decrypt                 Store everything unencrypted again
+  config                      Print the resolved configuration as JSON
+
+Memories are redacted before they are stored: keys, tokens, .env secrets,
+private keys, emails and random-looking strings are masked. Detectors are
+configured in the redaction section of the config file, else in
+$DEV_MEMORY_HOME/redaction.json.
+
+Memories, contexts and indexes are encrypted at rest when a 32-byte key
+(base64 or hex) is set in $DEV_MEMORY_KEY, in a file named by
+$DEV_MEMORY_KEY_FILE, or in $DEV_MEMORY_HOME/memory.key. Stop running servers
+before rotate-key; if it is interrupted, run it again with the same options.
+
+search and ls accept filters: --type, --category, --topic, --source,
+--min-importance <n> and --since/--until (an ISO date or a duration such as
+14d). add, search, show, edit, rm, ls, contexts, optimize, stats, import and
+audit print JSON with --json.
+`;
+
+class UsageError extends Error {}
+
+function parseCount(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${name} must be a non-negative integer, got: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new UsageError(`--${name} must be a non-negative number, got: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseType(value: string | undefined): MemoryType | undefined {
+  if (value === undefined) return undefined;
+  if (!MEMORY_TYPES.includes(value as MemoryType)) {
+    throw new UsageError(`--type must be one of ${MEMORY_TYPES.join(', ')}, got: ${value}`);
+  }
+  return value as MemoryType;
+}
+
+function parseChoice<C extends string>(name: string, value: string | undefined, choices: readonly C[]): C | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as C)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}, got: ${value}`);
+  }
+  return value as C;
+}
+
+// Filter options shared by search and ls
+const FILTER_OPTIONS = {
+  type: { type: 'string' },
+  category: { type: 'string' },
+  topic: { type: 'string', multiple: true },
+  source: { type: 'string' },
+  'min-importance': { type: 'string' },
+  since: { type: 'string' },
+  until: { type: 'string' }
+} as const;
+
+interface FilterValues {
+  type?: string;
+  category?: string;
+  topic?: string[];
+  source?: string;
+  'min-importance'?: string;
+  since?: string;
+  until?: string;
+}
+
+function parseFilter(values: FilterValues): MemoryFilter {
+  const filter: MemoryFilter = {
+    type: parseType(values.type),
+    category: values.category,
+    topics: values.topic,
+    source: values.source,
+    minImportance: parseNumber('min-importance', values['min-importance'])
+  };
+
+  for (const name of ['since', 'until'] as const) {
+    const value = values[name];
+    if (value === undefined) continue;
+    const bound = parseTimeBound(value);
+    if (!bound) {
+      throw new UsageError(`--${name} must be an ISO date or a duration such as 14d, got: ${value}`);
+    }
+    filter[name] = bound;
+  }
+
+  return filter;
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+// Left-aligned columns; the last one isn't padded so long previews don't
+// leave trailing spaces
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+  return [headers, ...rows]
+    .map(row => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  '))
+    .join('\n');
+}
+
+// ISO timestamps shortened to the minute for tables
+function shortTime(timestamp: string): string {
+  return timestamp.slice(0, 16).replace('T', ' ');
+}
+
+const TABLE_PREVIEW = 60;
+
+function memoryRow(memory: BaseMemory): string[] {
+  const { type, timestamp, importance, topics } = memory.metadata;
+  return [
+    memory.id,
+    type,
+    shortTime(timestamp),
+    importance !== undefined ? String(importance) : '-',
+    (topics ?? []).slice(0, 3).join(',') || '-',
+    preview(memory.content, TABLE_PREVIEW)
+  ];
+}
+
+const MEMORY_HEADERS = ['ID', 'TYPE', 'STORED', 'IMPORTANCE', 'TOPICS', 'PREVIEW'];
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+// The workspace of the project containing the working directory
+async function currentWorkspace(config: DevMemoryConfig): Promise<Workspace> {
+  const home = new MemoryHome(config.storage.home);
+  return openWorkspace(home, await home.resolveProject(process.cwd()), workspaceConfig(config));
+}
+
+async function add(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      type: { type: 'string' },
+      importance: { type: 'string' },
+      category: { type: 'string' },
+      topic: { type: 'string', multiple: true },
+      source: { type: 'string' },
+      ttl: { type: 'string' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  let content = positionals.join(' ');
+  if (positionals.length === 0 && !process.stdin.isTTY) {
+    content = await readStdin();
+  }
+  if (!content.trim()) {
+    throw new UsageError('add needs the memory content, as arguments or on stdin');
+  }
+
+  const ttlMs = values.ttl !== undefined ? parseDuration(values.ttl) : undefined;
+  if (ttlMs === null) {
+    throw new UsageError(`--ttl must be a duration such as 12h, 30d or 2w, got: ${values.ttl}`);
+  }
+
+  const metadata: Partial<BaseMemory['metadata']> = { source: values.source ?? 'cli' };
+  const importance = parseNumber('importance', values.importance);
+  if (importance !== undefined) metadata.importance = importance;
+  if (values.category !== undefined) metadata.category = values.category;
+  if (values.topic !== undefined) metadata.topics = values.topic;
+
+  const { memory, sessionId } = await storeMemory(await currentWorkspace(config), createDefaultPipeline(), {
+    type: parseType(values.type) ?? 'custom',
+    content: content.trim(),
+    metadata,
+    ttlMs
+  });
+
+  if (values.json) {
+    printJson({ id: memory.id, metadata: memory.metadata, session: sessionId });
+    return;
+  }
+  console.log(`Stored ${memory.id}` + (sessionId ? ` (session ${sessionId})` : ''));
+}
+
+async function search(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...FILTER_OPTIONS,
+      mode: { type: 'string' },
+      limit: { type: 'string' },
+      json: { type: 'boolean' }
+    }
+  });
+  const query = positionals.join(' ');
+  if (!query.trim()) {
+    throw new UsageError('search needs a query');
+  }
+
+  const { store } = await currentWorkspace(config);
+  const { results } = await store.search(query, {
+    limit: parseCount('limit', values.limit) ?? 10,
+    mode: parseChoice<SearchMode>('mode', values.mode, ['semantic', 'keyword', 'hybrid']),
+    filter: parseFilter(values)
+  });
+
+  if (values.json) {
+    printJson(results.map(({ memory, score }) => ({ score, memory })));
+    return;
+  }
+  if (results.length === 0) {
+    console.log('No matching memories.');
+    return;
+  }
+  console.log(table(
+    ['SCORE', ...MEMORY_HEADERS],
+    results.map(({ memory, score }) => [score.toFixed(3), ...memoryRow(memory)])
+  ));
+}
+
+function onlyId(command: string, positionals: string[]): string {
+  if (positionals.length !== 1) {
+    throw new UsageError(`${command} takes exactly one memory id`);
+  }
+  return positionals[0];
+}
+
+async function show(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { json: { type: 'boolean' } }
+  });
+  const id = onlyId('show', positionals);
+
+  const { store } = await currentWorkspace(config);
+  const memory = await store.find(id);
+  if (!memory) {
+    throw new Error(`Memory not found: ${id} (archived memories are listed by ls --archived)`);
+  }
+
+  if (values.json) {
+    printJson(memory);
+    return;
+  }
+  console.log(formatMemory(memory).content[0].text);
+}
+
+async function edit(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      content: { type: 'string' },
+      type: { type: 'string' },
+      importance: { type: 'string' },
+      category: { type: 'string' },
+      topic: { type: 'string', multiple: true },
+      source: { type: 'string' },
+      unset: { type: 'string', multiple: true },
+      json: { type: 'boolean' }
+    }
+  });
+  const id = onlyId('edit', positionals);
+
+  const metadata: NonNullable<MemoryPatch['metadata']> = {};
+  for (const key of values.unset ?? []) {
+    if (key === 'type' || key === 'timestamp') {
+      throw new UsageError(`--unset can't remove ${key}`);
+    }
+    metadata[key] = null;
+  }
+  const type = parseType(values.type);
+  if (type !== undefined) metadata.type = type;
+  const importance = parseNumber('importance', values.importance);
+  if (importance !== undefined) metadata.importance = importance;
+  if (values.category !== undefined) metadata.category = values.category;
+  if (values.topic !== undefined) metadata.topics = values.topic;
+  if (values.source !== undefined) metadata.source = values.source;
+
+  const patch: MemoryPatch = {};
+  if (values.content !== undefined) patch.content = values.content;
+  if (Object.keys(metadata).length > 0) patch.metadata = metadata;
+  if (Object.keys(patch).length === 0) {
+    throw new UsageError('Nothing to edit: pass --content or a metadata option');
+  }
+
+  const { store } = await currentWorkspace(config);
+  const updated = await store.update(id, patch);
+  if (!updated) {
+    throw new Error(`Memory not found: ${id}`);
+  }
+
+  if (values.json) {
+    printJson(updated);
+    return;
+  }
+  console.log(formatMemory(updated).content[0].text);
+}
+
+async function remove(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { json: { type: 'boolean' } }
+  });
+  if (positionals.length === 0) {
+    throw new UsageError('rm needs at least one memory id');
+  }
+
+  // Check every id first so a typo doesn't leave the deletion half done
+  const { store, contextManager } = await currentWorkspace(config);
+  for (const id of positionals) {
+    if (!await store.has(id)) {
+      throw new Error(`Memory not found: ${id}`);
+    }
+  }
+  for (const id of positionals) {
+    await contextManager.deleteMemory(id);
+  }
+
+  if (values.json) {
+    printJson({ deleted: positionals });
+    return;
+  }
+  console.log(`Deleted ${positionals.length} ${positionals.length === 1 ? 'memory' : 'memories'}.`);
+}
+
+async function list(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...FILTER_OPTIONS,
+      sort: { type: 'string' },
+      limit: { type: 'string' },
+      archived: { type: 'boolean' },
+      json: { type: 'boolean' }
+    }
+  });
+  const limit = parseCount('limit', values.limit) ?? 20;
+
+  const { store } = await currentWorkspace(config);
+  const { memories, nextCursor } = await store.list({
+    filter: parseFilter(values),
+    sortBy: parseChoice('sort', values.sort, ['timestamp', 'importance'] as const),
+    limit: limit === 0 ? Infinity : limit,
+    archived: values.archived
+  });
+
+  if (values.json) {
+    printJson(memories);
+    return;
+  }
+  if (memories.length === 0) {
+    console.log(values.archived ? 'No archived memories.' : 'No memories found.');
+    return;
+  }
+  console.log(table(MEMORY_HEADERS, memories.map(memoryRow)));
+  if (nextCursor) {
+    console.log(`\nShowing the first ${memories.length}; raise --limit (0 for all) to see more.`);
+  }
+}
+
+async function contexts(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values } = parseArgs({ args, options: { json: { type: 'boolean' } } });
+
+  const { contextManager, sessions } = await currentWorkspace(config);
+  const activeId = (await sessions.getActiveSession())?.id ?? null;
+  const found = [];
+  for (const id of await contextManager.listContexts()) {
+    const context = await contextManager.loadContext(id);
+    if (!context) continue;
+    const { type, lastUpdate, closedAt } = context.metadata as typeof context.metadata & { closedAt?: string };
+    found.push({
+      id,
+      type,
+      memories: context.activeMemories.length,
+      lastUpdate,
+      ...(type === 'session' ? { status: closedAt ? 'closed' : id === activeId ? 'active' : 'open' } : {})
+    });
+  }
+  found.sort((a, b) => b.lastUpdate.localeCompare(a.lastUpdate));
+
+  if (values.json) {
+    printJson(found);
+    return;
+  }
+  if (found.length === 0) {
+    console.log('No contexts yet.');
+    return;
+  }
+  console.log(table(
+    ['ID', 'TYPE', 'MEMORIES', 'UPDATED', 'STATUS'],
+    found.map(context => [
+      context.id,
+      context.type,
+      String(context.memories),
+      shortTime(context.lastUpdate),
+      context.status ?? '-'
+    ])
+  ));
+}
+
+async function optimize(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      strategy: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      threshold: { type: 'string' },
+      type: { type: 'string' },
+      'target-size': { type: 'string' },
+      'min-score': { type: 'string' },
+      json: { type: 'boolean' }
+    }
+  });
+  const strategy = parseChoice('strategy', values.strategy, ['compress', 'prune', 'merge'] as const);
+  if (!strategy) {
+    throw new UsageError('optimize needs --strategy compress, prune or merge');
+  }
+  const dryRun = values['dry-run'] ?? false;
+  const workspace = await currentWorkspace(config);
+
+  if (strategy === 'compress') {
+    const remaining = await compressContexts(workspace.contextManager);
+    if (values.json) {
+      printJson({ strategy, remaining });
+    } else {
+      console.log(`Removed duplicate context entries; ${remaining} entries remain.`);
+    }
+    return;
+  }
+
+  if (strategy === 'prune') {
+    const { expired, pruned } = await pruneMemories(workspace, pruneRequest(config, {
+      dryRun,
+      targetSize: parseCount('target-size', values['target-size']),
+      minScore: parseNumber('min-score', values['min-score'])
+    }));
+    if (values.json) {
+      printJson({ strategy, dryRun, expired, pruned });
+    } else if (dryRun) {
+      console.log(`Would archive ${pruned.length} memories${pruned.length > 0 ? `: ${pruned.join(', ')}` : '.'}`);
+    } else {
+      console.log(`Archived ${expired.length} expired and ${pruned.length} low-value memories.`);
+    }
+    return;
+  }
+
+  const plans = await mergeMemories(workspace, {
+    dryRun,
+    threshold: parseNumber('threshold', values.threshold),
+    type: parseType(values.type)
+  });
+  const merges = plans.map(({ originals, merged }) => ({
+    originals: originals.map(memory => memory.id),
+    merged: dryRun ? null : merged.id,
+    preview: preview(merged.content, TABLE_PREVIEW)
+  }));
+  if (values.json) {
+    printJson({ strategy, dryRun, merges });
+    return;
+  }
+  if (merges.length === 0) {
+    console.log('No near-duplicate memories found.');
+    return;
+  }
+  const mergedCount = merges.reduce((count, merge) => count + merge.originals.length, 0);
+  console.log(`${dryRun ? 'Would merge' : 'Merged'} ${mergedCount} memories into ${merges.length}.\n`);
+  console.log(table(
+    ['ORIGINALS', 'MERGED', 'PREVIEW'],
+    merges.map(merge => [merge.originals.join(','), merge.merged ?? '(new)', merge.preview])
+  ));
+}
+
+async function stats(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values } = parseArgs({ args, options: { json: { type: 'boolean' } } });
+
+  const { project, store, contextManager, sessions } = await currentWorkspace(config);
+  const countByType = (memories: BaseMemory[]) => {
+    const counts = Object.fromEntries(MEMORY_TYPES.map(type => [type, 0])) as Record<MemoryType, number>;
+    for (const memory of memories) {
+      counts[memory.metadata.type] = (counts[memory.metadata.type] ?? 0) + 1;
+    }
+    return counts;
+  };
+  const live = countByType((await store.list({ limit: Infinity })).memories);
+  const archived = countByType((await store.list({ limit: Infinity, archived: true })).memories);
+  const sessionList = await sessions.listSessions();
+  const active = await sessions.getActiveSession();
+
+  const result = {
+    project: project.key,
+    root: project.root,
+    backend: config.storage.backend,
+    memories: live,
+    archived,
+    contexts: (await contextManager.listContexts()).length,
+    sessions: sessionList.length,
+    activeSession: active?.metadata.name ?? null
+  };
+
+  if (values.json) {
+    printJson(result);
+    return;
+  }
+  const total = (counts: Record<string, number>) => Object.values(counts).reduce((sum, count) => sum + count, 0);
+  console.log(`Project ${result.project} (${result.root}), ${result.backend} backend\n`);
+  console.log(table(
+    ['TYPE', 'LIVE', 'ARCHIVED'],
+    [
+      ...MEMORY_TYPES.map(type => [type, String(live[type]), String(archived[type])]),
+      ['total', String(total(live)), String(total(archived))]
+    ]
+  ));
+  console.log(
+    `\n${result.contexts} contexts, ${result.sessions} sessions` +
+    (result.activeSession ? `, active session: ${result.activeSession}` : '')
+  );
+}
+
+async function exportMemories(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      'live-only': { type: 'boolean' },
+      type: { type: 'string' }
+    }
+  });
+  if (positionals.length > 1) {
+    throw new UsageError('export takes at most one file');
+  }
+  const format = parseChoice('format', values.format, ['jsonl', 'markdown'] as const) ?? 'jsonl';
+  const filter = { type: parseType(values.type) };
+
+  const workspace = await currentWorkspace(config);
+  let text: string;
+  let summary: string;
+  if (format === 'markdown') {
+    const exported = await exportMarkdown(workspace, { filter, title: workspace.project.name });
+    text = exported.text;
+    summary = `${exported.memories} memories`;
+  } else {
+    const exported = await exportBundle(workspace, {
+      filter,
+      archived: !values['live-only'],
+      project: workspace.project.key
+    });
+    text = exported.text;
+    summary = `${exported.memories} memories, ${exported.archived} archived and ${exported.contexts} contexts`;
+  }
+
+  const [file] = positionals;
+  if (file === undefined || file === '-') {
+    process.stdout.write(text);
+    return;
+  }
+  await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  await writeFileAtomic(file, text);
+  console.log(`Exported ${summary} to ${file}.`);
+}
+
+// Exits 1 when lines were rejected
+async function importMemories(args: string[], config: DevMemoryConfig): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'on-conflict': { type: 'string' },
+      json: { type: 'boolean' }
+    }
+  });
+  if (positionals.length !== 1) {
+    throw new UsageError('import takes one bundle file, or - for stdin');
+  }
+  const onConflict = parseChoice('on-conflict', values['on-conflict'], CONFLICT_POLICIES);
+
+  const [file] = positionals;
+  const text = file === '-' ? await readStdin() : await fs.promises.readFile(file, 'utf-8');
+  const result = await importBundle(await currentWorkspace(config), text, { onConflict });
+
+  if (values.json) {
+    printJson(result);
+  } else {
+    const rekeyed = Object.keys(result.rekeyed).length;
+    console.log(
+      `Imported ${result.imported} memories (${rekeyed} under new ids), overwrote ${result.overwritten}, ` +
+      `skipped ${result.skipped} already stored; ${result.contexts} contexts.`
+    );
+    for (const { line, reason } of result.rejected) {
+      console.log(`  line ${line} rejected: ${reason}`);
+    }
+  }
+  return result.rejected.length > 0 ? 1 : 0;
+}
+
+async function ingestCommit(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      backfill: { type: 'string' },
+      'max-diff-chars': { type: 'string' }
+    }
+  });
+  if (positionals.length > 1) {
+    throw new UsageError('ingest-commit takes at most one revision');
+  }
+
+  const { store, contextManager, sessions } = await currentWorkspace(config);
+
+  const result = await ingestCommits(store, contextManager, process.cwd(), {
+    rev: positionals[0],
+    backfill: parseCount('backfill', values.backfill),
+    maxDiffChars: parseCount('max-diff-chars', values['max-diff-chars'])
+  });
+
+  await sessions.attachToActiveSession(result.ingested);
+
+  console.log(
+    `Ingested ${result.ingested.length} commit(s), skipped ${result.skipped.length} already stored` +
+    (result.blocked.length > 0 ? `, refused ${result.blocked.length} by redaction.` : '.')
+  );
+}
+
+// The current project's namespace, or every project's plus global
+async function namespaces(home: MemoryHome, all: boolean): Promise<Array<{ name: string; dir: string }>> {
+  if (!all) {
+    const project = await home.resolveProject(process.cwd());
+    return [{ name: project.key, dir: await home.openProject(project) }];
+  }
+
+  const found = (await home.listProjects()).map(project => ({ name: project.key, dir: home.projectDir(project) }));
+  return [...found, { name: 'global', dir: home.globalDir }];
+}
+
+function parseBackendOption(name: string, value: string | undefined, fallback: StoreBackend): StoreBackend {
+  if (value === undefined) return fallback;
+  if (!STORE_BACKENDS.includes(value as StoreBackend)) {
+    throw new UsageError(`--${name} must be one of ${STORE_BACKENDS.join(', ')}, got: ${value}`);
+  }
+  return value as StoreBackend;
+}
+
+async function migrate(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      all: { type: 'boolean' }
+    }
+  });
+  const from = parseBackendOption('from', values.from, 'file');
+  const to = parseBackendOption('to', values.to, 'sqlite');
+  if (from === to) {
+    throw new UsageError('--from and --to must name different backends');
+  }
+
+  const home = new MemoryHome(config.storage.home);
+  const cipher = loadCipher(home.dir);
+  for (const { name, dir } of await namespaces(home, values.all ?? false)) {
+    const result = await migrateStore(openStore(dir, from, { cipher }), openStore(dir, to, { cipher }));
+    console.log(
+      `${name}: copied ${result.memories} memories, ${result.archived} archived and ` +
+      `${result.contexts} contexts from ${from} to ${to}.`
+    );
+  }
+  console.log(`Set DEV_MEMORY_BACKEND=${to} (or storage.backend in the config file) to use the migrated data.`);
+}
+
+function printReport(name: string, what: string, report: IntegrityReport): void {
+  const status = report.issues.length === 0 ? 'ok' : report.repaired ? 'repaired' : 'problems found';
+  console.log(`${name}: ${report.checked} ${what} checked, ${report.issues.length} issue(s), ${status}`);
+  for (const issue of report.issues) {
+    console.log(`  ${issue.file}: ${issue.problem}`);
+  }
+}
+
+// Exits 1 when problems were found and not repaired
+async function verify(args: string[], config: DevMemoryConfig): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      repair: { type: 'boolean' },
+      all: { type: 'boolean' }
+    }
+  });
+
+  const home = new MemoryHome(config.storage.home);
+  const cipher = loadCipher(home.dir);
+  let unresolved = false;
+  for (const { name, dir } of await namespaces(home, values.all ?? false)) {
+    const { store, contexts } = openStore(dir, config.storage.backend, { cipher });
+    const reports: Array<[string, IntegrityReport]> = [
+      ['memories', await store.verify({ repair: values.repair })],
+      ['contexts', await contexts.verify({ repair: values.repair })]
+    ];
+    for (const [what, report] of reports) {
+      printReport(name, what, report);
+      unresolved ||= report.issues.length > 0 && !report.repaired;
+    }
+  }
+  return unresolved ? 1 : 0;
+}
+
+// Exits 1 when something was found and not fixed
+async function audit(args: string[], config: DevMemoryConfig): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      fix: { type: 'boolean' },
+      all: { type: 'boolean' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  const home = new MemoryHome(config.storage.home);
+  const redactor = createRedactor(config.redaction);
+  const cipher = loadCipher(home.dir);
+  const reports: Array<{ namespace: string } & AuditReport> = [];
+  for (const { name, dir } of await namespaces(home, values.all ?? false)) {
+    const { store } = openStore(dir, config.storage.backend, { cipher });
+    reports.push({ namespace: name, ...await auditStore(store, redactor, { fix: values.fix }) });
+  }
+
+  if (values.json) {
+    printJson(reports);
+  } else {
+    for (const report of reports) {
+      const status = report.flagged.length === 0 ? 'clean' : report.fixed ? 'redacted' : 'needs redaction';
+      console.log(`${report.namespace}: ${report.checked} memories checked, ${report.flagged.length} flagged, ${status}`);
+      for (const { id, archived, findings } of report.flagged) {
+        const found = findings.map(finding => `${finding.detector} x${finding.count}`).join(', ');
+        console.log(`  ${id}${archived ? ' (archived)' : ''}: ${found}`);
+      }
+    }
+  }
+  return reports.some(report => report.flagged.length > 0 && !report.fixed) ? 1 : 0;
+}
+
+// Re-encrypts every namespace, since they all share one key. The old key stays
+// readable throughout, so an interrupted rotation can simply be run again.
+async function rotateKey(args: string[], config: DevMemoryConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'new-key-file': { type: 'string' },
+      decrypt: { type: 'boolean' }
+    }
+  });
+  if (values.decrypt && values['new-key-file'] !== undefined) {
+    throw new UsageError('--decrypt and --new-key-file can\'t be combined');
+  }
+
+  const home = new MemoryHome(config.storage.home);
+  const current = findKey(home.dir);
+  const defaultFile = path.join(home.dir, KEY_FILE);
+
+  let next: Buffer | null = null;
+  let keyFile: string | null = null;
+  // A new default key is staged beside the old one until every namespace uses it
+  let staged: string | null = null;
+  if (values['new-key-file'] !== undefined) {
+    keyFile = path.resolve(values['new-key-file']);
+    if (!fs.existsSync(keyFile)) {
+      await writeKeyFile(keyFile, generateKey());
+    }
+    next = readKeyFile(keyFile);
+  } else if (!values.decrypt) {
+    if (current && (current.origin === 'env' || current.file !== defaultFile)) {
+      throw new UsageError(
+        `The key comes from ${current.origin === 'env' ? 'DEV_MEMORY_KEY' : current.file}; ` +
+        'pass --new-key-file and point DEV_MEMORY_KEY_FILE at it afterwards'
+      );
+    }
+    staged = `${defaultFile}.new`;
+    if (!fs.existsSync(staged)) {
+      await writeKeyFile(staged, generateKey());
+    }
+    next = readKeyFile(staged);
+  }
+
+  const cipher = new Cipher(next, current ? [current.key] : []);
+  for (const { name, dir } of await namespaces(home, true)) {
+    await reencryptNamespace(dir, cipher);
+    console.log(`${name}: ${cipher.enabled ? `encrypted with key ${cipher.keyId}` : 'decrypted'}`);
+  }
+
+  if (staged) {
+    await fs.promises.rename(staged, defaultFile);
+    console.log(`New key saved to ${defaultFile}.`);
+  } else if (keyFile && keyFile !== defaultFile) {
+    console.log(`Set DEV_MEMORY_KEY_FILE=${keyFile} (and unset DEV_MEMORY_KEY) to use the new key.`);
+  } else if (values.decrypt && current) {
+    if (current.file === defaultFile) {
+      await fs.promises.rm(defaultFile);
+      console.log(`Encryption is off; removed ${defaultFile}.`);
+    } else {
+      console.log('Encryption is off; unset DEV_MEMORY_KEY and DEV_MEMORY_KEY_FILE.');
+    }
+  }
+}
+
+// The encryption key itself is never shown
+function showConfig(args: string[], config: DevMemoryConfig): void {
+  parseArgs({ args, options: {} });
+  const cipher = loadCipher(config.storage.home);
+  printJson({ ...config, encryption: { enabled: cipher.enabled, keyId: cipher.enabled ? cipher.keyId : null } });
+}
+
+// Splits leading global options (--home, --config, ...) from the command.
+// A global option missing its value is left for runCli to report.
+export function parseGlobalOptions(argv: string[]): { flags: ConfigFlags; rest: string[] } {
+  const names = new Map(Object.entries(FLAG_NAMES).map(([key, name]) => [`--${name}`, key as keyof ConfigFlags]));
+  const flags: ConfigFlags = {};
+  let i = 0;
+  while (i < argv.length) {
+    const [name, inline] = argv[i].split(/=(.*)/s);
+    const key = names.get(name);
+    if (!key) break;
+    const value = inline ?? argv[i + 1];
+    if (value === undefined) break;
+    flags[key] = value;
+    i += inline !== undefined ? 1 : 2;
+  }
+  return { flags, rest: argv.slice(i) };
+}
+
+// Runs a CLI command; resolves to the process exit code
+export async function runCli(argv: string[], flags: ConfigFlags = {}): Promise<number> {
+  const [command, ...args] = argv;
+
+  try {
+    if (Object.values(FLAG_NAMES).some(name => command === `--${name}`)) {
+      throw new UsageError(`${command} needs a value`);
+    }
+    if (command === 'help' || command === '--help' || command === '-h') {
+      console.log(USAGE);
+      return 0;
+    }
+    const config = loadConfig(flags);
+    setLogLevel(config.logging.level);
+
+    switch (command) {
+      case 'add':
+        await add(args, config);
+        return 0;
+      case 'search':
+        await search(args, config);
+        return 0;
+      case 'show':
+        await show(args, config);
+        return 0;
+      case 'edit':
+        await edit(args, config);
+        return 0;
+      case 'rm':
+        await remove(args, config);
+        return 0;
+      case 'ls':
+        await list(args, config);
+        return 0;
+      case 'contexts':
+        await contexts(args, config);
+        return 0;
+      case 'optimize':
+        await optimize(args, config);
+        return 0;
+      case 'stats':
+        await stats(args, config);
+        return 0;
+      case 'export':
+        await exportMemories(args, config);
+        return 0;
+      case 'import':
+        return await importMemories(args, config);
+      case 'ingest-commit':
+        await ingestCommit(args, config);
+        return 0;
+      case 'migrate-store':
+        await migrate(args, config);
+        return 0;
+      case 'verify':
+        return await verify(args, config);
+      case 'audit':
+        return await audit(args, config);
+      case 'rotate-key':
+        await rotateKey(args, config);
+        return 0;
+      case 'config':
+        showConfig(args, config);
+        return 0;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (error instanceof UsageError || (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS'))) {
+      console.error(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error(`dev-memory ${command} failed: ${(error as Error).message ?? error}`);
+    return 1;
+  }
+}
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import { tokenize, TOKENIZER_VERSION } from './tokenize.js';
+import { writeFileAtomic } from './files.js';
+import { Journal } from './journal.js';
+import { Cipher, DecryptionError } from './crypto.js';
+import { log } from './log.js';
+
+interface TermIndexFile {
+  version: number;
+  tokenizer: number;
+  docs: Record<string, Record<string, number>>; // id -> term -> frequency
+}
+
+const TERM_INDEX_VERSION = 1;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export interface KeywordMatch {
+  id: string;
+  score: number;
+}
+
+// Inverted index ranked with BM25. Per-document term frequencies are what
+// gets persisted, as a snapshot plus a journal of changes since it was
+// written; postings are derived from them on load so that adding or removing
+// a document only touches its own terms.
+export class Bm25Index {
+  private docs: Map<string, Map<string, number>> = new Map();
+  private lengths: Map<string, number> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map();
+  private totalLength = 0;
+  private journal: Journal<Record<string, number>>;
+
+  constructor(
+    private filePath: string,
+    private cipher: Cipher = new Cipher(null)
+  ) {
+    this.journal = new Journal(filePath, cipher);
+  }
+
+  // Returns false when the file is missing, corrupt or written by an older
+  // tokenizer, in which case the caller should re-add everything
+  async load(): Promise<boolean> {
+    this.clear();
+
+    try {
+      const parsed: TermIndexFile = JSON.parse(this.cipher.decrypt(await fs.promises.readFile(this.filePath, 'utf-8')));
+      if (
+        parsed?.version !== TERM_INDEX_VERSION ||
+        parsed.tokenizer !== TOKENIZER_VERSION ||
+        !parsed.docs ||
+        typeof parsed.docs !== 'object'
+      ) {
+        this.journal.discard();
+        return false;
+      }
+
+      for (const [id, terms] of Object.entries(parsed.docs)) {
+        this.index(id, new Map(Object.entries(terms)));
+      }
+      for (const [id, terms] of await this.journal.read()) {
+        this.unindex(id);
+        if (terms) this.index(id, new Map(Object.entries(terms)));
+      }
+      return true;
+    } catch (error) {
+      // Rebuilding can't help when the key is wrong
+      if (error instanceof DecryptionError) throw error;
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Term index is unreadable, rebuilding:', error);
+      }
+      this.clear();
+      this.journal.discard();
+      return false;
+    }
+  }
+
+  // Persists the changes since the last save
+  async save(): Promise<void> {
+    if (this.journal.shouldCompact(this.docs.size)) {
+      await this.compact();
+    } else {
+      await this.journal.flush();
+    }
+  }
+
+  // Rewrites the snapshot in full
+  async compact(): Promise<void> {
+    const docs: TermIndexFile['docs'] = {};
+    for (const [id, terms] of this.docs) {
+      docs[id] = Object.fromEntries(terms);
+    }
+
+    const data: TermIndexFile = {
+      version: TERM_INDEX_VERSION,
+      tokenizer: TOKENIZER_VERSION,
+      docs
+    };
+    await writeFileAtomic(this.filePath, this.cipher.encrypt(JSON.stringify(data)));
+    await this.journal.clear();
+  }
+
+  async add(id: string, text: string): Promise<void> {
+    this.unindex(id);
+
+    const terms = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      terms.set(term, (terms.get(term) ?? 0) + 1);
+    }
+    this.index(id, terms);
+    this.journal.record(id, Object.fromEntries(terms));
+  }
+
+  remove(id: string): void {
+    if (this.unindex(id)) {
+      this.journal.record(id, null);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.docs.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.docs.keys());
+  }
+
+  async search(query: string, limit: number, filter?: (id: string) => boolean): Promise<KeywordMatch[]> {
+    const docCount = this.docs.size;
+    if (docCount === 0) return [];
+
+    const averageLength = this.totalLength / docCount;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (filter && !filter(id)) continue;
+
+        const length = this.lengths.get(id)!;
+        const weight = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * weight);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private index(id: string, terms: Map<string, number>) {
+    let length = 0;
+    for (const [term, frequency] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+      length += frequency;
+    }
+
+    this.docs.set(id, terms);
+    this.lengths.set(id, length);
+    this.totalLength += length;
+  }
+
+  // Resolves to whether id was indexed
+  private unindex(id: string): boolean {
+    const terms = this.docs.get(id);
+    if (!terms) return false;
+
+    for (const term of terms.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) ?? 0;
+    this.docs.delete(id);
+    this.lengths.delete(id);
+    return true;
+  }
+
+  private clear() {
+    this.docs.clear();
+    this.lengths.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+}
@@ -0,0 +1,380 @@
+import { randomUUID } from 'crypto';
+import { BaseContext, BaseMemory, EnhancedMemory, MEMORY_TYPES, MemoryType } from './types.js';
+import { MemoryFilter } from './filter.js';
+import { RELATION_TYPES } from './graph.js';
+import { OpenedStore } from './workspace.js';
+import { isValidContextId } from './context.js';
+
+// A bundle is JSONL: a header line, then one record per line.
+//
+//   {"format":"dev-memory-bundle","version":1,"exportedAt":"...","project":"..."}
+//   {"kind":"memory","archived":false,"memory":{...}}
+//   {"kind":"context","context":{...}}
+//
+// Memories are written whole, so typed links and persistence travel with them.
+// Readers accept any version up to their own and reject newer bundles.
+export const BUNDLE_FORMAT = 'dev-memory-bundle';
+export const BUNDLE_VERSION = 1;
+
+interface BundleHeader {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project?: string;
+}
+
+type BundleRecord =
+  | { kind: 'memory'; archived?: boolean; memory: BaseMemory }
+  | { kind: 'context'; context: BaseContext };
+
+// What to do with a memory or context whose id is already stored.
+// skip: keep the stored one; overwrite: replace it; rekey: import memories
+// under a new id (links and contexts in the bundle follow) and add the
+// memories of a context to the stored context.
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rekey';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['skip', 'overwrite', 'rekey'];
+
+export interface ExportOptions {
+  // Only export memories matching this; contexts are always exported
+  filter?: MemoryFilter;
+  // Include the archive tier; defaults to true
+  archived?: boolean;
+  // Recorded in the header
+  project?: string;
+}
+
+export interface ExportResult {
+  text: string;
+  memories: number;
+  archived: number;
+  contexts: number;
+}
+
+export interface ImportOptions {
+  onConflict?: ConflictPolicy;
+}
+
+export interface RejectedLine {
+  // 1-based line number in the bundle
+  line: number;
+  reason: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  overwritten: number;
+  // Old id -> new id for memories imported under a new id
+  rekeyed: Record<string, string>;
+  contexts: number;
+  rejected: RejectedLine[];
+}
+
+const PAGE_SIZE = 200;
+
+// Every memory matching the filter, oldest first, live then archived
+async function collectMemories(
+  store: OpenedStore['store'],
+  filter: MemoryFilter | undefined,
+  archived: boolean
+): Promise<BaseMemory[]> {
+  const memories: BaseMemory[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.list({ filter, archived, limit: PAGE_SIZE, cursor, order: 'asc' });
+    memories.push(...page.memories);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return memories;
+}
+
+export async function exportBundle(source: OpenedStore, options: ExportOptions = {}): Promise<ExportResult> {
+  const header: BundleHeader = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(options.project ? { project: options.project } : {})
+  };
+  const lines = [JSON.stringify(header)];
+  const result = { memories: 0, archived: 0, contexts: 0 };
+
+  for (const archived of options.archived === false ? [false] : [false, true]) {
+    for (const memory of await collectMemories(source.store, options.filter, archived)) {
+      const record: BundleRecord = { kind: 'memory', ...(archived ? { archived } : {}), memory };
+      lines.push(JSON.stringify(record));
+      result[archived ? 'archived' : 'memories']++;
+    }
+  }
+
+  for (const id of await source.contexts.list()) {
+    const context = await source.contexts.load(id);
+    if (!context) continue;
+    const record: BundleRecord = { kind: 'context', context };
+    lines.push(JSON.stringify(record));
+    result.contexts++;
+  }
+
+  return { text: lines.join('\n') + '\n', ...result };
+}
+
+const UNTAGGED = 'Other';
+
+// A readable log of live memories, grouped by type and then by each memory's
+// first topic. Ordering is stable and there is no export time, so a committed
+// log only changes where the memories did.
+export async function exportMarkdown(
+  source: OpenedStore,
+  options: Pick<ExportOptions, 'filter'> & { title?: string } = {}
+): Promise<{ text: string; memories: number }> {
+  const memories = await collectMemories(source.store, options.filter, false);
+  const lines = [`# ${options.title ?? 'Project memory'}`, '', `${memories.length} memories.`];
+
+  for (const type of MEMORY_TYPES) {
+    const ofType = memories.filter(memory => memory.metadata.type === type);
+    if (ofType.length === 0) continue;
+    lines.push('', `## ${type}`);
+
+    const byTopic = new Map<string, BaseMemory[]>();
+    for (const memory of ofType) {
+      const topic = memory.metadata.topics?.[0] ?? UNTAGGED;
+      byTopic.set(topic, [...byTopic.get(topic) ?? [], memory]);
+    }
+    const topics = [...byTopic.keys()].sort((a, b) =>
+      a === UNTAGGED ? 1 : b === UNTAGGED ? -1 : a.localeCompare(b)
+    );
+
+    for (const topic of topics) {
+      lines.push('', `### ${topic}`);
+      for (const memory of byTopic.get(topic)!) {
+        const { timestamp, importance, category, topics: tags } = memory.metadata;
+        const details = [
+          `\`${memory.id}\``,
+          importance !== undefined ? `importance ${importance}` : null,
+          category ? `category ${category}` : null,
+          tags && tags.length > 1 ? `topics ${tags.join(', ')}` : null
+        ].filter(Boolean);
+        lines.push(
+          '',
+          `#### ${timestamp.slice(0, 10)}: ${memory.content.split('\n', 1)[0].slice(0, 80)}`,
+          '',
+          details.join(' · '),
+          '',
+          memory.content
+        );
+      }
+    }
+  }
+
+  return { text: lines.join('\n') + '\n', memories: memories.length };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Why value isn't a valid BaseMemory, or null if it is
+function memoryProblem(value: unknown): string | null {
+  if (!isObject(value)) return 'memory is not an object';
+  if (typeof value.id !== 'string' || value.id.length === 0) return 'memory id must be a non-empty string';
+  if (typeof value.content !== 'string') return 'memory content must be a string';
+
+  const metadata = value.metadata;
+  if (!isObject(metadata)) return 'memory metadata must be an object';
+  if (typeof metadata.timestamp !== 'string' || Number.isNaN(Date.parse(metadata.timestamp))) {
+    return 'metadata.timestamp must be an ISO timestamp';
+  }
+  if (!MEMORY_TYPES.includes(metadata.type as MemoryType)) {
+    return `metadata.type must be one of ${MEMORY_TYPES.join(', ')}`;
+  }
+  if (metadata.importance !== undefined && typeof metadata.importance !== 'number') {
+    return 'metadata.importance must be a number';
+  }
+  for (const key of ['category', 'source'] as const) {
+    if (metadata[key] !== undefined && typeof metadata[key] !== 'string') {
+      return `metadata.${key} must be a string`;
+    }
+  }
+  if (metadata.topics !== undefined && !isStringArray(metadata.topics)) {
+    return 'metadata.topics must be an array of strings';
+  }
+  return null;
+}
+
+function contextProblem(value: unknown): string | null {
+  if (!isObject(value)) return 'context is not an object';
+  if (typeof value.id !== 'string' || value.id.length === 0) return 'context id must be a non-empty string';
+  if (!isValidContextId(value.id)) return 'context id may only use letters, digits, ".", "_" and "-", and no ".."';
+  if (!isStringArray(value.activeMemories)) return 'context activeMemories must be an array of strings';
+  if (!isObject(value.metadata) || typeof value.metadata.type !== 'string') {
+    return 'context metadata.type must be a string';
+  }
+  return null;
+}
+
+function parseHeader(line: string | undefined): BundleHeader {
+  let header: unknown;
+  try {
+    header = line !== undefined ? JSON.parse(line) : undefined;
+  } catch {
+    // Reported below
+  }
+  if (!isObject(header) || header.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a dev-memory bundle: the first line must be its header');
+  }
+  if (typeof header.version !== 'number' || header.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${header.version}; this version reads up to ${BUNDLE_VERSION}`);
+  }
+  return header as unknown as BundleHeader;
+}
+
+// Rewrites memory ids in links and related memories
+function remapMemory(memory: BaseMemory, rekeyed: Map<string, string>): BaseMemory {
+  const relationships = (memory as Partial<EnhancedMemory>).relationships;
+  if (!relationships) return memory;
+
+  const remap = (ids: string[]) => ids.map(id => rekeyed.get(id) ?? id);
+  const customRelations = { ...relationships.customRelations };
+  for (const type of RELATION_TYPES) {
+    const targets = customRelations[type];
+    if (Array.isArray(targets)) customRelations[type] = remap(targets);
+  }
+  return {
+    ...memory,
+    relationships: {
+      ...relationships,
+      relatedMemories: remap(relationships.relatedMemories ?? []),
+      customRelations
+    }
+  } as BaseMemory;
+}
+
+// Loads a bundle into a store. Records that don't parse or validate are
+// reported by line and the rest are imported; an unreadable header rejects
+// the whole bundle.
+export async function importBundle(
+  target: OpenedStore,
+  text: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const onConflict = options.onConflict ?? 'skip';
+  const { store, contexts } = target;
+  await store.initialize();
+
+  const numbered = text.split('\n')
+    .map((line, i) => ({ line: i + 1, text: line.trim() }))
+    .filter(entry => entry.text.length > 0);
+  parseHeader(numbered[0]?.text);
+
+  const result: ImportResult = { imported: 0, skipped: 0, overwritten: 0, rekeyed: {}, contexts: 0, rejected: [] };
+  const memories: Array<{ line: number; memory: BaseMemory; archived: boolean }> = [];
+  const contextRecords: Array<{ line: number; context: BaseContext }> = [];
+  const seen = new Set<string>();
+
+  for (const { line, text: json } of numbered.slice(1)) {
+    let record: unknown;
+    try {
+      record = JSON.parse(json);
+    } catch (error) {
+      result.rejected.push({ line, reason: `invalid JSON: ${(error as Error).message}` });
+      continue;
+    }
+
+    const kind = isObject(record) ? record.kind : undefined;
+    const problem = kind === 'memory' ? memoryProblem((record as Record<string, unknown>).memory)
+      : kind === 'context' ? contextProblem((record as Record<string, unknown>).context)
+      : 'kind must be memory or context';
+    if (problem) {
+      result.rejected.push({ line, reason: problem });
+      continue;
+    }
+
+    if (kind === 'memory') {
+      const { memory, archived } = record as { memory: BaseMemory; archived?: unknown };
+      if (seen.has(memory.id)) {
+        result.rejected.push({ line, reason: `duplicate memory id ${memory.id}` });
+        continue;
+      }
+      seen.add(memory.id);
+      memories.push({ line, memory, archived: archived === true });
+    } else {
+      contextRecords.push({ line, context: (record as { context: BaseContext }).context });
+    }
+  }
+
+  // Decide every new id first so links between imported memories follow
+  const rekeyed = new Map<string, string>();
+  const conflicts = new Set<string>();
+  for (const { memory } of memories) {
+    if (!await store.has(memory.id)) continue;
+    conflicts.add(memory.id);
+    if (onConflict === 'rekey') {
+      rekeyed.set(memory.id, randomUUID());
+    }
+  }
+
+  for (const { line, memory, archived } of memories) {
+    if (conflicts.has(memory.id) && onConflict === 'skip') {
+      result.skipped++;
+      continue;
+    }
+
+    const remapped = remapMemory(memory, rekeyed);
+    const id = rekeyed.get(memory.id) ?? memory.id;
+    try {
+      if (conflicts.has(id)) {
+        // The stored copy may be archived; bring it back so it is replaced
+        // rather than kept alongside
+        await store.restore(id);
+      }
+      await store.store({ ...remapped, id });
+      if (archived) {
+        await store.archive(id);
+      }
+    } catch (error) {
+      result.rejected.push({ line, reason: `could not store memory: ${(error as Error).message}` });
+      continue;
+    }
+
+    if (conflicts.has(id)) {
+      result.overwritten++;
+    } else {
+      result.imported++;
+    }
+    if (id !== memory.id) {
+      result.rekeyed[memory.id] = id;
+    }
+  }
+
+  for (const { line, context } of contextRecords) {
+    const activeMemories = context.activeMemories.map(id => rekeyed.get(id) ?? id);
+    try {
+      const existing = await contexts.load(context.id);
+      if (existing && onConflict === 'skip') continue;
+
+      if (existing && onConflict === 'rekey') {
+        existing.activeMemories = Array.from(new Set([...existing.activeMemories, ...activeMemories]));
+        existing.metadata.lastUpdate = new Date().toISOString();
+        await contexts.save(existing);
+      } else {
+        // Save over whatever version is stored, if any
+        await contexts.save({
+          ...context,
+          activeMemories,
+          metadata: { ...context.metadata, version: existing?.metadata.version ?? 0 }
+        });
+      }
+    } catch (error) {
+      result.rejected.push({ line, reason: `could not store context: ${(error as Error).message}` });
+      continue;
+    }
+    result.contexts++;
+  }
+
+  result.rejected.sort((a, b) => a.line - b.line);
+  return result;
+}
@@ -0,0 +1,299 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SearchMode } from './store.js';
+import { RetentionPolicy } from './retention.js';
+import { RedactionConfig, Redactor, createRedactor, readRedactionConfig } from './redact.js';
+import { LOG_LEVELS, LogLevel } from './log.js';
+import { STORE_BACKENDS, StoreBackend, WorkspaceConfig } from './workspace.js';
+import { defaultHome } from './projects.js';
+import { PRUNED_CONTEXT_SIZE, PruneRequest } from './operations.js';
+
+// dev-memory.config.json, every key optional:
+//
+//   {
+//     "storage": { "home": "~/.dev-memory", "backend": "file" },
+//     "search": { "mode": "hybrid", "maxResults": 5, "minScore": 0.1 },
+//     "contexts": { "maxSize": 100 },
+//     "retention": {
+//       "halfLifeDays": 30,
+//       "weights": { "importance": 0.4, "recency": 0.4, "frequency": 0.2 },
+//       "minScore": 0.2, "targetSize": 5000, "contextSize": 50
+//     },
+//     "redaction": { "detectors": { "email": "hash" }, "custom": [] },
+//     "logging": { "level": "info" }
+//   }
+//
+// Read from --config, else $DEV_MEMORY_CONFIG, else <home>/dev-memory.config.json
+// if it exists. Environment variables override the file and CLI flags
+// override both.
+export const CONFIG_FILE = 'dev-memory.config.json';
+
+export const SEARCH_MODES: SearchMode[] = ['semantic', 'keyword', 'hybrid'];
+
+// get_context never returns more than this per page
+export const MAX_RESULTS_LIMIT = 50;
+
+export interface RetentionConfig extends Required<RetentionPolicy> {
+  weights: Required<NonNullable<RetentionPolicy['weights']>>;
+  // prune defaults for when the caller gives neither
+  minScore?: number;
+  targetSize?: number;
+  // Entries prune keeps in each context, most recent first
+  contextSize: number;
+}
+
+export interface DevMemoryConfig {
+  // The config file that was read, if any
+  file: string | null;
+  storage: {
+    home: string;
+    backend: StoreBackend;
+  };
+  search: {
+    mode: SearchMode;
+    // Default page size of get_context
+    maxResults: number;
+    // Results scoring below this are dropped
+    minScore: number;
+  };
+  contexts: {
+    // Memory ids kept in each context, most recent first
+    maxSize: number;
+  };
+  retention: RetentionConfig;
+  // Falls back to <home>/redaction.json
+  redaction: RedactionConfig;
+  logging: {
+    level: LogLevel;
+  };
+}
+
+// Settings given on the command line, before any command
+export interface ConfigFlags {
+  config?: string;
+  home?: string;
+  backend?: string;
+  searchMode?: string;
+  maxResults?: string;
+  logLevel?: string;
+}
+
+// Command-line spelling of each flag
+export const FLAG_NAMES: Record<keyof ConfigFlags, string> = {
+  config: 'config',
+  home: 'home',
+  backend: 'backend',
+  searchMode: 'search-mode',
+  maxResults: 'max-results',
+  logLevel: 'log-level'
+};
+
+const DEFAULTS = {
+  backend: 'file' as StoreBackend,
+  search: { mode: 'hybrid' as SearchMode, maxResults: 5, minScore: 0.1 },
+  contexts: { maxSize: 100 },
+  retention: {
+    halfLifeDays: 30,
+    weights: { importance: 0.4, recency: 0.4, frequency: 0.2 },
+    contextSize: PRUNED_CONTEXT_SIZE
+  },
+  logging: { level: 'info' as LogLevel }
+};
+
+type Raw = Record<string, unknown>;
+
+// Checks a section has no keys but the known ones; resolves to {} when absent
+function section(raw: Raw, key: string, where: string, known: string[]): Raw {
+  const value = raw[key];
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${where}${key} must be an object`);
+  }
+  for (const name of Object.keys(value)) {
+    if (!known.includes(name)) {
+      throw new Error(`${where}${key}.${name} is not a known setting (expected ${known.join(', ')})`);
+    }
+  }
+  return value as Raw;
+}
+
+function choice<C extends string>(value: unknown, where: string, choices: readonly C[]): C | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as C)) {
+    throw new Error(`${where} must be one of ${choices.join(', ')}, got: ${value}`);
+  }
+  return value as C;
+}
+
+function number(value: unknown, where: string, min: number, max: number = Infinity, integer = false): number | undefined {
+  if (value === undefined) return undefined;
+  // Environment variables and flags arrive as strings
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || Number.isNaN(parsed) || parsed < min || parsed > max ||
+    (integer && !Number.isInteger(parsed))) {
+    const range = max === Infinity ? `at least ${min}` : `from ${min} to ${max}`;
+    throw new Error(`${where} must be ${integer ? 'an integer' : 'a number'} ${range}, got: ${value}`);
+  }
+  return parsed;
+}
+
+function text(value: unknown, where: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`${where} must be a non-empty string`);
+  }
+  return value;
+}
+
+// ~ is the user's home; other relative paths are relative to base
+function resolvePath(value: string, base: string): string {
+  if (value === '~' || value.startsWith('~/')) {
+    return path.join(os.homedir(), value.slice(1));
+  }
+  return path.resolve(base, value);
+}
+
+function readConfigFile(file: string): Raw {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Config file not found: ${file}`);
+    }
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`${file} must hold a JSON object`);
+  }
+  return raw as Raw;
+}
+
+function configFile(flags: ConfigFlags): string | null {
+  const explicit = flags.config ?? process.env.DEV_MEMORY_CONFIG;
+  if (explicit) return path.resolve(explicit);
+
+  const file = path.join(defaultHome(), CONFIG_FILE);
+  return fs.existsSync(file) ? file : null;
+}
+
+// Resolves the configuration: defaults, then the config file, then
+// environment variables, then flags. Throws on anything invalid.
+export function loadConfig(flags: ConfigFlags = {}): DevMemoryConfig {
+  const env = process.env;
+  const file = configFile(flags);
+  const raw = file ? readConfigFile(file) : {};
+  const where = file ? `${file}: ` : '';
+
+  for (const key of Object.keys(raw)) {
+    if (!['storage', 'search', 'contexts', 'retention', 'redaction', 'logging'].includes(key)) {
+      throw new Error(`${where}${key} is not a known section`);
+    }
+  }
+  const storage = section(raw, 'storage', where, ['home', 'backend']);
+  const search = section(raw, 'search', where, ['mode', 'maxResults', 'minScore']);
+  const contexts = section(raw, 'contexts', where, ['maxSize']);
+  const retention = section(raw, 'retention', where,
+    ['halfLifeDays', 'weights', 'minScore', 'targetSize', 'contextSize']);
+  const weights = section(retention, 'weights', `${where}retention.`, ['importance', 'recency', 'frequency']);
+  const logging = section(raw, 'logging', where, ['level']);
+
+  // The first of flag, environment variable and file that is set
+  const pick = (flag: keyof ConfigFlags, variable: string, value: unknown, name: string) =>
+    flags[flag] !== undefined ? { value: flags[flag], where: `--${FLAG_NAMES[flag]}` }
+      : env[variable] ? { value: env[variable], where: variable }
+        : { value, where: `${where}${name}` };
+
+  // defaultHome() already honours $DEV_MEMORY_HOME
+  const configuredHome = text(storage.home, `${where}storage.home`);
+  const home = flags.home !== undefined ? resolvePath(flags.home, process.cwd())
+    : configuredHome !== undefined && !env.DEV_MEMORY_HOME ? resolvePath(configuredHome, path.dirname(file!))
+      : path.resolve(defaultHome());
+
+  const backend = pick('backend', 'DEV_MEMORY_BACKEND', storage.backend, 'storage.backend');
+  const mode = pick('searchMode', 'DEV_MEMORY_SEARCH_MODE', search.mode, 'search.mode');
+  const maxResults = pick('maxResults', 'DEV_MEMORY_MAX_RESULTS', search.maxResults, 'search.maxResults');
+  const level = pick('logLevel', 'DEV_MEMORY_LOG_LEVEL', logging.level, 'logging.level');
+
+  // Checked now so a bad rule fails at startup, naming where it came from
+  const redaction = raw.redaction !== undefined
+    ? section(raw, 'redaction', where, ['detectors', 'custom']) as RedactionConfig
+    : readRedactionConfig(home);
+  try {
+    createRedactor(redaction);
+  } catch (error) {
+    const source = raw.redaction !== undefined ? `${where}redaction` : path.join(home, 'redaction.json');
+    throw new Error(`${source}: ${(error as Error).message}`);
+  }
+
+  return {
+    file,
+    storage: {
+      home,
+      backend: choice(backend.value, backend.where, STORE_BACKENDS) ?? DEFAULTS.backend
+    },
+    search: {
+      mode: choice(mode.value, mode.where, SEARCH_MODES) ?? DEFAULTS.search.mode,
+      maxResults: number(maxResults.value, maxResults.where, 1, MAX_RESULTS_LIMIT, true) ?? DEFAULTS.search.maxResults,
+      minScore: number(search.minScore, `${where}search.minScore`, 0, 1) ?? DEFAULTS.search.minScore
+    },
+    contexts: {
+      maxSize: number(contexts.maxSize, `${where}contexts.maxSize`, 1, Infinity, true) ?? DEFAULTS.contexts.maxSize
+    },
+    retention: {
+      halfLifeDays: number(retention.halfLifeDays, `${where}retention.halfLifeDays`, Number.MIN_VALUE) ??
+        DEFAULTS.retention.halfLifeDays,
+      weights: {
+        importance: number(weights.importance, `${where}retention.weights.importance`, 0) ??
+          DEFAULTS.retention.weights.importance,
+        recency: number(weights.recency, `${where}retention.weights.recency`, 0) ??
+          DEFAULTS.retention.weights.recency,
+        frequency: number(weights.frequency, `${where}retention.weights.frequency`, 0) ??
+          DEFAULTS.retention.weights.frequency
+      },
+      minScore: number(retention.minScore, `${where}retention.minScore`, 0, 1),
+      targetSize: number(retention.targetSize, `${where}retention.targetSize`, 0, Infinity, true),
+      contextSize: number(retention.contextSize, `${where}retention.contextSize`, 1, Infinity, true) ??
+        DEFAULTS.retention.contextSize
+    },
+    redaction,
+    logging: {
+      level: choice(level.value, level.where, LOG_LEVELS) ?? DEFAULTS.logging.level
+    }
+  };
+}
+
+// prune options from the configured retention rules; what the caller passes
+// wins. Configured minScore and targetSize only apply when neither is given.
+export function pruneRequest(config: DevMemoryConfig, request: PruneRequest): PruneRequest {
+  const { halfLifeDays, weights, minScore, targetSize, contextSize } = config.retention;
+  const bounded = request.minScore !== undefined || request.targetSize !== undefined;
+  const given = Object.fromEntries(Object.entries(request).filter(([, value]) => value !== undefined));
+  return {
+    ...(bounded ? {} : { minScore, targetSize }),
+    policy: { halfLifeDays, weights },
+    contextSize,
+    ...given
+  };
+}
+
+// What workspaces opened under a configuration share
+export function workspaceConfig(
+  config: DevMemoryConfig
+): WorkspaceConfig & { backend: StoreBackend; redactor: Redactor } {
+  return {
+    backend: config.storage.backend,
+    searchMode: config.search.mode,
+    minScore: config.search.minScore,
+    maxContextSize: config.contexts.maxSize,
+    redactor: createRedactor(config.redaction)
+  };
+}
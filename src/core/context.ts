@@ -1,78 +1,291 @@
-import { BaseContext, BaseMemory, DevContext } from './types.js';
-import { Store } from './store.js';
+import { BaseContext, BaseMemory, DevContext, DevMemory, SessionContext } from './types.js';
+import { IntegrityReport, Store, VerifyOptions } from './store.js';
+import { readDependencies, readGitInfo } from './git.js';
+import { FileLock, isTempFile, quarantineFile, writeFileAtomic } from './files.js';
+import { Cipher, DecryptionError } from './crypto.js';
+import { createHash } from 'crypto';
 import path from 'path';
 import fs from 'fs';
+import { log } from './log.js';
 
 export interface ContextManagerConfig {
   maxContextSize?: number;
-  priorityThreshold?: number;
+  // Directory holding context/; defaults to <cwd>/.dev-memory
+  baseDir?: string;
+  // Repository the contexts describe; defaults to the cwd
+  projectRoot?: string;
+  // Where contexts are persisted; defaults to JSON files under <baseDir>/context
+  storage?: ContextStorage;
 }
 
-export class ContextManager<T extends BaseContext, M extends BaseMemory> {
+// Raised when a context was saved by someone else since it was loaded
+export class ContextConflictError extends Error {
+  constructor(readonly contextId: string, readonly expected: number, readonly actual: number | null) {
+    super(`Context ${contextId} changed since it was loaded (version ${expected}, now ${actual ?? 'deleted'})`);
+    this.name = 'ContextConflictError';
+  }
+}
+
+// The version a save of context must find in storage. Contexts saved before
+// versioning count as version 0.
+export function checkVersion(context: BaseContext, stored: BaseContext | null): number {
+  const expected = context.metadata.version ?? 0;
+  const actual = stored ? stored.metadata.version ?? 0 : null;
+  if (actual === null ? expected !== 0 : actual !== expected) {
+    throw new ContextConflictError(context.id, expected, actual);
+  }
+  return expected;
+}
+
+// Persistence for contexts, so they can live next to the memories they point at
+export interface ContextStorage {
+  load(id: string): Promise<BaseContext | null>;
+  // Optimistic: rejects with ContextConflictError if the stored version isn't
+  // the one the context was loaded at, else bumps context.metadata.version
+  save(context: BaseContext): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<string[]>;
+  verify(options?: VerifyOptions): Promise<IntegrityReport>;
+}
+
+const CONTEXT_DIR = 'context';
+const LOCK_FILE = 'contexts.lock';
+
+// Context ids name files, so they must stay a single path segment
+const SAFE_CONTEXT_ID = /^[A-Za-z0-9._-]+$/;
+
+export function isValidContextId(id: unknown): id is string {
+  return typeof id === 'string' && SAFE_CONTEXT_ID.test(id) && !id.includes('..');
+}
+
+export function checkContextId(id: unknown): string {
+  if (!isValidContextId(id)) {
+    throw new Error(`Invalid context id: ${id}`);
+  }
+  return id;
+}
+
+// One JSON file per context under <baseDir>/context. Saves hold
+// context/contexts.lock so the version check and write happen together.
+export class FileContextStorage implements ContextStorage {
   private baseDir: string;
+  private contextDir: string;
+  private lock: FileLock;
   private initialized: boolean = false;
+  private cipher: Cipher;
 
-  constructor(
-    private store: Store<M>,
-    private config: ContextManagerConfig = {}
-  ) {
-    this.baseDir = path.join(process.cwd(), '.dev-memory');
+  // cipher encrypts the files; defaults to plaintext
+  constructor(baseDir: string, cipher: Cipher = new Cipher(null)) {
+    this.baseDir = baseDir;
+    this.cipher = cipher;
+    this.contextDir = path.join(baseDir, CONTEXT_DIR);
+    this.lock = new FileLock(path.join(this.contextDir, LOCK_FILE));
   }
 
   private async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    const contextDir = path.join(this.baseDir, 'context');
-    if (!fs.existsSync(contextDir)) {
-      fs.mkdirSync(contextDir, { recursive: true });
+    if (!fs.existsSync(this.contextDir)) {
+      fs.mkdirSync(this.contextDir, { recursive: true });
     }
 
     this.initialized = true;
   }
 
-  async loadContext(id: string): Promise<T | null> {
+  private contextPath(id: string): string {
+    return path.join(this.contextDir, `${checkContextId(id)}.json`);
+  }
+
+  async load(id: string): Promise<BaseContext | null> {
     await this.initialize();
 
-    const contextPath = path.join(this.baseDir, 'context', `${id}.json`);
-    
+    const contextPath = this.contextPath(id);
+
     if (!fs.existsSync(contextPath)) {
       return null;
     }
 
     const content = await fs.promises.readFile(contextPath, 'utf-8');
-    return JSON.parse(content);
+    return JSON.parse(this.cipher.decrypt(content));
   }
 
-  async saveContext(context: T): Promise<void> {
+  async save(context: BaseContext): Promise<void> {
     await this.initialize();
+    const contextPath = this.contextPath(context.id);
 
-    const contextPath = path.join(this.baseDir, 'context', `${context.id}.json`);
-    await fs.promises.writeFile(
-      contextPath,
-      JSON.stringify(context, null, 2),
-      'utf-8'
-    );
+    await this.lock.run(async () => {
+      const version = checkVersion(context, await this.load(context.id)) + 1;
+      const saved = { ...context, metadata: { ...context.metadata, version } };
+      await writeFileAtomic(contextPath, this.cipher.encrypt(JSON.stringify(saved, null, 2)));
+      context.metadata.version = version;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    const contextPath = this.contextPath(id);
+
+    await this.lock.run(async () => {
+      if (fs.existsSync(contextPath)) {
+        await fs.promises.unlink(contextPath);
+      }
+    });
+  }
+
+  async list(): Promise<string[]> {
+    await this.initialize();
+
+    const files = await fs.promises.readdir(this.contextDir);
+    return files
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.replace('.json', ''));
+  }
+
+  async verify(options: VerifyOptions = {}): Promise<IntegrityReport> {
+    await this.initialize();
+
+    return this.lock.run(async () => {
+      const report: IntegrityReport = { checked: 0, issues: [], repaired: false };
+      const damaged: string[] = [];
+
+      for (const name of await fs.promises.readdir(this.contextDir)) {
+        const file = path.join(CONTEXT_DIR, name);
+        if (isTempFile(name)) {
+          report.issues.push({ file, problem: 'leftover from an interrupted write' });
+          damaged.push(file);
+          continue;
+        }
+        if (!name.endsWith('.json')) continue;
+
+        report.checked++;
+        try {
+          const content = await fs.promises.readFile(path.join(this.baseDir, file), 'utf-8');
+          const context = JSON.parse(this.cipher.decrypt(content));
+          if (typeof context?.id !== 'string' || !Array.isArray(context.activeMemories) ||
+            typeof context.metadata !== 'object') {
+            throw new Error('not a context');
+          }
+        } catch (error) {
+          if (error instanceof DecryptionError) throw error;
+          report.issues.push({ file, problem: `corrupt context file: ${(error as Error).message}` });
+          damaged.push(file);
+        }
+      }
+
+      if (options.repair && damaged.length > 0) {
+        for (const file of damaged) {
+          if (isTempFile(file)) {
+            await fs.promises.rm(path.join(this.baseDir, file), { force: true });
+          } else {
+            const target = await quarantineFile(this.baseDir, file);
+            log.warn(`Quarantined ${file} as ${target}`);
+          }
+        }
+        report.repaired = true;
+      }
+
+      return report;
+    });
+  }
+
+  // Rewrites every context with the current cipher, after the key changed.
+  // Versions are left alone: the contexts themselves don't change.
+  async reencrypt(): Promise<number> {
+    await this.initialize();
+
+    return this.lock.run(async () => {
+      const names = (await fs.promises.readdir(this.contextDir)).filter(name => name.endsWith('.json'));
+      for (const name of names) {
+        const contextPath = path.join(this.contextDir, name);
+        const content = this.cipher.decrypt(await fs.promises.readFile(contextPath, 'utf-8'));
+        await writeFileAtomic(contextPath, this.cipher.encrypt(content));
+      }
+      return names.length;
+    });
+  }
+}
+
+const MAX_SAVE_ATTEMPTS = 5;
+
+export class ContextManager<T extends BaseContext, M extends BaseMemory> {
+  protected baseDir: string;
+  private storage: ContextStorage;
+
+  constructor(
+    private store: Store<M>,
+    protected config: ContextManagerConfig = {}
+  ) {
+    this.baseDir = config.baseDir ?? path.join(process.cwd(), '.dev-memory');
+    this.storage = config.storage ?? new FileContextStorage(this.baseDir);
+  }
+
+  async loadContext(id: string): Promise<T | null> {
+    return await this.storage.load(checkContextId(id)) as T | null;
+  }
+
+  // Rejects with ContextConflictError if the context was saved elsewhere
+  // since it was loaded; modifyContext retries instead
+  async saveContext(context: T): Promise<void> {
+    checkContextId(context.id);
+    await this.storage.save(context);
+  }
+
+  // Loads a context, applies change and saves it, starting again from a fresh
+  // copy if another writer got in first. change returns false to skip the
+  // save. Resolves to null if there is no such context.
+  async modifyContext(id: string, change: (context: T) => boolean | void): Promise<T | null> {
+    for (let attempt = 1; ; attempt++) {
+      const context = await this.loadContext(id);
+      if (!context) return null;
+      if (change(context) === false) return context;
+
+      try {
+        await this.saveContext(context);
+        return context;
+      } catch (error) {
+        if (!(error instanceof ContextConflictError) || attempt >= MAX_SAVE_ATTEMPTS) throw error;
+      }
+    }
   }
 
   async updateContext(context: T, memory: M): Promise<T> {
     // Store the memory first
     await this.store.store(memory);
 
-    // Update context with new memory
+    // Add it to the latest saved copy of the context
+    const updated = await this.modifyContext(context.id, current => this.addMemories(current, [memory.id]));
+    if (updated) return updated;
+
+    // Not saved yet
+    this.addMemories(context, [memory.id]);
+    await this.saveContext(context);
+    return context;
+  }
+
+  // Most memories a context keeps; addMemories drops the oldest beyond it
+  protected get memoryLimit(): number {
+    return this.config.maxContextSize || 100;
+  }
+
+  // Puts memory ids at the front of a context, keeping it within memoryLimit
+  protected addMemories(context: BaseContext, memoryIds: string[]): void {
+    const added = [...memoryIds].reverse();
     context.activeMemories = [
-      memory.id,
-      ...context.activeMemories.slice(0, (this.config.maxContextSize || 100) - 1)
-    ];
+      ...added,
+      ...context.activeMemories.filter(id => !added.includes(id))
+    ].slice(0, this.memoryLimit);
 
     context.metadata.lastUpdate = new Date().toISOString();
+  }
 
-    // Save updated context
+  async createContext(id: string, type: string): Promise<T> {
+    const context = this.newContext(id, type);
     await this.saveContext(context);
-
     return context;
   }
 
-  async createContext(id: string, type: string): Promise<T> {
+  // An empty context that hasn't been saved yet
+  protected newContext(id: string, type: string): T {
     const baseContext: BaseContext = {
       id,
       activeMemories: [],
@@ -84,62 +297,237 @@ export class ContextManager<T extends BaseContext, M extends BaseMemory> {
     };
 
     // Cast to T since we're creating a base context
-    const context = baseContext as T;
-
-    await this.saveContext(context);
-    return context;
+    return baseContext as T;
   }
 
   async deleteContext(id: string): Promise<void> {
-    await this.initialize();
+    await this.storage.delete(checkContextId(id));
+  }
+
+  // Deletes a memory from the store and detaches it from every context
+  async deleteMemory(memoryId: string): Promise<void> {
+    await this.store.delete(memoryId);
+    await this.detachMemories([memoryId]);
+  }
+
+  // Removes memory ids from every context without touching the store
+  async detachMemories(memoryIds: string[]): Promise<void> {
+    for (const contextId of await this.listContexts()) {
+      await this.modifyContext(contextId, context => {
+        if (!context.activeMemories.some(id => memoryIds.includes(id))) return false;
 
-    const contextPath = path.join(this.baseDir, 'context', `${id}.json`);
-    if (fs.existsSync(contextPath)) {
-      await fs.promises.unlink(contextPath);
+        context.activeMemories = context.activeMemories.filter(id => !memoryIds.includes(id));
+        context.metadata.lastUpdate = new Date().toISOString();
+      });
     }
   }
 
-  async listContexts(): Promise<string[]> {
-    await this.initialize();
+  // Points contexts at a memory that supersedes others (e.g. after a merge).
+  // The replacement takes the place of the first superseded id in each context.
+  async replaceMemories(oldIds: string[], newId: string): Promise<void> {
+    for (const contextId of await this.listContexts()) {
+      await this.modifyContext(contextId, context => {
+        if (!context.activeMemories.some(id => oldIds.includes(id))) return false;
 
-    const files = await fs.promises.readdir(path.join(this.baseDir, 'context'));
-    return files
-      .filter(f => f.endsWith('.json'))
-      .map(f => f.replace('.json', ''));
+        const activeMemories: string[] = [];
+        for (const id of context.activeMemories) {
+          const replacement = oldIds.includes(id) ? newId : id;
+          if (!activeMemories.includes(replacement)) {
+            activeMemories.push(replacement);
+          }
+        }
+
+        context.activeMemories = activeMemories;
+        context.metadata.lastUpdate = new Date().toISOString();
+      });
+    }
+  }
+
+  async listContexts(): Promise<string[]> {
+    return this.storage.list();
   }
 }
 
+// A memory carrying the code context it was stored in
+export type StampedMemory = BaseMemory & Pick<DevMemory, 'relationships'>;
+
 // Project-specific context manager
 export class DevContextManager extends ContextManager<DevContext, BaseMemory> {
-  async updateCodeContext(files: string[]): Promise<void> {
-    let context = await this.loadContext('development');
-    if (!context) {
-      context = await this.createContext('development', 'development');
-      (context as DevContext).projectInfo = {
-        name: path.basename(process.cwd()),
-        path: process.cwd(),
-        branch: 'main' // TODO: Get actual git branch
-      };
-      (context as DevContext).codeContext = {
-        files: [],
-        dependencies: []
-      };
-      await this.saveContext(context);
-    }
+  // Refreshes the development context from the local repository and
+  // package.json. Extra files are listed ahead of the ones git reports.
+  async updateCodeContext(files: string[] = []): Promise<DevContext> {
+    const cwd = this.config.projectRoot ?? process.cwd();
+    const [git, dependencies] = await Promise.all([
+      readGitInfo(cwd, ['.dev-memory/']),
+      readDependencies(cwd)
+    ]);
 
-    // Update code context
-    (context as DevContext).codeContext.files = files;
+    const refresh = (context: DevContext) => {
+      if (git) {
+        context.projectInfo.branch = git.branch;
+        context.projectInfo.commit = git.commit;
+      }
+      context.codeContext.dirtyFiles = git?.dirtyFiles ?? [];
+      context.codeContext.files = [
+        ...new Set([...files, ...(git?.dirtyFiles ?? []), ...(git?.recentFiles ?? [])])
+      ];
+      context.codeContext.dependencies = dependencies;
+      context.metadata.lastUpdate = new Date().toISOString();
+    };
 
-    const memory: BaseMemory = {
-      id: Date.now().toString(),
-      content: `Updated code context with files: ${files.join(', ')}`,
-      metadata: {
-        timestamp: new Date().toISOString(),
-        type: 'development',
-        importance: 3
+    const existing = await this.modifyContext('development', refresh);
+    if (existing) return existing;
+
+    const context = this.newContext('development', 'development');
+    context.projectInfo = {
+      name: path.basename(cwd),
+      path: cwd,
+      branch: 'unknown'
+    };
+    context.codeContext = {
+      files: [],
+      dirtyFiles: [],
+      dependencies: []
+    };
+    refresh(context);
+
+    await this.saveContext(context);
+    return context;
+  }
+
+  // Stamps a development memory with the current branch and commit, stores it
+  // and adds it to the development context. A branch or commit already in the
+  // memory's metadata (e.g. from a commit hook) wins over the working tree's.
+  // files are the ones the memory is about, defaulting to uncommitted changes.
+  async storeDevMemory(memory: BaseMemory, files: string[] = []): Promise<StampedMemory> {
+    const context = await this.updateCodeContext(files);
+    const metadata = memory.metadata as BaseMemory['metadata'] & { branch?: string; commit?: string };
+    const branch = metadata.branch ?? context.projectInfo.branch;
+    const commit = metadata.commit ?? context.projectInfo.commit;
+    const existing = (memory as Partial<DevMemory>).relationships;
+
+    const stamped = { ...metadata, branch, ...(commit ? { commit } : {}) };
+    const devMemory: StampedMemory = {
+      ...memory,
+      metadata: stamped,
+      relationships: {
+        relatedMemories: [],
+        ...existing,
+        codeContext: {
+          files: files.length > 0 ? files : context.codeContext.dirtyFiles,
+          commits: commit ? [commit] : [],
+          branch
+        }
       }
     };
 
-    await this.updateContext(context, memory);
+    await this.updateContext(context, devMemory);
+    return devMemory;
+  }
+}
+
+const SESSION_TYPE = 'session';
+const SESSION_STATE_FILE = 'session.json';
+
+// Context id for a session name. Names are free-form and ids must be file
+// names, so a readable slug is followed by a hash of the exact name: "Auth",
+// "auth" and "!!" each get an id of their own.
+export function sessionId(name: string): string {
+  const trimmed = name.trim();
+  const slug = trimmed.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  const hash = createHash('sha256').update(trimmed).digest('hex').slice(0, 8);
+  return slug ? `session-${slug}-${hash}` : `session-${hash}`;
+}
+
+// Ids sessions were saved under before they carried a hash
+function legacySessionId(name: string): string {
+  return `session-${name.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '')}`;
+}
+
+// Named sessions. The active one is remembered across restarts in
+// <baseDir>/session.json and collects every memory stored while it's active.
+export class SessionManager extends ContextManager<SessionContext, BaseMemory> {
+  // A session lists every memory stored while it was active, however many
+  protected get memoryLimit(): number {
+    return Infinity;
+  }
+
+  async getSession(name: string): Promise<SessionContext | null> {
+    const context = await this.loadContext(sessionId(name));
+    if (context?.metadata.type === SESSION_TYPE) return context;
+
+    const legacyId = legacySessionId(name);
+    if (!isValidContextId(legacyId)) return null;
+    const legacy = await this.loadContext(legacyId);
+    return legacy?.metadata.type === SESSION_TYPE && legacy.metadata.name === name.trim() ? legacy : null;
+  }
+
+  async startSession(name: string, description?: string): Promise<SessionContext> {
+    const context = this.newContext(sessionId(name), SESSION_TYPE);
+    context.metadata.name = name.trim();
+    if (description) {
+      context.metadata.description = description;
+    }
+    await this.saveContext(context);
+    await this.setActiveSession(context.id);
+    return context;
+  }
+
+  async closeSession(session: SessionContext): Promise<SessionContext> {
+    const closedAt = new Date().toISOString();
+    const close = (context: SessionContext) => {
+      context.metadata.closedAt = closedAt;
+      context.metadata.lastUpdate = closedAt;
+    };
+    close(session);
+    const closed = await this.modifyContext(session.id, close) ?? session;
+
+    if ((await this.getActiveSession())?.id === session.id) {
+      await this.setActiveSession(null);
+    }
+    return closed;
+  }
+
+  async listSessions(): Promise<SessionContext[]> {
+    const sessions: SessionContext[] = [];
+    for (const id of await this.listContexts()) {
+      const context = await this.loadContext(id);
+      if (context?.metadata.type === SESSION_TYPE) {
+        sessions.push(context);
+      }
+    }
+    return sessions;
+  }
+
+  async getActiveSession(): Promise<SessionContext | null> {
+    const statePath = path.join(this.baseDir, SESSION_STATE_FILE);
+    if (!fs.existsSync(statePath)) return null;
+
+    let active: unknown;
+    try {
+      ({ active } = JSON.parse(await fs.promises.readFile(statePath, 'utf-8')));
+    } catch (error) {
+      // A damaged state file shouldn't stop memories being stored
+      log.warn(`Ignoring unreadable ${statePath}, no session is active:`, error);
+      return null;
+    }
+    if (typeof active !== 'string' || !active) return null;
+
+    const context = await this.loadContext(active);
+    return context?.metadata.type === SESSION_TYPE && !context.metadata.closedAt ? context : null;
+  }
+
+  async setActiveSession(id: string | null): Promise<void> {
+    await fs.promises.mkdir(this.baseDir, { recursive: true });
+    await writeFileAtomic(path.join(this.baseDir, SESSION_STATE_FILE), JSON.stringify({ active: id }, null, 2));
+  }
+
+  // Adds memories to the active session, if there is one; resolves to its id
+  async attachToActiveSession(memoryIds: string[]): Promise<string | null> {
+    const session = await this.getActiveSession();
+    if (!session || memoryIds.length === 0) return session?.id ?? null;
+
+    await this.modifyContext(session.id, context => this.addMemories(context, memoryIds));
+    return session.id;
   }
 }
@@ -0,0 +1,186 @@
+import fs from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, createHash, createHmac, hkdfSync, randomBytes } from 'crypto';
+
+// Optional encryption at rest. Data files, SQLite columns and embeddings are
+// sealed with AES-256-GCM under a key taken from (first match wins):
+//
+//   DEV_MEMORY_KEY        the key itself, base64 or hex
+//   DEV_MEMORY_KEY_FILE   a file holding it
+//   <home>/memory.key     the default key file
+//
+// Sealed text looks like `dmenc:1:<key id>:<base64 iv|tag|ciphertext>`, so
+// plaintext written before a key was set still reads, and a wrong or missing
+// key fails loudly instead of looking like a corrupt file.
+export const KEY_FILE = 'memory.key';
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const TEXT_PREFIX = 'dmenc:1:';
+// Sealed blobs: magic, 8-byte key id, iv, tag, ciphertext
+const BYTES_MAGIC = Buffer.from('DME1');
+const KEY_ID_BYTES = 8;
+
+// Data was sealed with a key we don't have, or fails authentication. Never
+// treated as corruption: repairing would throw away data the right key reads.
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+interface DerivedKey {
+  id: string;
+  encryption: Buffer;
+  // Keys the HMAC used to blind search terms
+  blinding: Buffer;
+}
+
+// Where the current key came from, for messages and rotate-key
+export interface KeySource {
+  key: Buffer;
+  // 'env': DEV_MEMORY_KEY, else the key file it was read from
+  origin: 'env' | 'file';
+  file?: string;
+}
+
+export class Cipher {
+  private primary: DerivedKey | null;
+  private keys = new Map<string, DerivedKey>();
+
+  // key: what new data is sealed with, null to write plaintext. previous:
+  // further keys that can still be read, e.g. while rotating.
+  constructor(key: Buffer | null, previous: Buffer[] = []) {
+    this.primary = key ? deriveKey(key) : null;
+    for (const derived of [this.primary, ...previous.map(deriveKey)]) {
+      if (derived) this.keys.set(derived.id, derived);
+    }
+  }
+
+  // Id of the key new data is sealed with, 'none' for plaintext
+  get keyId(): string {
+    return this.primary?.id ?? 'none';
+  }
+
+  get enabled(): boolean {
+    return this.primary !== null;
+  }
+
+  canRead(keyId: string): boolean {
+    return keyId === 'none' || this.keys.has(keyId);
+  }
+
+  encrypt(text: string): string {
+    if (!this.primary) return text;
+    return `${TEXT_PREFIX}${this.primary.id}:${this.seal(this.primary, Buffer.from(text, 'utf-8')).toString('base64')}`;
+  }
+
+  // Plaintext passes through unchanged
+  decrypt(text: string): string {
+    if (!text.startsWith(TEXT_PREFIX)) return text;
+
+    const separator = text.indexOf(':', TEXT_PREFIX.length);
+    const keyId = text.slice(TEXT_PREFIX.length, separator);
+    const sealed = Buffer.from(text.slice(separator + 1), 'base64');
+    return this.open(keyId, sealed).toString('utf-8');
+  }
+
+  encryptBytes(data: Buffer): Buffer {
+    if (!this.primary) return data;
+    return Buffer.concat([BYTES_MAGIC, Buffer.from(this.primary.id, 'hex'), this.seal(this.primary, data)]);
+  }
+
+  decryptBytes(data: Buffer): Buffer {
+    if (data.length < BYTES_MAGIC.length || !data.subarray(0, BYTES_MAGIC.length).equals(BYTES_MAGIC)) {
+      return data;
+    }
+    const keyStart = BYTES_MAGIC.length;
+    const keyId = data.subarray(keyStart, keyStart + KEY_ID_BYTES).toString('hex');
+    return this.open(keyId, data.subarray(keyStart + KEY_ID_BYTES));
+  }
+
+  // Deterministic stand-in for a search term or topic, so equality lookups
+  // still work on values stored encrypted. Unchanged without a key.
+  blind(term: string): string {
+    if (!this.primary) return term;
+    return createHmac('sha256', this.primary.blinding).update(term).digest('hex').slice(0, 32);
+  }
+
+  private seal(key: DerivedKey, plaintext: Buffer): Buffer {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key.encryption, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private open(keyId: string, sealed: Buffer): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new DecryptionError(this.primary
+        ? `Data is encrypted with key ${keyId}, but the configured key is ${this.primary.id}`
+        : `Data is encrypted with key ${keyId}; set DEV_MEMORY_KEY or DEV_MEMORY_KEY_FILE`);
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key.encryption, sealed.subarray(0, IV_BYTES));
+      decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+      return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    } catch {
+      throw new DecryptionError(`Data encrypted with key ${keyId} failed authentication`);
+    }
+  }
+}
+
+function deriveKey(key: Buffer): DerivedKey {
+  const derive = (info: string) => Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), info, KEY_BYTES));
+  return {
+    id: createHash('sha256').update(key).digest('hex').slice(0, KEY_ID_BYTES * 2),
+    encryption: derive('dev-memory encryption'),
+    blinding: derive('dev-memory blinding')
+  };
+}
+
+// Accepts 32 bytes as 64 hex digits or base64
+export function parseKey(text: string, origin: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${origin} must hold a ${KEY_BYTES}-byte key, base64 or hex encoded`);
+  }
+  return key;
+}
+
+export function generateKey(): Buffer {
+  return randomBytes(KEY_BYTES);
+}
+
+// Creates a key file readable only by its owner; fails if it already exists
+export async function writeKeyFile(file: string, key: Buffer): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, `${key.toString('base64')}\n`, { mode: 0o600, flag: 'wx' });
+}
+
+export function readKeyFile(file: string): Buffer {
+  return parseKey(fs.readFileSync(file, 'utf-8'), file);
+}
+
+// The configured key, or null if encryption is off
+export function findKey(homeDir: string): KeySource | null {
+  if (process.env.DEV_MEMORY_KEY) {
+    return { key: parseKey(process.env.DEV_MEMORY_KEY, 'DEV_MEMORY_KEY'), origin: 'env' };
+  }
+
+  const file = process.env.DEV_MEMORY_KEY_FILE || path.join(homeDir, KEY_FILE);
+  if (!process.env.DEV_MEMORY_KEY_FILE && !fs.existsSync(file)) {
+    return null;
+  }
+  return { key: readKeyFile(file), origin: 'file', file };
+}
+
+export function loadCipher(homeDir: string): Cipher {
+  return new Cipher(findKey(homeDir)?.key ?? null);
+}
@@ -0,0 +1,74 @@
+// Turns text into fixed-size vectors for semantic search
+export interface Embedder {
+  // Stored with the vector index; vectors are recomputed when it changes
+  readonly id: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+}
+
+// Offline embedder using feature hashing over words and character n-grams.
+// The n-grams let related word forms (auth, authentication) land close to
+// each other without needing a model or a vocabulary.
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(
+    readonly dimensions: number = 256,
+    private ngramSize: number = 3
+  ) {
+    this.id = `hashing-v1-${dimensions}-${ngramSize}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `<${word}>`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        this.addFeature(vector, `g:${padded.slice(i, i + this.ngramSize)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so collisions tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
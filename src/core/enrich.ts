@@ -0,0 +1,180 @@
+import { BaseMemory } from './types.js';
+import { isStopWord } from './tokenize.js';
+import { log } from './log.js';
+
+// What enrichers have worked out about a memory so far. Each step sees the
+// previous steps' results and may add to them.
+export interface Enrichment {
+  topics: string[];
+  category?: string;
+  importance?: number;
+}
+
+// One step of the pipeline, e.g. topic extraction or categorization
+export interface Enricher {
+  name: string;
+  enrich(memory: BaseMemory, enrichment: Enrichment): void | Promise<void>;
+}
+
+export interface CategoryRule {
+  category: string;
+  // Matched against the memory content, case-insensitively for strings
+  pattern: RegExp | string;
+  // Only apply to memories of these types
+  types?: BaseMemory['metadata']['type'][];
+}
+
+// First matching rule wins
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  { category: 'security', pattern: /\b(security|vulnerab\w*|cve-\d+|xss|csrf|injection|secret|credential)s?\b/i },
+  { category: 'bugfix', pattern: /\b(fix(e[sd])?|bugs?|crash(es|ed)?|regression|error|exception|broken)\b/i },
+  { category: 'decision', pattern: /\b(decided|decision|we will|agreed|chose|trade-?offs?|adr)\b/i },
+  { category: 'refactor', pattern: /\b(refactor\w*|clean ?up|rename[sd]?|restructur\w*)\b/i },
+  { category: 'test', pattern: /\b(tests?|testing|specs?|coverage|flaky)\b/i },
+  { category: 'docs', pattern: /\b(docs?|documentation|readme|changelog)\b/i },
+  { category: 'build', pattern: /\b(build|ci|pipeline|deploy\w*|release|dependenc(y|ies)|upgrade[sd]?)\b/i },
+  { category: 'feature', pattern: /\b(add(s|ed)?|implement\w*|feature|support(s|ed)?|introduc\w*)\b/i }
+];
+
+const MAX_TOPICS = 10;
+const MAX_KEYWORDS = 4;
+const MAX_IMPORTANCE = 5;
+
+// Common words that make poor topics even though they aren't search stop-words
+const FILLER_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'because', 'been', 'before', 'being',
+  'both', 'could', 'each', 'even', 'every', 'first', 'here', 'more', 'most',
+  'much', 'must', 'need', 'needs', 'only', 'other', 'same', 'should', 'some',
+  'still', 'such', 'that', 'there', 'those', 'through', 'under', 'until',
+  'used', 'uses', 'using', 'very', 'want', 'well', 'while', 'without'
+]);
+
+const TICKET_ID = /\b[A-Z][A-Z0-9]{1,9}-\d+\b/g;
+const FILE_PATH = /(?:[\w.-]+\/)+[\w.-]+\.[A-Za-z]\w{0,5}\b|\b[\w-]+\.(?:ts|tsx|js|jsx|mjs|cjs|json|py|go|rs|java|kt|rb|php|cs|c|cc|cpp|h|hpp|md|ya?ml|toml|sql|sh|css|scss|html)\b/g;
+// camelCase, PascalCase with at least two humps, snake_case
+const IDENTIFIER = /\b(?:[a-z]+(?:[A-Z][a-z0-9]*)+|[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+|[a-z][a-z0-9]*(?:_[a-z0-9]+)+)\b/g;
+const EMPHASIS = /\b(critical|important|urgent|breaking|must|never|always|security|outage|incident)\b/i;
+
+// Ticket ids, file paths, code identifiers and the most frequent keywords
+export const topicExtractor: Enricher = {
+  name: 'topics',
+  enrich(memory, enrichment) {
+    const content = memory.content;
+    const found = [
+      ...(content.match(TICKET_ID) ?? []),
+      ...(content.match(FILE_PATH) ?? []),
+      ...(content.match(IDENTIFIER) ?? []),
+      ...keywords(content.replace(FILE_PATH, ' ').replace(IDENTIFIER, ' '))
+    ];
+    enrichment.topics = mergeTopics(enrichment.topics, found);
+  }
+};
+
+export function categorizer(rules: CategoryRule[] = DEFAULT_CATEGORY_RULES): Enricher {
+  return {
+    name: 'category',
+    enrich(memory, enrichment) {
+      if (enrichment.category) return;
+
+      const rule = rules.find(candidate => {
+        if (candidate.types && !candidate.types.includes(memory.metadata.type)) return false;
+        return typeof candidate.pattern === 'string'
+          ? memory.content.toLowerCase().includes(candidate.pattern.toLowerCase())
+          : candidate.pattern.test(memory.content);
+      });
+      if (rule) {
+        enrichment.category = rule.category;
+      }
+    }
+  };
+}
+
+// Scores 1-5 from the category, emphasis words, tickets and length; only used
+// when the caller didn't give an importance
+export const importanceEstimator: Enricher = {
+  name: 'importance',
+  enrich(memory, enrichment) {
+    if (enrichment.importance !== undefined) return;
+
+    let importance = 1;
+    if (['decision', 'security', 'bugfix'].includes(enrichment.category ?? '')) importance += 1;
+    if (EMPHASIS.test(memory.content)) importance += 1;
+    if (new RegExp(TICKET_ID.source).test(memory.content)) importance += 1;
+    if (memory.content.length > 1000) importance += 1;
+
+    enrichment.importance = Math.min(importance, MAX_IMPORTANCE);
+  }
+};
+
+// Runs enrichers in order and folds the results into a memory's metadata.
+// Values the caller supplied are kept: extracted topics are appended to
+// theirs, and category and importance are only filled in when missing.
+export class EnrichmentPipeline {
+  private enrichers: Enricher[];
+
+  constructor(enrichers: Enricher[] = []) {
+    this.enrichers = [...enrichers];
+  }
+
+  use(enricher: Enricher): this {
+    this.enrichers.push(enricher);
+    return this;
+  }
+
+  get names(): string[] {
+    return this.enrichers.map(enricher => enricher.name);
+  }
+
+  async enrich<T extends BaseMemory>(memory: T): Promise<T> {
+    const { topics = [], category, importance } = memory.metadata;
+    const enrichment: Enrichment = { topics: [...topics], category, importance };
+
+    for (const enricher of this.enrichers) {
+      try {
+        await enricher.enrich(memory, enrichment);
+      } catch (error) {
+        // A broken enricher shouldn't stop the memory being stored
+        log.warn(`Enricher ${enricher.name} failed:`, error);
+      }
+    }
+
+    const metadata = { ...memory.metadata };
+    if (enrichment.topics.length > 0) metadata.topics = enrichment.topics;
+    if (enrichment.category !== undefined) metadata.category = enrichment.category;
+    if (enrichment.importance !== undefined) metadata.importance = enrichment.importance;
+
+    return { ...memory, metadata };
+  }
+}
+
+export function createDefaultPipeline(rules: CategoryRule[] = DEFAULT_CATEGORY_RULES): EnrichmentPipeline {
+  return new EnrichmentPipeline([topicExtractor, categorizer(rules), importanceEstimator]);
+}
+
+// Appends new topics, skipping case-insensitive duplicates, up to MAX_TOPICS
+function mergeTopics(existing: string[], found: string[]): string[] {
+  const seen = new Set(existing.map(topic => topic.toLowerCase()));
+  const topics = [...existing];
+  for (const topic of found) {
+    if (topics.length >= MAX_TOPICS) break;
+    if (seen.has(topic.toLowerCase())) continue;
+    seen.add(topic.toLowerCase());
+    topics.push(topic);
+  }
+  return topics;
+}
+
+// Words of four or more letters that occur at least twice, most frequent first
+function keywords(text: string): string[] {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}{4,}/gu) ?? []) {
+    if (isStopWord(word) || FILLER_WORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, MAX_KEYWORDS)
+    .map(([word]) => word);
+}
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { log } from './log.js';
+
+const TEMP_SUFFIX = '.tmp';
+const QUARANTINE_DIR = 'quarantine';
+
+// Leftovers of writeFileAtomic calls that never reached their rename
+export function isTempFile(name: string): boolean {
+  return name.endsWith(TEMP_SUFFIX);
+}
+
+// Writes to a temporary file next to the target and renames it into place, so
+// readers see either the old content or the new, never a truncated file
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}${TEMP_SUFFIX}`;
+  try {
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Moves a damaged file under <baseDir>/quarantine, keeping its relative path.
+// Resolves to where it went, relative to baseDir.
+export async function quarantineFile(baseDir: string, relative: string): Promise<string> {
+  let target = path.join(QUARANTINE_DIR, relative);
+  if (fs.existsSync(path.join(baseDir, target))) {
+    target = `${target}.${Date.now()}`;
+  }
+  await fs.promises.mkdir(path.dirname(path.join(baseDir, target)), { recursive: true });
+  await fs.promises.rename(path.join(baseDir, relative), path.join(baseDir, target));
+  return target;
+}
+
+export interface FileLockOptions {
+  // Give up waiting after this long; defaults to 10s
+  timeoutMs?: number;
+  // A lock whose owner can't be checked (another host, unreadable file) is
+  // broken once it is this old; defaults to 60s
+  staleMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  acquiredAt: string;
+}
+
+const RETRY_MS = 25;
+
+// Advisory lock held as a file created with O_EXCL. Callers in this process
+// queue in memory; other processes wait for the file to go away. A lock left
+// behind by a process that died is broken.
+export class FileLock {
+  private queue: Promise<void> = Promise.resolve();
+  private timeoutMs: number;
+  private staleMs: number;
+
+  constructor(private lockPath: string, options: FileLockOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.staleMs = options.staleMs ?? 60_000;
+  }
+
+  // Runs fn while holding the lock. Not reentrant: fn must not call run() on
+  // the same lock.
+  async run<R>(fn: () => Promise<R>): Promise<R> {
+    const previous = this.queue;
+    let done!: () => void;
+    this.queue = new Promise(resolve => {
+      done = resolve;
+    });
+
+    try {
+      await previous;
+      await this.acquire();
+      try {
+        return await fn();
+      } finally {
+        await fs.promises.rm(this.lockPath, { force: true });
+      }
+    } finally {
+      done();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    const owner: LockOwner = { pid: process.pid, host: os.hostname(), acquiredAt: new Date().toISOString() };
+    const deadline = Date.now() + this.timeoutMs;
+    await fs.promises.mkdir(path.dirname(this.lockPath), { recursive: true });
+
+    for (;;) {
+      try {
+        await fs.promises.writeFile(this.lockPath, JSON.stringify(owner), { flag: 'wx' });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const stale = await this.staleOwner();
+      if (stale !== null) {
+        // Someone else may have broken it and taken it since we looked
+        const current = await fs.promises.readFile(this.lockPath, 'utf-8').catch(() => null);
+        if (current === stale) {
+          log.warn(`Breaking stale lock ${this.lockPath}`);
+          await fs.promises.rm(this.lockPath, { force: true });
+        }
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock ${this.lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_MS));
+    }
+  }
+
+  // The lock file's content if its owner is gone, else null
+  private async staleOwner(): Promise<string | null> {
+    let stat: fs.Stats;
+    let content: string;
+    try {
+      stat = await fs.promises.stat(this.lockPath);
+      content = await fs.promises.readFile(this.lockPath, 'utf-8');
+    } catch (error) {
+      // Released meanwhile; try again straight away
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let owner: Partial<LockOwner> | null = null;
+    try {
+      owner = JSON.parse(content);
+    } catch {
+      // Caught half-written; only stale if it stays that way
+    }
+
+    const stale = owner?.host === os.hostname() && typeof owner.pid === 'number'
+      ? !isAlive(owner.pid)
+      : Date.now() - stat.mtimeMs > this.staleMs;
+    return stale ? content : null;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,84 @@
+import { BaseMemory, MemoryType } from './types.js';
+
+// Structured constraints applied to memory metadata before ranking
+export interface MemoryFilter {
+  type?: MemoryType;
+  // Memory must carry every listed topic (case-insensitive)
+  topics?: string[];
+  category?: string;
+  source?: string;
+  minImportance?: number;
+  // ISO timestamps, both inclusive
+  since?: string;
+  until?: string;
+  // Equality on arbitrary metadata keys, e.g. { commit: 'abc123' }
+  metadata?: Record<string, unknown>;
+  // Restricts matches to these memory ids, e.g. the memories of a session
+  ids?: string[];
+}
+
+export function matchesFilter(id: string, metadata: BaseMemory['metadata'], filter: MemoryFilter = {}): boolean {
+  if (filter.ids && !filter.ids.includes(id)) return false;
+  if (filter.type && metadata.type !== filter.type) return false;
+  if (filter.category !== undefined && metadata.category !== filter.category) return false;
+  if (filter.source !== undefined && metadata.source !== filter.source) return false;
+
+  if (filter.minImportance !== undefined && (metadata.importance ?? 0) < filter.minImportance) {
+    return false;
+  }
+
+  if (filter.topics?.length) {
+    const topics = new Set((metadata.topics ?? []).map(topic => topic.toLowerCase()));
+    if (!filter.topics.every(topic => topics.has(topic.toLowerCase()))) return false;
+  }
+
+  if (filter.since || filter.until) {
+    const timestamp = Date.parse(metadata.timestamp);
+    if (Number.isNaN(timestamp)) return false;
+    if (filter.since && timestamp < Date.parse(filter.since)) return false;
+    if (filter.until && timestamp > Date.parse(filter.until)) return false;
+  }
+
+  if (filter.metadata) {
+    const values = metadata as Record<string, unknown>;
+    for (const [key, expected] of Object.entries(filter.metadata)) {
+      if (!isEqual(values[key], expected)) return false;
+    }
+  }
+
+  return true;
+}
+
+// Accepts an ISO date/timestamp or a relative duration such as `14d`, `12h`
+// or `2w` (meaning that long before `now`). Returns an ISO timestamp, or null
+// if the value can't be understood.
+export function parseTimeBound(value: string, now: Date = new Date()): string | null {
+  const duration = parseDuration(value);
+  if (duration !== null) {
+    return new Date(now.getTime() - duration).toISOString();
+  }
+
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp).toISOString();
+}
+
+// `30m`, `12h`, `14d`, `2w` in milliseconds, or null. Units are lowercase
+// only, so `2M` isn't silently read as minutes when months were meant.
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)\s*([mhdw])$/.exec(value.trim());
+  if (!match) return null;
+
+  const units: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+  };
+  return parseInt(match[1], 10) * units[match[2]];
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  if (typeof actual !== 'object' || typeof expected !== 'object' || !actual || !expected) return false;
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
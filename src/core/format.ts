@@ -0,0 +1,346 @@
+import { BaseMemory, SessionContext } from './types.js';
+import { Neighborhood, SearchResult } from './store.js';
+import { CallToolResponse } from '../sdk/types.js';
+
+export type ResultFormat = 'markdown' | 'json' | 'compact';
+
+export interface FormatOptions {
+  format?: ResultFormat;
+  // Rough budget for memory content across all results (~4 characters per token)
+  maxTokens?: number;
+  nextCursor?: string;
+}
+
+export interface FormattedResult {
+  id: string;
+  score: number;
+  type: string;
+  timestamp: string;
+  content: string;
+  truncated: boolean;
+  // Characters in the stored content, whether or not it was truncated
+  length: number;
+  metadata: BaseMemory['metadata'];
+  scope?: string;
+}
+
+const CHARS_PER_TOKEN = 4;
+const COMPACT_PREVIEW = 120;
+const SUMMARY_TOPICS = 5;
+const SUMMARY_RECENT = 5;
+
+export function formatSearchResults<T extends BaseMemory>(
+  results: SearchResult<T>[],
+  options: FormatOptions = {}
+): CallToolResponse {
+  const format = options.format ?? 'markdown';
+  const budget = options.maxTokens !== undefined ? options.maxTokens * CHARS_PER_TOKEN : Infinity;
+  const allowances = shareBudget(results.map(({ memory }) => memory.content.length), budget);
+
+  const items: FormattedResult[] = results.map(({ memory, score, scope }, i) => {
+    const content = memory.content.slice(0, allowances[i]);
+    return {
+      id: memory.id,
+      score: Math.round(score * 1000) / 1000,
+      type: memory.metadata.type,
+      timestamp: memory.metadata.timestamp,
+      content,
+      truncated: content.length < memory.content.length,
+      length: memory.content.length,
+      metadata: memory.metadata,
+      ...(scope ? { scope } : {})
+    };
+  });
+
+  const truncated = items.some(item => item.truncated);
+  const structuredContent = {
+    results: items,
+    truncated,
+    ...(options.nextCursor ? { nextCursor: options.nextCursor } : {})
+  };
+
+  if (format === 'json') {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(structuredContent, null, 2) }],
+      structuredContent
+    };
+  }
+
+  if (items.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'No matching memories found.' }],
+      structuredContent
+    };
+  }
+
+  const notes = [`Found ${items.length} ${items.length === 1 ? 'memory' : 'memories'}.`];
+  if (truncated) {
+    notes.push('Some content was truncated to fit max_tokens; read memory://<id> for the full text.');
+  }
+  if (options.nextCursor) {
+    notes.push(`More results available, pass cursor "${options.nextCursor}" to continue.`);
+  }
+
+  if (format === 'compact') {
+    const lines = items.map((item, i) =>
+      `${i + 1}. ${item.id} [${item.type} ${item.timestamp}${item.scope ? ` ${item.scope}` : ''}] ${item.score}: ${preview(item.content)}`
+    );
+    return {
+      content: [{ type: 'text', text: [...notes, '', ...lines].join('\n') }],
+      structuredContent
+    };
+  }
+
+  return {
+    content: [
+      { type: 'text', text: notes.join(' ') },
+      ...items.map((item, i) => ({
+        type: 'text',
+        text: toMarkdown(
+          `${i + 1}. ${item.id} (score ${item.score}${item.scope ? `, ${item.scope}` : ''})`,
+          item.metadata,
+          item.content,
+          item.length
+        )
+      }))
+    ],
+    structuredContent
+  };
+}
+
+// A single memory in full
+export function formatMemory<T extends BaseMemory>(memory: T): CallToolResponse {
+  return {
+    content: [{
+      type: 'text',
+      text: toMarkdown(memory.id, memory.metadata, memory.content, memory.content.length)
+    }],
+    structuredContent: { memory }
+  };
+}
+
+// One line per memory, for browsing rather than reading
+export function formatMemoryList<T extends BaseMemory>(memories: T[], nextCursor?: string): CallToolResponse {
+  const structuredContent = {
+    memories: memories.map(memory => ({
+      id: memory.id,
+      type: memory.metadata.type,
+      timestamp: memory.metadata.timestamp,
+      importance: memory.metadata.importance,
+      topics: memory.metadata.topics ?? [],
+      preview: preview(memory.content)
+    })),
+    ...(nextCursor ? { nextCursor } : {})
+  };
+
+  if (memories.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'No memories found.' }],
+      structuredContent
+    };
+  }
+
+  const lines = memories.map(memory => {
+    const { type, timestamp, importance } = memory.metadata;
+    const weight = importance !== undefined ? ` importance ${importance}` : '';
+    return `- ${memory.id} [${type} ${timestamp}${weight}]: ${preview(memory.content)}`;
+  });
+  if (nextCursor) {
+    lines.push('', `More memories available, pass cursor "${nextCursor}" to continue.`);
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent
+  };
+}
+
+// Sessions with their status, most recently updated first
+export function formatSessionList(sessions: SessionContext[], activeId: string | null): CallToolResponse {
+  const items = [...sessions]
+    .sort((a, b) => b.metadata.lastUpdate.localeCompare(a.metadata.lastUpdate))
+    .map(session => sessionInfo(session, activeId));
+
+  if (items.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'No sessions yet. Use start_session to begin one.' }],
+      structuredContent: { sessions: items }
+    };
+  }
+
+  const lines = items.map(item => {
+    const description = item.description ? `: ${item.description}` : '';
+    const count = `${item.memoryCount} ${item.memoryCount === 1 ? 'memory' : 'memories'}`;
+    return `- ${item.name} [${item.status}, ${count}, updated ${item.lastUpdate}]${description}`;
+  });
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: { sessions: items }
+  };
+}
+
+// Overview of a session: what kinds of memories it holds, its most common
+// topics and the latest entries. memories are newest first.
+export function formatSessionSummary<T extends BaseMemory>(
+  session: SessionContext,
+  memories: T[],
+  activeId: string | null
+): CallToolResponse {
+  const info = sessionInfo(session, activeId);
+
+  const types: Record<string, number> = {};
+  const topicCounts = new Map<string, number>();
+  for (const memory of memories) {
+    types[memory.metadata.type] = (types[memory.metadata.type] ?? 0) + 1;
+    for (const topic of memory.metadata.topics ?? []) {
+      topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1);
+    }
+  }
+  const topics = [...topicCounts.entries()]
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, SUMMARY_TOPICS)
+    .map(([topic]) => topic);
+  const recent = memories.slice(0, SUMMARY_RECENT).map(memory => ({
+    id: memory.id,
+    type: memory.metadata.type,
+    timestamp: memory.metadata.timestamp,
+    preview: preview(memory.content)
+  }));
+
+  const breakdown = Object.entries(types).map(([type, count]) => `${count} ${type}`).join(', ');
+  const lines = [`### Session ${info.name} (${info.status})`];
+  if (info.description) {
+    lines.push(info.description);
+  }
+  lines.push(
+    `started: ${info.startTime} · updated: ${info.lastUpdate}${info.closedAt ? ` · closed: ${info.closedAt}` : ''}`,
+    '',
+    `${memories.length} ${memories.length === 1 ? 'memory' : 'memories'}${breakdown ? ` (${breakdown})` : ''}`
+  );
+  if (topics.length) {
+    lines.push(`Top topics: ${topics.join(', ')}`);
+  }
+
+  if (recent.length) {
+    lines.push('', 'Latest:', ...recent.map(item => `- ${item.id} [${item.type} ${item.timestamp}]: ${item.preview}`));
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: {
+      session: info,
+      types,
+      topics,
+      recent
+    }
+  };
+}
+
+// A memory's graph neighborhood: memories grouped by distance, then the edges
+// between them
+export function formatNeighborhood<T extends BaseMemory>(neighborhood: Neighborhood<T>): CallToolResponse {
+  const [start, ...related] = neighborhood.memories;
+  const structuredContent = {
+    memories: neighborhood.memories.map(({ memory, depth }) => ({
+      id: memory.id,
+      depth,
+      type: memory.metadata.type,
+      timestamp: memory.metadata.timestamp,
+      preview: preview(memory.content)
+    })),
+    edges: neighborhood.edges
+  };
+
+  if (related.length === 0) {
+    return {
+      content: [{ type: 'text', text: `${start.memory.id} has no linked memories.` }],
+      structuredContent
+    };
+  }
+
+  const lines = [`### ${start.memory.id}: ${preview(start.memory.content)}`, ''];
+  let depth = 0;
+  for (const item of related) {
+    if (item.depth !== depth) {
+      depth = item.depth;
+      lines.push(`${depth} ${depth === 1 ? 'hop' : 'hops'} away:`);
+    }
+    lines.push(`- ${item.memory.id} [${item.memory.metadata.type} ${item.memory.metadata.timestamp}]: ${preview(item.memory.content)}`);
+  }
+  lines.push('', 'Links:', ...neighborhood.edges.map(edge => `- ${edge.from} ${edge.type} ${edge.to}`));
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent
+  };
+}
+
+function sessionInfo(session: SessionContext, activeId: string | null) {
+  const { name, description, startTime, lastUpdate, closedAt } = session.metadata;
+  return {
+    id: session.id,
+    name,
+    ...(description ? { description } : {}),
+    status: closedAt ? 'closed' : session.id === activeId ? 'active' : 'open',
+    memoryCount: session.activeMemories.length,
+    startTime,
+    lastUpdate,
+    ...(closedAt ? { closedAt } : {})
+  };
+}
+
+function toMarkdown(
+  heading: string,
+  metadata: BaseMemory['metadata'],
+  content: string,
+  length: number
+): string {
+  const { topics, category, source, importance, lastUpdate, redactions } = metadata;
+  const details = [
+    `type: ${metadata.type}`,
+    `stored: ${metadata.timestamp}`,
+    lastUpdate ? `updated: ${lastUpdate}` : null,
+    category ? `category: ${category}` : null,
+    source ? `source: ${source}` : null,
+    importance !== undefined ? `importance: ${importance}` : null,
+    topics?.length ? `topics: ${topics.join(', ')}` : null,
+    redactions?.length
+      ? `redacted: ${redactions.map(redaction => `${redaction.detector} x${redaction.count}`).join(', ')}`
+      : null
+  ].filter(Boolean);
+
+  const lines = [
+    `### ${heading}`,
+    details.join(' · '),
+    '',
+    content
+  ];
+  if (content.length < length) {
+    lines.push('', `_Truncated: showing ${content.length} of ${length} characters._`);
+  }
+  return lines.join('\n');
+}
+
+// First line of the content, capped for one-line listings
+export function preview(content: string, width: number = COMPACT_PREVIEW): string {
+  const firstLine = content.split('\n', 1)[0];
+  const shown = firstLine.length > width ? firstLine.slice(0, width) : firstLine;
+  return shown.length < content.length ? `${shown} …` : shown;
+}
+
+// Splits a character budget across results so short memories are shown in
+// full and the remainder is shared evenly between the longer ones
+function shareBudget(lengths: number[], budget: number): number[] {
+  const allowances = new Array<number>(lengths.length).fill(0);
+  const order = lengths.map((length, i) => ({ length, i })).sort((a, b) => a.length - b.length);
+
+  let remaining = budget;
+  order.forEach(({ length, i }, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    allowances[i] = Math.min(length, share);
+    remaining -= allowances[i];
+  });
+
+  return allowances;
+}
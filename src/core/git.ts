@@ -0,0 +1,139 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs';
+
+const execFileAsync = promisify(execFile);
+
+// Number of recent commits whose files count as "recently changed"
+const RECENT_COMMITS = 10;
+const MAX_RECENT_FILES = 50;
+
+export interface GitInfo {
+  branch: string;
+  // Undefined in a repository without commits
+  commit?: string;
+  dirtyFiles: string[];
+  recentFiles: string[];
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, timeout: 5000, maxBuffer: 4 * 1024 * 1024 });
+  return stdout;
+}
+
+async function tryGit(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    return await git(cwd, args);
+  } catch {
+    return null;
+  }
+}
+
+// Paths from `git status --porcelain`; renames report the new path
+function parseStatus(output: string): string[] {
+  return output
+    .split('\n')
+    .filter(line => line.length > 3)
+    .map(line => {
+      const file = line.slice(3);
+      const arrow = file.indexOf(' -> ');
+      return arrow === -1 ? file : file.slice(arrow + 4);
+    });
+}
+
+// Top-level directory of the work tree containing cwd, or null outside git
+export async function findRepositoryRoot(cwd: string): Promise<string | null> {
+  const root = await tryGit(cwd, ['rev-parse', '--show-toplevel']);
+  return root?.trim() || null;
+}
+
+// Reads the repository state at cwd, or null if cwd isn't inside a git work
+// tree (or git isn't installed)
+export async function readGitInfo(cwd: string, ignore: string[] = []): Promise<GitInfo | null> {
+  const inside = await tryGit(cwd, ['rev-parse', '--is-inside-work-tree']);
+  if (inside?.trim() !== 'true') return null;
+
+  const [branch, commit, status, log] = await Promise.all([
+    tryGit(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']),
+    tryGit(cwd, ['rev-parse', 'HEAD']),
+    tryGit(cwd, ['status', '--porcelain']),
+    tryGit(cwd, ['log', `-${RECENT_COMMITS}`, '--name-only', '--pretty=format:'])
+  ]);
+
+  const keep = (file: string) => !ignore.some(prefix => file.startsWith(prefix));
+  const dirtyFiles = parseStatus(status ?? '').filter(keep);
+  const recentFiles = [...new Set((log ?? '').split('\n').map(line => line.trim()).filter(Boolean))]
+    .filter(keep)
+    .slice(0, MAX_RECENT_FILES);
+
+  return {
+    // A fresh repository has no HEAD to abbreviate yet
+    branch: branch?.trim()
+      ?? (await tryGit(cwd, ['symbolic-ref', '--short', 'HEAD']))?.trim()
+      ?? 'unknown',
+    commit: commit?.trim() || undefined,
+    dirtyFiles,
+    recentFiles
+  };
+}
+
+// Dependency names with their version ranges, e.g. "typescript@^5.0.0"
+export async function readDependencies(cwd: string): Promise<string[]> {
+  try {
+    const content = await fs.promises.readFile(path.join(cwd, 'package.json'), 'utf-8');
+    const pkg = JSON.parse(content);
+    return [pkg.dependencies, pkg.devDependencies, pkg.peerDependencies]
+      .filter(deps => deps && typeof deps === 'object')
+      .flatMap(deps => Object.entries(deps).map(([name, version]) => `${name}@${version}`));
+  } catch {
+    return [];
+  }
+}
+
+export interface CommitInfo {
+  hash: string;
+  author: string;
+  // Author date, ISO 8601
+  date: string;
+  message: string;
+  files: string[];
+  // `git show --stat` summary
+  stat: string;
+  // Patch text, cut to the requested size
+  diff: string;
+  diffTruncated: boolean;
+}
+
+// Unit separator; won't appear in commit metadata
+const FIELD_SEPARATOR = '\x1f';
+
+export async function readCommit(cwd: string, rev: string, maxDiffChars: number): Promise<CommitInfo> {
+  const header = await git(cwd, [
+    'show', '-s', `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B`, rev, '--'
+  ]);
+  const [hash, author, date, message] = header.split(FIELD_SEPARATOR);
+
+  const [files, stat, patch] = await Promise.all([
+    git(cwd, ['show', '--format=', '--name-only', hash]),
+    git(cwd, ['show', '--format=', '--stat', hash]),
+    maxDiffChars > 0 ? git(cwd, ['show', '--format=', '--patch', hash]) : Promise.resolve('')
+  ]);
+
+  return {
+    hash,
+    author,
+    date,
+    message: message.trim(),
+    files: files.split('\n').map(line => line.trim()).filter(Boolean),
+    stat: stat.trimEnd(),
+    diff: patch.slice(0, maxDiffChars).trimEnd(),
+    diffTruncated: patch.length > maxDiffChars
+  };
+}
+
+// Hashes of the last `count` commits reachable from rev, oldest first
+export async function listCommits(cwd: string, rev: string, count: number): Promise<string[]> {
+  const output = await git(cwd, ['rev-list', '--reverse', `--max-count=${count}`, rev, '--']);
+  return output.split('\n').filter(Boolean);
+}
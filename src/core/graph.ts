@@ -0,0 +1,172 @@
+import { BaseMemory, EnhancedMemory } from './types.js';
+
+// Typed edges between memories, stored on the source memory under
+// relationships.customRelations[type]
+export type RelationType = 'supersedes' | 'caused_by' | 'implements' | 'references';
+
+export const RELATION_TYPES: RelationType[] = ['supersedes', 'caused_by', 'implements', 'references'];
+
+export type Links = Partial<Record<RelationType, string[]>>;
+
+export interface Edge {
+  from: string;
+  to: string;
+  type: RelationType;
+}
+
+export type Direction = 'out' | 'in' | 'both';
+
+export interface WalkOptions {
+  depth: number;
+  types?: RelationType[];
+  direction?: Direction;
+  // Stop once this many memories have been reached
+  maxNodes?: number;
+}
+
+export interface Walk {
+  // id -> number of hops from the start
+  depths: Map<string, number>;
+  edges: Edge[];
+}
+
+// Outgoing typed edges of a memory, ignoring any other custom relations
+export function getLinks(memory: BaseMemory): Links | undefined {
+  const relations = (memory as Partial<EnhancedMemory>).relationships?.customRelations;
+  if (!relations) return undefined;
+
+  const links: Links = {};
+  for (const type of RELATION_TYPES) {
+    const targets = relations[type];
+    if (Array.isArray(targets) && targets.length > 0) {
+      links[type] = targets;
+    }
+  }
+  return Object.keys(links).length > 0 ? links : undefined;
+}
+
+// Returns a copy of the memory with its edges of one type replaced
+export function withLinks<T extends BaseMemory>(memory: T, type: RelationType, targets: string[]): T {
+  const relationships = (memory as Partial<EnhancedMemory>).relationships;
+  const customRelations = { ...relationships?.customRelations };
+  if (targets.length > 0) {
+    customRelations[type] = targets;
+  } else {
+    delete customRelations[type];
+  }
+
+  return {
+    ...memory,
+    relationships: {
+      relatedMemories: [],
+      ...relationships,
+      customRelations
+    }
+  };
+}
+
+// In-memory view of every edge, kept in both directions so back-links can be
+// followed without scanning
+export class LinkIndex implements EdgeSource {
+  private outgoing = new Map<string, Edge[]>();
+  private incoming = new Map<string, Edge[]>();
+
+  // Replaces the outgoing edges of a memory
+  set(id: string, links: Links | undefined): void {
+    this.remove(id);
+
+    const edges: Edge[] = [];
+    for (const type of RELATION_TYPES) {
+      for (const to of new Set(links?.[type] ?? [])) {
+        edges.push({ from: id, to, type });
+      }
+    }
+    if (edges.length === 0) return;
+
+    this.outgoing.set(id, edges);
+    for (const edge of edges) {
+      this.incoming.set(edge.to, [...(this.incoming.get(edge.to) ?? []), edge]);
+    }
+  }
+
+  // Drops the outgoing edges of a memory. Edges pointing at it stay until
+  // their sources are rewritten.
+  remove(id: string): void {
+    for (const edge of this.outgoing.get(id) ?? []) {
+      const remaining = (this.incoming.get(edge.to) ?? []).filter(other => other !== edge);
+      if (remaining.length > 0) {
+        this.incoming.set(edge.to, remaining);
+      } else {
+        this.incoming.delete(edge.to);
+      }
+    }
+    this.outgoing.delete(id);
+  }
+
+  clear(): void {
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  edgesFrom(id: string): Edge[] {
+    return this.outgoing.get(id) ?? [];
+  }
+
+  edgesTo(id: string): Edge[] {
+    return this.incoming.get(id) ?? [];
+  }
+
+  walk(start: string, options: WalkOptions, exists: (id: string) => boolean): Walk {
+    return walkEdges(this, start, options, exists);
+  }
+}
+
+// Anything that can list a memory's edges in both directions
+export interface EdgeSource {
+  edgesFrom(id: string): Edge[];
+  edgesTo(id: string): Edge[];
+}
+
+// Breadth-first walk from start. exists() decides which memories can be
+// visited, so edges to archived or deleted memories are skipped.
+export function walkEdges(
+  graph: EdgeSource,
+  start: string,
+  options: WalkOptions,
+  exists: (id: string) => boolean
+): Walk {
+  const direction = options.direction ?? 'both';
+  const maxNodes = options.maxNodes ?? Infinity;
+  const depths = new Map([[start, 0]]);
+  const edges: Edge[] = [];
+  const seenEdges = new Set<string>();
+
+  let frontier = [start];
+  for (let depth = 1; depth <= options.depth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+
+    for (const id of frontier) {
+      const candidates = [
+        ...(direction !== 'in' ? graph.edgesFrom(id).map(edge => ({ edge, neighbor: edge.to })) : []),
+        ...(direction !== 'out' ? graph.edgesTo(id).map(edge => ({ edge, neighbor: edge.from })) : [])
+      ];
+
+      for (const { edge, neighbor } of candidates) {
+        const key = `${edge.from}\0${edge.to}\0${edge.type}`;
+        if (options.types && !options.types.includes(edge.type)) continue;
+        if (!exists(neighbor) || seenEdges.has(key)) continue;
+        if (!depths.has(neighbor)) {
+          if (depths.size >= maxNodes) continue;
+          depths.set(neighbor, depth);
+          next.push(neighbor);
+        }
+        seenEdges.add(key);
+        edges.push(edge);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return { depths, edges };
+}
@@ -0,0 +1,99 @@
+import { BaseMemory } from './types.js';
+import { DevContextManager } from './context.js';
+import { Store } from './store.js';
+import { CommitInfo, listCommits, readCommit } from './git.js';
+import { Persistence } from './retention.js';
+import { RedactionBlockedError } from './redact.js';
+import { log } from './log.js';
+
+export interface IngestOptions {
+  // Commit to ingest, or the tip to backfill from
+  rev?: string;
+  // Ingest the last N commits reachable from rev instead of just rev
+  backfill?: number;
+  // Cap on the patch text kept per commit; 0 keeps only the stat summary
+  maxDiffChars?: number;
+}
+
+export interface IngestResult {
+  ingested: string[];
+  // Commits that were already in the store
+  skipped: string[];
+  // Commits a redaction detector refused to store
+  blocked: string[];
+}
+
+const DEFAULT_MAX_DIFF_CHARS = 4000;
+const COMMIT_IMPORTANCE = 3;
+
+// Commit memories use a stable id so re-running a hook or a backfill is a no-op
+export function commitMemoryId(hash: string): string {
+  return `commit-${hash}`;
+}
+
+export function commitMemory(commit: CommitInfo): BaseMemory & { persistence: Persistence } {
+  const sections = [commit.message];
+  if (commit.stat) {
+    sections.push(`Files changed:\n${commit.stat}`);
+  }
+  if (commit.diff) {
+    sections.push(commit.diffTruncated ? `${commit.diff}\n... (diff truncated)` : commit.diff);
+  }
+
+  // Dated by the commit, so backfilled history keeps its order and ages
+  const timestamp = new Date(commit.date).toISOString();
+  const metadata: BaseMemory['metadata'] & Record<string, unknown> = {
+    timestamp,
+    type: 'development',
+    importance: COMMIT_IMPORTANCE,
+    category: 'commit',
+    source: 'git',
+    commit: commit.hash,
+    author: commit.author
+  };
+
+  return {
+    id: commitMemoryId(commit.hash),
+    content: sections.join('\n\n'),
+    metadata,
+    persistence: {
+      priority: COMMIT_IMPORTANCE,
+      lastAccessed: timestamp,
+      accessCount: 0
+    }
+  };
+}
+
+// Stores commits from the repository at cwd as development memories
+export async function ingestCommits(
+  store: Store<BaseMemory>,
+  contextManager: DevContextManager,
+  cwd: string,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const rev = options.rev ?? 'HEAD';
+  const maxDiffChars = options.maxDiffChars ?? DEFAULT_MAX_DIFF_CHARS;
+  const hashes = await listCommits(cwd, rev, options.backfill ?? 1);
+
+  const result: IngestResult = { ingested: [], skipped: [], blocked: [] };
+  for (const hash of hashes) {
+    if (await store.has(commitMemoryId(hash))) {
+      result.skipped.push(hash);
+      continue;
+    }
+
+    const commit = await readCommit(cwd, hash, maxDiffChars);
+    try {
+      await contextManager.storeDevMemory(commitMemory(commit), commit.files);
+    } catch (error) {
+      // One commit with a secret in it shouldn't stop a backfill
+      if (!(error instanceof RedactionBlockedError)) throw error;
+      log.warn(`Not storing commit ${hash}: ${error.message}`);
+      result.blocked.push(hash);
+      continue;
+    }
+    result.ingested.push(hash);
+  }
+
+  return result;
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import { Cipher } from './crypto.js';
+import { log } from './log.js';
+
+// Entries logged before a snapshot is rewritten, for small snapshots
+const MIN_COMPACT_LENGTH = 100;
+
+export type JournalChange<V> = [id: string, value: V | null];
+
+// Changes made to a keyed snapshot file (foo.json) since it was last written,
+// appended one line per change to foo.log. A write then costs the size of the
+// change instead of the whole snapshot. The owner replays read() after loading
+// the snapshot, and rewrites the snapshot then calls clear() once
+// shouldCompact() says the log has grown as large as the snapshot.
+export class Journal<V> {
+  readonly filePath: string;
+  private pending: JournalChange<V>[] = [];
+  // Entries in the file as of the last read, flush or clear
+  private length = 0;
+  private compactNext = false;
+
+  constructor(snapshotPath: string, private cipher: Cipher = new Cipher(null)) {
+    this.filePath = snapshotPath.replace(/\.json$/, '') + '.log';
+  }
+
+  // The changes on disk, oldest first. A null value means the id was removed.
+  async read(): Promise<JournalChange<V>[]> {
+    this.pending = [];
+    this.length = 0;
+    this.compactNext = false;
+
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const lines = text.split('\n');
+    // Whatever follows the last newline is a write that never finished
+    if (lines.pop() !== '') {
+      log.warn(`Ignoring an incomplete entry at the end of ${this.filePath}`);
+      this.compactNext = true;
+    }
+
+    const changes = lines.map(line => {
+      const { id, value } = JSON.parse(this.cipher.decrypt(line));
+      return [id, value ?? null] as JournalChange<V>;
+    });
+    this.length = changes.length;
+    return changes;
+  }
+
+  record(id: string, value: V | null): void {
+    this.pending.push([id, value]);
+  }
+
+  // Forgets recorded changes and makes the next save a compaction, for when
+  // the snapshot is being rebuilt from scratch
+  discard(): void {
+    this.pending = [];
+    this.compactNext = true;
+  }
+
+  shouldCompact(snapshotSize: number): boolean {
+    return this.compactNext || this.length + this.pending.length > Math.max(snapshotSize, MIN_COMPACT_LENGTH);
+  }
+
+  // Appends the changes recorded since the last flush
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) return;
+
+    const lines = this.pending
+      .map(([id, value]) => this.cipher.encrypt(JSON.stringify({ id, value })) + '\n')
+      .join('');
+    const handle = await fs.promises.open(this.filePath, 'a');
+    try {
+      await handle.writeFile(lines, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    this.length += this.pending.length;
+    this.pending = [];
+  }
+
+  // Call once the snapshot holds every change
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.filePath, { force: true });
+    this.pending = [];
+    this.length = 0;
+    this.compactNext = false;
+  }
+}
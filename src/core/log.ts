@@ -0,0 +1,23 @@
+// Diagnostics go to stderr: stdout carries the MCP protocol and CLI output
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+let threshold = LOG_LEVELS.indexOf('info');
+
+export function setLogLevel(level: LogLevel): void {
+  threshold = LOG_LEVELS.indexOf(level);
+}
+
+function write(level: LogLevel, args: unknown[]): void {
+  if (LOG_LEVELS.indexOf(level) >= threshold) {
+    console.error(...args);
+  }
+}
+
+export const log = {
+  debug: (...args: unknown[]) => write('debug', args),
+  info: (...args: unknown[]) => write('info', args),
+  warn: (...args: unknown[]) => write('warn', args),
+  error: (...args: unknown[]) => write('error', args)
+};
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { BaseMemory, EnhancedMemory } from './types.js';
+import { Embedder, HashingEmbedder, cosineSimilarity } from './embedding.js';
+import { RELATION_TYPES, getLinks } from './graph.js';
+
+export interface MergeOptions {
+  // Minimum cosine similarity to the cluster's seed memory
+  threshold?: number;
+  embedder?: Embedder;
+}
+
+export interface MergePlan {
+  originals: BaseMemory[];
+  merged: EnhancedMemory;
+}
+
+// Groups near-duplicate memories and builds one consolidated memory per
+// group. Clusters are seeded from the newest memory and only grow with
+// memories close to that seed, so similarity can't chain across a cluster.
+// Memories of different types are never merged.
+export async function planMerges(memories: BaseMemory[], options: MergeOptions = {}): Promise<MergePlan[]> {
+  const threshold = options.threshold ?? 0.9;
+  const embedder = options.embedder ?? new HashingEmbedder();
+
+  const candidates = [...memories].sort((a, b) => b.metadata.timestamp.localeCompare(a.metadata.timestamp));
+  const vectors = await Promise.all(candidates.map(memory => embedder.embed(memory.content)));
+  const assigned = new Set<number>();
+  const plans: MergePlan[] = [];
+
+  for (let seed = 0; seed < candidates.length; seed++) {
+    if (assigned.has(seed)) continue;
+
+    const cluster = [seed];
+    for (let other = seed + 1; other < candidates.length; other++) {
+      if (assigned.has(other)) continue;
+      if (candidates[other].metadata.type !== candidates[seed].metadata.type) continue;
+      if (cosineSimilarity(vectors[seed], vectors[other]) >= threshold) {
+        cluster.push(other);
+      }
+    }
+
+    if (cluster.length < 2) continue;
+
+    cluster.forEach(index => assigned.add(index));
+    const originals = cluster.map(index => candidates[index]);
+    plans.push({ originals, merged: consolidate(originals) });
+  }
+
+  return plans;
+}
+
+// Lines that differ only in case, spacing or punctuation count as the same
+function lineKey(line: string): string {
+  return line.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function consolidate(originals: BaseMemory[]): EnhancedMemory {
+  const now = new Date().toISOString();
+  const [newest] = originals;
+
+  // Start from the longest version and append any lines the others add
+  const bySize = [...originals].sort((a, b) => b.content.length - a.content.length);
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  for (const memory of bySize) {
+    for (const line of memory.content.split('\n')) {
+      const key = lineKey(line);
+      if (key && seen.has(key)) continue;
+      seen.add(key);
+      lines.push(line);
+    }
+  }
+
+  const topics = Array.from(new Set(originals.flatMap(memory => memory.metadata.topics ?? [])));
+  const importances = originals
+    .map(memory => memory.metadata.importance)
+    .filter((importance): importance is number => importance !== undefined);
+  const importance = importances.length > 0 ? Math.max(...importances) : undefined;
+  const ids = originals.map(memory => memory.id);
+  // Keep links the originals already had to memories outside the cluster
+  const inherited = originals
+    .flatMap(memory => (memory as Partial<EnhancedMemory>).relationships?.relatedMemories ?? [])
+    .filter(id => !ids.includes(id));
+  // and their typed links, except those within the cluster
+  const links: Record<string, string[]> = {};
+  for (const type of RELATION_TYPES) {
+    const targets = originals
+      .flatMap(memory => getLinks(memory)?.[type] ?? [])
+      .filter(id => !ids.includes(id));
+    if (targets.length > 0) links[type] = Array.from(new Set(targets));
+  }
+
+  return {
+    id: randomUUID(),
+    content: lines.join('\n'),
+    metadata: {
+      ...newest.metadata,
+      timestamp: newest.metadata.timestamp,
+      lastUpdate: now,
+      ...(topics.length > 0 ? { topics } : {}),
+      ...(importance !== undefined ? { importance } : {})
+    },
+    contextType: newest.metadata.type,
+    relationships: {
+      relatedMemories: Array.from(new Set([...ids, ...inherited])),
+      customRelations: { ...links, merged_from: ids }
+    },
+    persistence: {
+      priority: importance ?? 0,
+      lastAccessed: now,
+      accessCount: 0
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { OpenedStore } from './workspace.js';
+
+export interface MigrationResult {
+  memories: number;
+  archived: number;
+  contexts: number;
+}
+
+const PAGE_SIZE = 200;
+
+// Copies every memory, live and archived, and every context from one store to
+// another. Ids are kept, so running it again overwrites rather than duplicates.
+export async function migrateStore(from: OpenedStore, to: OpenedStore): Promise<MigrationResult> {
+  await from.store.initialize();
+  await to.store.initialize();
+
+  const result: MigrationResult = { memories: 0, archived: 0, contexts: 0 };
+
+  for (const archived of [false, true]) {
+    let cursor: string | undefined;
+    do {
+      const page = await from.store.list({ archived, limit: PAGE_SIZE, cursor, order: 'asc' });
+      for (const memory of page.memories) {
+        await to.store.store(memory);
+        if (archived) {
+          await to.store.archive(memory.id);
+          result.archived++;
+        } else {
+          result.memories++;
+        }
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  for (const id of await from.contexts.list()) {
+    const context = await from.contexts.load(id);
+    if (!context) continue;
+
+    // Save over whatever version the target already has
+    const existing = await to.contexts.load(id);
+    await to.contexts.save({ ...context, metadata: { ...context.metadata, version: existing?.metadata.version ?? 0 } });
+    result.contexts++;
+  }
+
+  return result;
+}
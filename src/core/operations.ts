@@ -0,0 +1,158 @@
+import { randomUUID } from 'crypto';
+import { BaseMemory, MemoryType } from './types.js';
+import { DevContextManager } from './context.js';
+import { PruneOptions } from './store.js';
+import { MergeOptions, MergePlan, planMerges } from './merge.js';
+import { EnrichmentPipeline } from './enrich.js';
+import { Persistence } from './retention.js';
+import { Workspace } from './workspace.js';
+
+// Workspace operations shared by the MCP tools and the dev-memory CLI
+
+export interface NewMemory {
+  type: MemoryType;
+  content: string;
+  // Extra keys (e.g. commit) are stored as-is
+  metadata?: Partial<BaseMemory['metadata']> & Record<string, unknown>;
+  // Archive the memory automatically after this many milliseconds
+  ttlMs?: number;
+}
+
+export interface StoredMemory {
+  memory: BaseMemory & { persistence: Persistence };
+  // The active session the memory was added to, if any
+  sessionId: string | null;
+}
+
+export interface PruneResult {
+  // Archived because their ttl ran out
+  expired: string[];
+  // Archived for a low retention score
+  pruned: string[];
+}
+
+export type PruneRequest = PruneOptions & {
+  // Entries kept in each context, most recent first; defaults to
+  // PRUNED_CONTEXT_SIZE
+  contextSize?: number;
+};
+
+export type MergeRequest = MergeOptions & {
+  dryRun?: boolean;
+  // Only merge memories of this type
+  type?: MemoryType;
+};
+
+// Entries kept in each context by prune, most recent first
+export const PRUNED_CONTEXT_SIZE = 50;
+
+// Enriches and stores a new memory and adds it to the active session.
+// Development memories are stamped with the current branch and commit.
+export async function storeMemory(
+  { store, contextManager, sessions }: Workspace,
+  enrichment: EnrichmentPipeline,
+  input: NewMemory
+): Promise<StoredMemory> {
+  const timestamp = new Date().toISOString();
+  // Fill in topics, category and importance the caller left out
+  const enriched = await enrichment.enrich({
+    id: randomUUID(),
+    content: input.content,
+    metadata: {
+      timestamp,
+      type: input.type,
+      ...input.metadata
+    }
+  });
+  const memory: BaseMemory & { persistence: Persistence } = {
+    ...enriched,
+    persistence: {
+      priority: enriched.metadata.importance ?? 0,
+      lastAccessed: timestamp,
+      accessCount: 0
+    }
+  };
+  if (input.ttlMs !== undefined) {
+    memory.persistence.expiresAt = new Date(Date.now() + input.ttlMs).toISOString();
+  }
+
+  if (input.type === 'development') {
+    await contextManager.storeDevMemory(memory);
+  } else {
+    await store.store(memory);
+  }
+  const sessionId = await sessions.attachToActiveSession([memory.id]);
+  // Read back what was kept, which may have been redacted on the way in
+  const stored = await store.find(memory.id) as StoredMemory['memory'] | null;
+  return { memory: stored ?? memory, sessionId };
+}
+
+// Removes duplicate entries from every context; resolves to the number of
+// entries left
+export async function compressContexts(contextManager: DevContextManager): Promise<number> {
+  let remaining = 0;
+  for (const contextId of await contextManager.listContexts()) {
+    const context = await contextManager.modifyContext(contextId, current => {
+      current.activeMemories = Array.from(new Set(current.activeMemories));
+    });
+    remaining += context?.activeMemories.length ?? 0;
+  }
+  return remaining;
+}
+
+// Archives expired and low-value memories, drops them from contexts and trims
+// each context to its most recent entries. A dry run only reports what prune
+// would archive.
+export async function pruneMemories(
+  { store, contextManager }: Workspace,
+  options: PruneRequest
+): Promise<PruneResult> {
+  const contextSize = options.contextSize ?? PRUNED_CONTEXT_SIZE;
+  const expired = options.dryRun ? [] : await store.expire();
+  const pruned = await store.prune(options);
+
+  if (!options.dryRun) {
+    await contextManager.detachMemories([...expired, ...pruned]);
+
+    for (const contextId of await contextManager.listContexts()) {
+      await contextManager.modifyContext(contextId, context => {
+        if (context.activeMemories.length <= contextSize) return false;
+        context.activeMemories = context.activeMemories.slice(0, contextSize);
+      });
+    }
+  }
+
+  return { expired, pruned };
+}
+
+// Folds each cluster of near-duplicate memories into a single memory, points
+// contexts and links from other memories at it and archives the originals,
+// so they can still be restored. A dry run only plans the merges.
+export async function mergeMemories(
+  { store, contextManager }: Workspace,
+  options: MergeRequest = {}
+): Promise<MergePlan[]> {
+  const { memories } = await store.list({ filter: { type: options.type }, limit: Infinity });
+  const plans = await planMerges(memories, options);
+
+  if (!options.dryRun) {
+    for (const { originals, merged } of plans) {
+      await store.store(merged);
+      const originalIds = originals.map(memory => memory.id);
+      for (const id of originalIds) {
+        const incoming = await store.related(id, { direction: 'in', limit: Infinity });
+        for (const { from, to, type } of incoming?.edges ?? []) {
+          if (to !== id || originalIds.includes(from)) continue;
+          await store.link(from, merged.id, type);
+          await store.unlink(from, id, type);
+        }
+      }
+      await contextManager.replaceMemories(originalIds, merged.id);
+      for (const id of originalIds) {
+        await store.archive(id);
+      }
+    }
+  }
+
+  return plans;
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { findRepositoryRoot } from './git.js';
+import { FileLock, quarantineFile, writeFileAtomic } from './files.js';
+import { log } from './log.js';
+
+// A namespace in the memory home, one per repository
+export interface Project {
+  // Directory name under <home>/projects, derived from the root
+  key: string;
+  name: string;
+  root: string;
+}
+
+interface ProjectRecord {
+  name: string;
+  root: string;
+  lastUsed: string;
+}
+
+// Layout of the memory home:
+//
+//   <home>/
+//   ├── projects.json            key -> { name, root, lastUsed }
+//   ├── projects.lock            held while projects.json is read and rewritten
+//   ├── projects/<key>/          a store and contexts for one repository
+//   ├── global/                  a store for memories shared by every project
+//   └── quarantine/              a projects.json that couldn't be parsed
+const REGISTRY_FILE = 'projects.json';
+const REGISTRY_LOCK = 'projects.lock';
+// lastUsed isn't rewritten more often than this, so opening a project
+// repeatedly doesn't rewrite the registry every time
+const LAST_USED_RESOLUTION_MS = 60_000;
+const PROJECTS_DIR = 'projects';
+const GLOBAL_DIR = 'global';
+// Where memories lived before namespaces: <project root>/.dev-memory
+const LEGACY_DIR = '.dev-memory';
+
+export function defaultHome(): string {
+  return process.env.DEV_MEMORY_HOME || path.join(os.homedir(), '.dev-memory');
+}
+
+export class MemoryHome {
+  readonly dir: string;
+  private lock: FileLock;
+
+  constructor(dir: string = defaultHome()) {
+    this.dir = path.resolve(dir);
+    this.lock = new FileLock(path.join(this.dir, REGISTRY_LOCK));
+  }
+
+  get globalDir(): string {
+    return path.join(this.dir, GLOBAL_DIR);
+  }
+
+  projectDir(project: Project): string {
+    return path.join(this.dir, PROJECTS_DIR, project.key);
+  }
+
+  // The project containing dir: its repository root, or dir itself outside git
+  async resolveProject(dir: string): Promise<Project> {
+    const root = await findRepositoryRoot(dir) ?? path.resolve(dir);
+    const name = path.basename(root) || 'root';
+    const hash = createHash('sha1').update(root).digest('hex').slice(0, 8);
+    const slug = name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-');
+    return { key: `${slug}-${hash}`, name, root };
+  }
+
+  // Records the project in the registry and creates its directory, copying
+  // in memories from a pre-namespace <root>/.dev-memory the first time
+  async openProject(project: Project): Promise<string> {
+    const dir = this.projectDir(project);
+
+    if (!fs.existsSync(dir)) {
+      const legacy = path.join(project.root, LEGACY_DIR);
+      if (path.resolve(legacy) !== this.dir && fs.existsSync(path.join(legacy, 'interactions'))) {
+        log.info(`Copying memories from ${legacy} into ${dir}`);
+        await fs.promises.cp(legacy, dir, { recursive: true });
+      }
+      await fs.promises.mkdir(dir, { recursive: true });
+    }
+
+    await this.lock.run(async () => {
+      const registry = await this.readRegistry();
+      const record = registry[project.key];
+      const now = new Date();
+      if (
+        record?.name === project.name &&
+        record.root === project.root &&
+        now.getTime() - Date.parse(record.lastUsed) < LAST_USED_RESOLUTION_MS
+      ) {
+        return;
+      }
+
+      registry[project.key] = { name: project.name, root: project.root, lastUsed: now.toISOString() };
+      await writeFileAtomic(path.join(this.dir, REGISTRY_FILE), JSON.stringify(registry, null, 2));
+    });
+
+    return dir;
+  }
+
+  // Known projects, most recently used first
+  async listProjects(): Promise<Array<Project & { lastUsed: string }>> {
+    const registry = await this.lock.run(() => this.readRegistry());
+    return Object.entries(registry)
+      .map(([key, record]) => ({ key, ...record }))
+      .sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+  }
+
+  // Call holding the lock. A registry that can't be parsed is moved to
+  // quarantine/ rather than overwritten, and a new one started.
+  private async readRegistry(): Promise<Record<string, ProjectRecord>> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(path.join(this.dir, REGISTRY_FILE), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+
+    try {
+      const registry = JSON.parse(content);
+      if (!isRegistry(registry)) {
+        throw new Error('not a project registry');
+      }
+      return registry;
+    } catch (error) {
+      const target = await quarantineFile(this.dir, REGISTRY_FILE);
+      log.warn(`${REGISTRY_FILE} is corrupt (${(error as Error).message}); moved it to ${target} and started a new registry`);
+      return {};
+    }
+  }
+}
+
+function isRegistry(value: unknown): value is Record<string, ProjectRecord> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(record =>
+      typeof record?.name === 'string' && typeof record.root === 'string' && typeof record.lastUsed === 'string'
+    );
+}
@@ -0,0 +1,525 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { BaseMemory, EnhancedMemory } from './types.js';
+import {
+  IntegrityReport,
+  ListOptions,
+  ListPage,
+  MemoryPatch,
+  Neighborhood,
+  PruneOptions,
+  RelatedOptions,
+  SearchOptions,
+  SearchPage,
+  Store,
+  VerifyOptions
+} from './store.js';
+import { RelationType } from './graph.js';
+
+// block: refuse to store the memory; mask: replace the match with a marker;
+// hash: replace it with a marker carrying a short SHA-256, so repeated
+// occurrences of the same value can still be told apart
+export type RedactAction = 'block' | 'mask' | 'hash';
+
+export const REDACT_ACTIONS: RedactAction[] = ['block', 'mask', 'hash'];
+
+export interface Detector {
+  name: string;
+  // Must be global; the whole match is redacted unless `group` is set
+  pattern: RegExp;
+  action: RedactAction;
+  // Redact only this capture group, keeping the rest of the match
+  group?: number;
+  // Extra check on the redacted text, for patterns that over-match
+  accept?(value: string): boolean;
+}
+
+// Recorded in metadata.redactions for every detector that fired
+export interface Redaction {
+  detector: string;
+  action: 'mask' | 'hash';
+  count: number;
+}
+
+export interface Finding {
+  detector: string;
+  action: RedactAction;
+  count: number;
+}
+
+export interface RedactionResult {
+  text: string;
+  findings: Finding[];
+}
+
+// Raised when a detector configured to block matches
+export class RedactionBlockedError extends Error {
+  constructor(readonly detectors: string[]) {
+    super(`Refusing to store content containing ${detectors.join(', ')}; remove it and try again`);
+    this.name = 'RedactionBlockedError';
+  }
+}
+
+const MIN_ENTROPY_LENGTH = 24;
+// Bits per character; random base64 scores about 4.5 and up, English and
+// identifiers well below 4
+const MIN_ENTROPY = 4.0;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Paths and camelCase identifiers break into words of several letters
+// (src, components, UserProfileCard2 -> User Profile Card 2); random base64
+// switches case or between letters and digits every couple of characters
+const MIN_WORD_LENGTH = 3;
+
+function averageWordLength(value: string): number {
+  const words = value.match(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|[0-9]+/g) ?? [];
+  const length = words.reduce((sum, word) => sum + word.length, 0);
+  return words.length > 0 ? length / words.length : 0;
+}
+
+// Random-looking tokens. Hex (commit hashes, checksums, UUIDs) is left alone,
+// letters of both cases plus digits are required, and tokens made of words,
+// such as paths and identifiers, don't count.
+function looksRandom(value: string): boolean {
+  if (/^[0-9a-f-]+$/i.test(value)) return false;
+  if (!/[a-z]/.test(value) || !/[A-Z]/.test(value) || !/[0-9]/.test(value)) return false;
+  if (averageWordLength(value) >= MIN_WORD_LENGTH) return false;
+  return shannonEntropy(value) >= MIN_ENTROPY;
+}
+
+// In the order they run; earlier detectors take precedence over the generic
+// ones at the end
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: 'private_key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    action: 'mask'
+  },
+  {
+    name: 'aws_access_key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    action: 'mask'
+  },
+  {
+    name: 'aws_secret_key',
+    pattern: /\baws_?secret_?access_?key\b["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})\b/gi,
+    action: 'mask',
+    group: 1
+  },
+  {
+    name: 'github_token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    action: 'mask'
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+    action: 'mask'
+  },
+  {
+    // KEY=value lines as found in .env files and YAML config. Upper-case keys
+    // only, so code such as `tokens = tokenize(text)` is left alone, and
+    // numbers such as `MAX_TOKENS: 4096` aren't secrets.
+    name: 'secret_assignment',
+    pattern: /\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY)[A-Z0-9_]*["']?\s*[:=]\s*["']?([^\s"'`,;]{6,})/g,
+    action: 'mask',
+    group: 1,
+    accept: value => !/^[\d._]+$/.test(value) && !value.startsWith('[REDACTED') && !value.startsWith('[HASH') &&
+      !value.startsWith('process.env')
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    action: 'mask'
+  },
+  {
+    name: 'high_entropy',
+    pattern: new RegExp(`[A-Za-z0-9+/_=-]{${MIN_ENTROPY_LENGTH},}`, 'g'),
+    action: 'mask',
+    accept: looksRandom
+  }
+];
+
+export class Redactor {
+  private detectors: Detector[];
+
+  constructor(detectors: Detector[] = BUILTIN_DETECTORS) {
+    this.detectors = [...detectors];
+  }
+
+  get names(): string[] {
+    return this.detectors.map(detector => detector.name);
+  }
+
+  // Applies every detector in turn. Matches of a blocking detector are masked
+  // too, so the result never holds them; callers decide whether to refuse.
+  redact(text: string): RedactionResult {
+    const findings: Finding[] = [];
+
+    for (const detector of this.detectors) {
+      let count = 0;
+      text = text.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const value = detector.group !== undefined ? groups[detector.group - 1] : match;
+        if (typeof value !== 'string' || (detector.accept && !detector.accept(value))) {
+          return match;
+        }
+        count++;
+        const marker = detector.action === 'hash'
+          ? `[HASH:${detector.name}:${createHash('sha256').update(value).digest('hex').slice(0, 12)}]`
+          : `[REDACTED:${detector.name}]`;
+        // Only the group is replaced; the text around it is kept
+        return detector.group !== undefined ? match.replace(value, marker) : marker;
+      });
+      if (count > 0) {
+        findings.push({ detector: detector.name, action: detector.action, count });
+      }
+    }
+
+    return { text, findings };
+  }
+
+  // The memory with its content and every string in its metadata and
+  // relationships redacted, and what was found added to metadata.redactions,
+  // whatever the detectors' actions
+  scanMemory<T extends BaseMemory>(memory: T): { memory: T; findings: Finding[] } {
+    const findings: Finding[] = [];
+    const scrub = (text: string) => {
+      const result = this.redact(text);
+      findings.push(...result.findings);
+      return result.text;
+    };
+
+    const content = scrub(memory.content);
+    const metadata = scrubMetadata(memory.metadata, memory.content, content, scrub) as T['metadata'];
+    const { relationships } = memory as Partial<EnhancedMemory>;
+    const scrubbed = relationships !== undefined ? { relationships: scrubValue(relationships, scrub) } : {};
+    if (findings.length === 0) return { memory, findings };
+
+    metadata.redactions = mergeRedactions(metadata.redactions ?? [], findings);
+    return { memory: { ...memory, ...scrubbed, content, metadata }, findings };
+  }
+
+  // As scanMemory, but rejects with RedactionBlockedError if a blocking
+  // detector matched
+  redactMemory<T extends BaseMemory>(memory: T): T {
+    const { memory: redacted, findings } = this.scanMemory(memory);
+    checkBlocked(findings);
+    return redacted;
+  }
+}
+
+// Metadata keys the stores maintain themselves rather than free text
+const STRUCTURAL_KEYS = new Set(['type', 'timestamp', 'lastUpdate', 'redactions']);
+
+// Redacts every string value, however deeply nested. original and redacted
+// are the content before and after redaction, for scrubTopics.
+function scrubMetadata(
+  metadata: Record<string, unknown>,
+  original: string,
+  redacted: string,
+  scrub: (text: string) => string
+): Record<string, unknown> {
+  const scrubbed: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (STRUCTURAL_KEYS.has(key)) {
+      scrubbed[key] = value;
+    } else if (key === 'topics' && isStringArray(value)) {
+      scrubbed[key] = scrubTopics(value, original, redacted, scrub);
+    } else {
+      scrubbed[key] = scrubValue(value, scrub);
+    }
+  }
+  return scrubbed;
+}
+
+function scrubValue(value: unknown, scrub: (text: string) => string): unknown {
+  if (typeof value === 'string') return scrub(value);
+  if (Array.isArray(value)) return value.map(item => scrubValue(item, scrub));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, scrubValue(item, scrub)]));
+  }
+  return value;
+}
+
+// Topics extracted from the content may be fragments of a secret that no
+// single detector recognises, so topics found in the original content but not
+// in the redacted content are dropped
+function scrubTopics(
+  topics: string[],
+  original: string,
+  redacted: string,
+  scrub: (text: string) => string
+): string[] {
+  if (original === redacted) return topics.map(scrub);
+  const before = original.toLowerCase();
+  const after = redacted.toLowerCase();
+  return topics
+    .filter(topic => !before.includes(topic.toLowerCase()) || after.includes(topic.toLowerCase()))
+    .map(scrub);
+}
+
+function checkBlocked(findings: Finding[]): void {
+  const blocked = findings.filter(finding => finding.action === 'block').map(finding => finding.detector);
+  if (blocked.length > 0) {
+    throw new RedactionBlockedError([...new Set(blocked)]);
+  }
+}
+
+function mergeRedactions(recorded: Redaction[], findings: Finding[]): Redaction[] {
+  const merged = recorded.map(redaction => ({ ...redaction }));
+  for (const { detector, action, count } of findings) {
+    // Blocked matches are only stored by an audit fix, and then masked
+    const stored = action === 'hash' ? 'hash' : 'mask';
+    const existing = merged.find(redaction => redaction.detector === detector && redaction.action === stored);
+    if (existing) {
+      existing.count += count;
+    } else {
+      merged.push({ detector, action: stored, count });
+    }
+  }
+  return merged;
+}
+
+// <home>/redaction.json:
+//
+//   {
+//     "detectors": { "email": "hash", "high_entropy": false },
+//     "custom": [{ "name": "internal_host", "pattern": "\\w+\\.corp\\.example\\.com", "action": "mask" }]
+//   }
+//
+// detectors overrides the action of built-in detectors, or turns them off.
+// custom patterns run after the built-in ones, with the "g" flag added.
+export interface RedactionConfig {
+  detectors?: Record<string, RedactAction | false>;
+  custom?: Array<{ name: string; pattern: string; flags?: string; action?: RedactAction }>;
+}
+
+const CONFIG_FILE = 'redaction.json';
+
+export function readRedactionConfig(homeDir: string): RedactionConfig {
+  const file = path.join(homeDir, CONFIG_FILE);
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+function checkAction(action: unknown, where: string): RedactAction {
+  if (!REDACT_ACTIONS.includes(action as RedactAction)) {
+    throw new Error(`${where}: action must be one of ${REDACT_ACTIONS.join(', ')}, got: ${action}`);
+  }
+  return action as RedactAction;
+}
+
+export function createRedactor(config: RedactionConfig = {}): Redactor {
+  const overrides = config.detectors ?? {};
+  for (const name of Object.keys(overrides)) {
+    if (!BUILTIN_DETECTORS.some(detector => detector.name === name)) {
+      throw new Error(`Unknown redaction detector: ${name}`);
+    }
+  }
+
+  const detectors: Detector[] = [];
+  for (const detector of BUILTIN_DETECTORS) {
+    const override = overrides[detector.name];
+    if (override === false) continue;
+    detectors.push(override === undefined
+      ? detector
+      : { ...detector, action: checkAction(override, `detectors.${detector.name}`) });
+  }
+
+  for (const [i, custom] of (config.custom ?? []).entries()) {
+    if (typeof custom?.name !== 'string' || typeof custom.pattern !== 'string') {
+      throw new Error(`custom[${i}] needs a name and a pattern`);
+    }
+    const flags = new Set([...(custom.flags ?? ''), 'g']);
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(custom.pattern, [...flags].join(''));
+    } catch (error) {
+      throw new Error(`custom[${i}] (${custom.name}): ${(error as Error).message}`);
+    }
+    detectors.push({
+      name: custom.name,
+      pattern,
+      action: custom.action === undefined ? 'mask' : checkAction(custom.action, `custom[${i}] (${custom.name})`)
+    });
+  }
+
+  return new Redactor(detectors);
+}
+
+// A store that redacts memories on their way in. Everything else is passed
+// through, so what is on disk and in the search indexes is already clean.
+export class RedactingStore<T extends BaseMemory> implements Store<T> {
+  constructor(private inner: Store<T>, private redactor: Redactor) {}
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  async store(memory: T): Promise<void> {
+    await this.inner.store(this.redactor.redactMemory(memory));
+  }
+
+  find(id: string): Promise<T | null> {
+    return this.inner.find(id);
+  }
+
+  has(id: string): Promise<boolean> {
+    return this.inner.has(id);
+  }
+
+  findSimilar(content: string, limit?: number): Promise<T[]> {
+    return this.inner.findSimilar(content, limit);
+  }
+
+  search(query: string, options?: SearchOptions): Promise<SearchPage<T>> {
+    return this.inner.search(query, options);
+  }
+
+  list(options?: ListOptions): Promise<ListPage<T>> {
+    return this.inner.list(options);
+  }
+
+  // Redacts patched content and metadata the same way as store
+  async update(id: string, patch: MemoryPatch): Promise<T | null> {
+    const findings: Finding[] = [];
+    const scrub = (text: string) => {
+      const result = this.redactor.redact(text);
+      findings.push(...result.findings);
+      return result.text;
+    };
+
+    const content = patch.content !== undefined ? scrub(patch.content) : undefined;
+    const metadata: MemoryPatch['metadata'] = scrubMetadata(patch.metadata ?? {}, patch.content ?? '', content ?? '', scrub);
+    if (findings.length === 0) return this.inner.update(id, patch);
+
+    checkBlocked(findings);
+    const existing = await this.inner.find(id);
+    if (!existing) return null;
+    metadata.redactions = mergeRedactions(existing.metadata.redactions ?? [], findings);
+    return this.inner.update(id, { content, metadata });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.inner.delete(id);
+  }
+
+  touch(ids: string[]): Promise<void> {
+    return this.inner.touch(ids);
+  }
+
+  archive(id: string): Promise<boolean> {
+    return this.inner.archive(id);
+  }
+
+  restore(id: string): Promise<T | null> {
+    return this.inner.restore(id);
+  }
+
+  expire(): Promise<string[]> {
+    return this.inner.expire();
+  }
+
+  prune(options: PruneOptions): Promise<string[]> {
+    return this.inner.prune(options);
+  }
+
+  link(from: string, to: string, type: RelationType): Promise<T | null> {
+    return this.inner.link(from, to, type);
+  }
+
+  unlink(from: string, to: string, type?: RelationType): Promise<RelationType[]> {
+    return this.inner.unlink(from, to, type);
+  }
+
+  related(id: string, options?: RelatedOptions): Promise<Neighborhood<T> | null> {
+    return this.inner.related(id, options);
+  }
+
+  verify(options?: VerifyOptions): Promise<IntegrityReport> {
+    return this.inner.verify(options);
+  }
+}
+
+export interface AuditEntry {
+  id: string;
+  archived: boolean;
+  findings: Finding[];
+}
+
+export interface AuditReport {
+  checked: number;
+  // Memories with something the detectors would redact today
+  flagged: AuditEntry[];
+  fixed: boolean;
+}
+
+const AUDIT_PAGE_SIZE = 200;
+
+// Rescans stored memories, live and archived, with the current detectors, for
+// memories stored before redaction or before a detector was added. With fix,
+// rewrites the flagged ones; blocking detectors mask, as the memory is
+// already stored.
+export async function auditStore<T extends BaseMemory>(
+  store: Store<T>,
+  redactor: Redactor,
+  options: { fix?: boolean } = {}
+): Promise<AuditReport> {
+  const report: AuditReport = { checked: 0, flagged: [], fixed: false };
+  const redacted: Array<{ memory: T; archived: boolean }> = [];
+
+  for (const archived of [false, true]) {
+    let cursor: string | undefined;
+    do {
+      const page = await store.list({ archived, limit: AUDIT_PAGE_SIZE, cursor, order: 'asc' });
+      for (const memory of page.memories) {
+        report.checked++;
+        const scanned = redactor.scanMemory(memory);
+        if (scanned.findings.length === 0) continue;
+        report.flagged.push({ id: memory.id, archived, findings: scanned.findings });
+        redacted.push({ memory: scanned.memory, archived });
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  if (options.fix && redacted.length > 0) {
+    for (const { memory, archived } of redacted) {
+      // Archived memories can't be edited in place
+      if (archived) await store.restore(memory.id);
+      // Stored whole, as relationships can't be patched
+      await store.store(memory);
+      if (archived) await store.archive(memory.id);
+    }
+    report.fixed = true;
+  }
+
+  return report;
+}
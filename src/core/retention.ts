@@ -0,0 +1,66 @@
+import { BaseMemory, EnhancedMemory } from './types.js';
+
+export type Persistence = EnhancedMemory['persistence'];
+
+export interface RetentionPolicy {
+  // Days for the recency term to halve; defaults to 30
+  halfLifeDays?: number;
+  // Relative weights of the three terms; defaults to 0.4 / 0.4 / 0.2
+  weights?: {
+    importance?: number;
+    recency?: number;
+    frequency?: number;
+  };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Any memory can carry persistence info, not just EnhancedMemory
+export function getPersistence(memory: BaseMemory): Persistence | undefined {
+  return (memory as Partial<EnhancedMemory>).persistence;
+}
+
+export function isExpired(persistence: Persistence | undefined, now: number = Date.now()): boolean {
+  if (!persistence?.expiresAt) return false;
+  const expiresAt = Date.parse(persistence.expiresAt);
+  return !Number.isNaN(expiresAt) && expiresAt <= now;
+}
+
+// How much a memory is worth keeping, in [0, 1]. Combines importance,
+// recency (exponential decay since it was last stored or read) and how often
+// it has been read. Each term saturates, so no single one dominates.
+export function decayScore(
+  metadata: BaseMemory['metadata'],
+  persistence: Persistence | undefined,
+  policy: RetentionPolicy = {},
+  now: number = Date.now()
+): number {
+  const halfLife = (policy.halfLifeDays ?? 30) * DAY;
+  const weights = {
+    importance: policy.weights?.importance ?? 0.4,
+    recency: policy.weights?.recency ?? 0.4,
+    frequency: policy.weights?.frequency ?? 0.2
+  };
+
+  const importance = Math.max(metadata.importance ?? persistence?.priority ?? 0, 0);
+  const importanceTerm = importance / (importance + 1);
+
+  const lastSeen = Math.max(
+    Date.parse(metadata.timestamp) || 0,
+    Date.parse(persistence?.lastAccessed ?? '') || 0
+  );
+  const age = Math.max(now - lastSeen, 0);
+  const recencyTerm = Math.pow(0.5, age / halfLife);
+
+  const accessCount = persistence?.accessCount ?? 0;
+  const frequencyTerm = accessCount / (accessCount + 1);
+
+  const total = weights.importance + weights.recency + weights.frequency;
+  if (total <= 0) return 0;
+
+  return (
+    weights.importance * importanceTerm +
+    weights.recency * recencyTerm +
+    weights.frequency * frequencyTerm
+  ) / total;
+}
@@ -0,0 +1,1028 @@
+import fs from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { BaseContext, BaseMemory } from './types.js';
+import { Embedder, HashingEmbedder, cosineSimilarity } from './embedding.js';
+import { TOKENIZER_VERSION, tokenize } from './tokenize.js';
+import { MemoryFilter, matchesFilter } from './filter.js';
+import { Persistence, decayScore, getPersistence, isExpired } from './retention.js';
+import { Edge, EdgeSource, RelationType, RELATION_TYPES, getLinks, walkEdges, withLinks } from './graph.js';
+import { ContextStorage, checkVersion } from './context.js';
+import { writeFileAtomic } from './files.js';
+import { Cipher, DecryptionError } from './crypto.js';
+import {
+  FileStoreOptions,
+  ListOptions,
+  ListPage,
+  MemoryPatch,
+  Neighborhood,
+  PruneOptions,
+  RelatedMemory,
+  RelatedOptions,
+  SearchMode,
+  SearchOptions,
+  SearchPage,
+  SearchResult,
+  Store,
+  IntegrityReport,
+  VerifyOptions,
+  applyPatch,
+  decodeCursor,
+  encodeCursor,
+  searchText
+} from './store.js';
+import { log } from './log.js';
+
+// Everything lives in <baseDir>/memories.db:
+//
+//   settings        key -> value, e.g. the embedder, tokenizer and key that built the indexes
+//   memories        one row per memory; filterable metadata is copied into columns
+//   topics          memory id -> lowercased topic, for topic filters
+//   links           typed edges, indexed both ways for back-links
+//   embeddings      vectors of live memories for semantic search
+//   memory_text     FTS5 table over tokenized content, topics and category
+//   contexts        one row per context
+//
+// Archived memories keep their row (archived = 1) but are dropped from
+// embeddings and memory_text, so they aren't searchable until restored.
+// Every write runs in an immediate transaction together with the reads it
+// depends on.
+//
+// With a key, content, metadata, relationships, extra, contexts and
+// embeddings are encrypted, and topics, category and FTS terms hold keyed
+// hashes so equality lookups still work.
+export const DB_FILE = 'memories.db';
+// Rows repair couldn't parse are written here as JSON before being dropped
+const QUARANTINE_DIR = 'quarantine';
+const SCHEMA_VERSION = 1;
+// update() starts over when the memory's text changes under it; give up after this many tries
+const MAX_UPDATE_ATTEMPTS = 5;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS memories (
+    seq INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    importance REAL,
+    category TEXT,
+    source TEXT,
+    metadata TEXT NOT NULL,
+    persistence TEXT,
+    relationships TEXT,
+    -- Any other top-level fields, e.g. contextType
+    extra TEXT,
+    expires_at TEXT,
+    archived INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS memories_by_time ON memories (archived, timestamp);
+  CREATE INDEX IF NOT EXISTS memories_by_type ON memories (archived, type, timestamp);
+  CREATE INDEX IF NOT EXISTS memories_by_expiry ON memories (expires_at) WHERE expires_at IS NOT NULL;
+
+  CREATE TABLE IF NOT EXISTS topics (
+    memory_id TEXT NOT NULL,
+    topic TEXT NOT NULL,
+    PRIMARY KEY (memory_id, topic)
+  );
+  CREATE INDEX IF NOT EXISTS topics_by_topic ON topics (topic);
+
+  CREATE TABLE IF NOT EXISTS links (
+    source_id TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    PRIMARY KEY (source_id, type, target_id)
+  );
+  CREATE INDEX IF NOT EXISTS links_by_target ON links (target_id);
+
+  CREATE TABLE IF NOT EXISTS embeddings (
+    seq INTEGER PRIMARY KEY,
+    vector BLOB NOT NULL
+  );
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS memory_text USING fts5(
+    terms,
+    tokenize = "unicode61 remove_diacritics 0 tokenchars '_$'"
+  );
+
+  CREATE TABLE IF NOT EXISTS contexts (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    last_update TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+`;
+
+interface MemoryRow {
+  seq: number;
+  id: string;
+  content: string;
+  metadata: string;
+  persistence: string | null;
+  relationships: string | null;
+  extra: string | null;
+}
+
+// Memory columns that are encrypted, or blinded for lookups, with a key
+interface SealedColumns {
+  content: string;
+  category: string | null;
+  metadata: string;
+  relationships: string | null;
+  extra: string | null;
+}
+
+interface FilterRow {
+  id: string;
+  metadata: string;
+  persistence: string | null;
+}
+
+export type SqliteStoreOptions = FileStoreOptions;
+
+// SQLite-backed store, for namespaces that have outgrown a directory of JSON
+// files. Keyword search runs on FTS5 over the same terms tokenize() gives
+// FileStore, so both backends rank alike.
+export class SqliteStore<T extends BaseMemory> implements Store<T> {
+  private baseDir: string;
+  private db: Database.Database | null = null;
+  private initializing: Promise<void> | null = null;
+  private embedder: Embedder;
+  // Embeddings of live memories, kept so semantic search doesn't decode
+  // every row per query. Reloaded when another connection has written since
+  // (data_version changed) or a transaction of ours rolled back (null).
+  private vectors = new Map<string, number[]>();
+  private vectorsVersion: number | null = null;
+  private minScore: number;
+  private searchMode: SearchMode;
+  private cipher: Cipher;
+
+  // Contexts are kept in the same database as the memories they point at
+  readonly contexts: ContextStorage;
+
+  constructor(baseDir: string, options: SqliteStoreOptions = {}) {
+    this.baseDir = baseDir;
+    this.embedder = options.embedder ?? new HashingEmbedder();
+    this.minScore = options.minScore ?? 0.1;
+    this.searchMode = options.searchMode ?? 'hybrid';
+    this.cipher = options.cipher ?? new Cipher(null);
+
+    this.contexts = {
+      load: async id => {
+        await this.initialize();
+        const row = this.connection().prepare('SELECT data FROM contexts WHERE id = ?').get(id) as
+          { data: string } | undefined;
+        return row ? JSON.parse(this.cipher.decrypt(row.data)) as BaseContext : null;
+      },
+      save: async context => {
+        await this.initialize();
+        const db = this.connection();
+        // Check and write in one transaction so concurrent saves can't both win
+        context.metadata.version = this.transaction(() => {
+          const row = db.prepare('SELECT data FROM contexts WHERE id = ?').get(context.id) as
+            { data: string } | undefined;
+          const version = checkVersion(context, row ? JSON.parse(this.cipher.decrypt(row.data)) : null) + 1;
+          const saved = { ...context, metadata: { ...context.metadata, version } };
+          db.prepare(`
+            INSERT INTO contexts (id, type, last_update, data) VALUES (?, ?, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET type = excluded.type, last_update = excluded.last_update, data = excluded.data
+          `).run(context.id, context.metadata.type, context.metadata.lastUpdate, this.cipher.encrypt(JSON.stringify(saved)));
+          return version;
+        });
+      },
+      delete: async id => {
+        await this.initialize();
+        this.connection().prepare('DELETE FROM contexts WHERE id = ?').run(id);
+      },
+      list: async () => {
+        await this.initialize();
+        const rows = this.connection().prepare('SELECT id FROM contexts ORDER BY id').all() as Array<{ id: string }>;
+        return rows.map(row => row.id);
+      },
+      verify: async (options = {}) => {
+        await this.initialize();
+        const db = this.connection();
+        const report: IntegrityReport = { checked: 0, issues: [], repaired: false };
+        const corrupt: Array<{ id: string; data: string }> = [];
+
+        for (const row of db.prepare('SELECT id, data FROM contexts').all() as Array<{ id: string; data: string }>) {
+          report.checked++;
+          try {
+            const context = JSON.parse(this.cipher.decrypt(row.data));
+            if (!Array.isArray(context?.activeMemories) || typeof context.metadata !== 'object') {
+              throw new Error('not a context');
+            }
+          } catch (error) {
+            if (error instanceof DecryptionError) throw error;
+            report.issues.push({ file: `contexts/${row.id}`, problem: `corrupt row: ${(error as Error).message}` });
+            corrupt.push(row);
+          }
+        }
+
+        if (options.repair && corrupt.length > 0) {
+          for (const row of corrupt) {
+            await this.quarantineRow('contexts', row.id, row);
+            db.prepare('DELETE FROM contexts WHERE id = ?').run(row.id);
+          }
+          report.repaired = true;
+        }
+        return report;
+      }
+    };
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.setup().catch(error => {
+        this.initializing = null;
+        throw error;
+      });
+    }
+    return this.initializing;
+  }
+
+  private async setup(): Promise<void> {
+    await fs.promises.mkdir(this.baseDir, { recursive: true });
+    // Loaded here so the native module is only needed by sqlite namespaces
+    const { default: Database } = await import('better-sqlite3');
+    const db = new Database(path.join(this.baseDir, DB_FILE));
+    try {
+      db.pragma('journal_mode = WAL');
+      // Wait for other processes' write transactions instead of failing
+      db.pragma('busy_timeout = 5000');
+      db.exec(SCHEMA);
+      this.db = db;
+      await this.reindexIfStale();
+      this.loadVectors();
+      this.archiveExpired();
+    } catch (error) {
+      this.db = null;
+      db.close();
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.initializing = null;
+    this.vectors.clear();
+    this.vectorsVersion = null;
+  }
+
+  async store(memory: T): Promise<void> {
+    await this.initialize();
+    const vector = await this.embedder.embed(searchText(memory));
+    this.transaction(() => this.writeMemory(memory, vector));
+  }
+
+  async has(id: string): Promise<boolean> {
+    await this.initialize();
+    return this.connection().prepare('SELECT 1 FROM memories WHERE id = ?').get(id) !== undefined;
+  }
+
+  async find(id: string): Promise<T | null> {
+    await this.initialize();
+    return this.readMemory(id, false);
+  }
+
+  // Ranked by FTS5 alone, so it works without embeddings
+  async findSimilar(content: string, limit: number = 5): Promise<T[]> {
+    const { results } = await this.search(content, { limit, mode: 'keyword' });
+    return results.map(result => result.memory);
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchPage<T>> {
+    await this.initialize();
+    this.archiveExpired();
+
+    const limit = options.limit ?? 5;
+    const minScore = options.minScore ?? this.minScore;
+    const mode = options.mode ?? this.searchMode;
+    const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+    if (offset === null) {
+      throw new Error(`Invalid cursor: ${options.cursor}`);
+    }
+
+    const allowed = options.filter ? new Set(this.filteredIds(options.filter, false)) : null;
+    const eligible = (id: string) => allowed === null || allowed.has(id);
+
+    const scores = new Map<string, number>();
+
+    if (mode !== 'keyword') {
+      const weight = mode === 'hybrid' ? 0.5 : 1;
+      const target = await this.embedder.embed(query);
+      this.syncVectors();
+      for (const [id, vector] of this.vectors) {
+        if (!eligible(id)) continue;
+        scores.set(id, weight * Math.max(cosineSimilarity(target, vector), 0));
+      }
+    }
+
+    if (mode !== 'semantic') {
+      const weight = mode === 'hybrid' ? 0.5 : 1;
+      const matches = this.keywordMatches(query).filter(match => eligible(match.id));
+      // BM25 is unbounded, so scale relative to the best match
+      const best = matches[0]?.score || 1;
+      for (const { id, score } of matches) {
+        scores.set(id, (scores.get(id) ?? 0) + weight * score / best);
+      }
+    }
+
+    const ranked = Array.from(scores, ([id, score]) => ({ id, score }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+
+    const results: SearchResult<T>[] = [];
+    for (const { id, score } of ranked.slice(offset, offset + limit)) {
+      const memory = this.readMemory(id, false);
+      if (memory) results.push({ memory, score });
+    }
+
+    return {
+      results,
+      nextCursor: offset + limit < ranked.length ? encodeCursor(offset + limit) : undefined
+    };
+  }
+
+  async list(options: ListOptions = {}): Promise<ListPage<T>> {
+    await this.initialize();
+    this.archiveExpired();
+
+    const limit = options.limit ?? 20;
+    const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+    if (offset === null) {
+      throw new Error(`Invalid cursor: ${options.cursor}`);
+    }
+
+    const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+    const order = options.sortBy === 'importance'
+      ? `COALESCE(importance, 0) ${direction}, timestamp ${direction}`
+      : `timestamp ${direction}`;
+    const ids = this.filteredIds(options.filter ?? {}, options.archived ?? false, order);
+
+    const memories: T[] = [];
+    for (const id of ids.slice(offset, offset + limit)) {
+      const memory = this.readMemory(id, options.archived ?? false);
+      if (memory) memories.push(memory);
+    }
+
+    return {
+      memories,
+      nextCursor: offset + limit < ids.length ? encodeCursor(offset + limit) : undefined
+    };
+  }
+
+  async update(id: string, patch: MemoryPatch): Promise<T | null> {
+    await this.initialize();
+
+    // Embedding is async and transactions aren't, so the text the update would
+    // produce is embedded first. The transaction then patches a fresh read and
+    // starts over if that text has changed meanwhile.
+    for (let attempt = 1; ; attempt++) {
+      const existing = this.readMemory(id, false);
+      if (!existing) return null;
+      const text = searchText(applyPatch(existing, patch));
+      const vector = await this.embedder.embed(text);
+
+      const updated = this.transaction(() => {
+        const current = this.readMemory(id, false);
+        if (!current) return null;
+
+        const patched = applyPatch(current, patch);
+        if (searchText(patched) !== text) return undefined;
+        this.writeMemory(patched, vector);
+        return patched;
+      });
+      if (updated !== undefined) return updated;
+
+      if (attempt >= MAX_UPDATE_ATTEMPTS) {
+        throw new Error(`Memory ${id} kept changing during the update`);
+      }
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+
+    this.transaction(() => {
+      // Drop edges pointing at the memory, archived sources included
+      const backlinks = this.connection()
+        .prepare('SELECT source_id AS source, type FROM links WHERE target_id = ? AND source_id != ?')
+        .all(id, id) as Array<{ source: string; type: RelationType }>;
+      for (const { source, type } of backlinks) {
+        const memory = this.readMemory(source, null);
+        if (!memory) continue;
+        const targets = (getLinks(memory)?.[type] ?? []).filter(target => target !== id);
+        this.writeLinks(withLinks(memory, type, targets));
+      }
+
+      const row = this.connection().prepare('SELECT seq FROM memories WHERE id = ?').get(id) as
+        { seq: number } | undefined;
+      if (!row) return;
+
+      this.unindex(row.seq, id);
+      this.connection().prepare('DELETE FROM topics WHERE memory_id = ?').run(id);
+      this.connection().prepare('DELETE FROM links WHERE source_id = ?').run(id);
+      this.connection().prepare('DELETE FROM memories WHERE seq = ?').run(row.seq);
+    });
+  }
+
+  async touch(ids: string[]): Promise<void> {
+    await this.initialize();
+
+    const now = new Date().toISOString();
+    const select = this.connection().prepare(
+      'SELECT metadata, persistence FROM memories WHERE id = ? AND archived = 0'
+    );
+    const save = this.connection().prepare(
+      'UPDATE memories SET persistence = ?, expires_at = ? WHERE id = ?'
+    );
+
+    // Content is unchanged, so the search indexes don't need touching
+    this.transaction(() => {
+      for (const id of new Set(ids)) {
+        const row = select.get(id) as { metadata: string; persistence: string | null } | undefined;
+        if (!row) continue;
+
+        const existing = row.persistence ? JSON.parse(row.persistence) : undefined;
+        const persistence: Persistence = {
+          priority: JSON.parse(this.cipher.decrypt(row.metadata)).importance ?? 0,
+          ...existing,
+          lastAccessed: now,
+          accessCount: (existing?.accessCount ?? 0) + 1
+        };
+        save.run(JSON.stringify(persistence), persistence.expiresAt ?? null, id);
+      }
+    });
+  }
+
+  async archive(id: string): Promise<boolean> {
+    await this.initialize();
+    return this.transaction(() => this.moveToArchive(id));
+  }
+
+  async restore(id: string): Promise<T | null> {
+    await this.initialize();
+
+    const memory = this.readMemory(id, true);
+    if (!memory) return null;
+
+    const persistence = getPersistence(memory);
+    // A restored memory shouldn't expire again straight away
+    let restored = memory;
+    if (persistence?.expiresAt && isExpired(persistence)) {
+      const { expiresAt, ...rest } = persistence;
+      restored = { ...memory, persistence: rest } as T;
+    }
+
+    const vector = await this.embedder.embed(searchText(restored));
+    this.transaction(() => this.writeMemory(restored, vector));
+    return restored;
+  }
+
+  async expire(): Promise<string[]> {
+    await this.initialize();
+    return this.archiveExpired();
+  }
+
+  async prune(options: PruneOptions): Promise<string[]> {
+    await this.initialize();
+    this.archiveExpired();
+
+    const now = Date.now();
+    const rows = this.connection()
+      .prepare('SELECT id, metadata, persistence FROM memories WHERE archived = 0')
+      .all() as FilterRow[];
+    const scored = rows
+      .map(row => ({
+        id: row.id,
+        score: decayScore(
+          JSON.parse(this.cipher.decrypt(row.metadata)),
+          row.persistence ? JSON.parse(row.persistence) : undefined,
+          options.policy,
+          now
+        )
+      }))
+      .sort((a, b) => a.score - b.score);
+
+    const victims = new Set<string>();
+    if (options.minScore !== undefined) {
+      scored
+        .filter(({ score }) => score < options.minScore!)
+        .forEach(({ id }) => victims.add(id));
+    }
+    if (options.targetSize !== undefined) {
+      scored
+        .slice(0, Math.max(scored.length - options.targetSize, 0))
+        .forEach(({ id }) => victims.add(id));
+    }
+
+    if (!options.dryRun) {
+      this.transaction(() => {
+        for (const id of victims) {
+          this.moveToArchive(id);
+        }
+      });
+    }
+    return Array.from(victims);
+  }
+
+  async link(from: string, to: string, type: RelationType): Promise<T | null> {
+    await this.initialize();
+
+    return this.transaction(() => {
+      const source = this.readMemory(from, false);
+      if (!source || !this.isLive(to)) return null;
+
+      const targets = getLinks(source)?.[type] ?? [];
+      if (targets.includes(to)) return source;
+
+      const linked = withLinks(source, type, [...targets, to]);
+      this.writeLinks(linked);
+      return linked;
+    });
+  }
+
+  async unlink(from: string, to: string, type?: RelationType): Promise<RelationType[]> {
+    await this.initialize();
+
+    return this.transaction(() => {
+      const removed = this.edgesFrom(from)
+        .filter(edge => edge.to === to && (type === undefined || edge.type === type))
+        .map(edge => edge.type);
+      if (removed.length === 0) return [];
+
+      let source = this.readMemory(from, false);
+      if (!source) return [];
+      for (const removedType of removed) {
+        const targets: string[] = (getLinks(source)?.[removedType] ?? []).filter(target => target !== to);
+        source = withLinks(source, removedType, targets);
+      }
+      this.writeLinks(source);
+      return removed;
+    });
+  }
+
+  async related(id: string, options: RelatedOptions = {}): Promise<Neighborhood<T> | null> {
+    await this.initialize();
+    if (!this.isLive(id)) return null;
+
+    const graph: EdgeSource = {
+      edgesFrom: memoryId => this.edgesFrom(memoryId),
+      edgesTo: memoryId => this.edgesTo(memoryId)
+    };
+    const { depths, edges } = walkEdges(
+      graph,
+      id,
+      {
+        depth: options.depth ?? 1,
+        types: options.types,
+        direction: options.direction,
+        maxNodes: (options.limit ?? 50) + 1
+      },
+      neighbor => this.isLive(neighbor)
+    );
+
+    const memories: RelatedMemory<T>[] = [];
+    for (const [memoryId, depth] of depths) {
+      const memory = this.readMemory(memoryId, false);
+      if (memory) memories.push({ memory, depth });
+    }
+    return { memories, edges };
+  }
+
+  async verify(options: VerifyOptions = {}): Promise<IntegrityReport> {
+    await this.initialize();
+    const db = this.connection();
+    const report: IntegrityReport = { checked: 0, issues: [], repaired: false };
+
+    for (const { integrity_check: result } of db.pragma('integrity_check') as Array<{ integrity_check: string }>) {
+      if (result !== 'ok') report.issues.push({ file: DB_FILE, problem: result });
+    }
+    try {
+      db.prepare(`INSERT INTO memory_text (memory_text) VALUES ('integrity-check')`).run();
+    } catch (error) {
+      report.issues.push({ file: 'memory_text', problem: (error as Error).message });
+    }
+
+    const corrupt: MemoryRow[] = [];
+    for (const row of db.prepare('SELECT * FROM memories').all() as MemoryRow[]) {
+      report.checked++;
+      try {
+        this.toMemory(row);
+      } catch (error) {
+        if (error instanceof DecryptionError) throw error;
+        report.issues.push({ file: `memories/${row.id}`, problem: `corrupt row: ${(error as Error).message}` });
+        corrupt.push(row);
+      }
+    }
+
+    const count = (sql: string) => (db.prepare(sql).get() as { n: number }).n;
+    const live = count('SELECT COUNT(*) AS n FROM memories WHERE archived = 0');
+    if (count('SELECT COUNT(*) AS n FROM memory_text') !== live) {
+      report.issues.push({ file: 'memory_text', problem: 'keyword index is out of date' });
+    }
+    if (count('SELECT COUNT(*) AS n FROM embeddings') !== live) {
+      report.issues.push({ file: 'embeddings', problem: 'embeddings are out of date' });
+    }
+
+    if (options.repair && report.issues.length > 0) {
+      for (const row of corrupt) {
+        await this.quarantineRow('memories', row.id, row);
+        this.transaction(() => {
+          this.unindex(row.seq, row.id);
+          db.prepare('DELETE FROM topics WHERE memory_id = ?').run(row.id);
+          db.prepare('DELETE FROM links WHERE source_id = ?').run(row.id);
+          db.prepare('DELETE FROM memories WHERE seq = ?').run(row.seq);
+        });
+      }
+
+      // Forget which tokenizer and embedder built the indexes so they're rebuilt
+      db.prepare(`DELETE FROM settings WHERE key IN ('tokenizer', 'embedder')`).run();
+      db.exec('REINDEX');
+      await this.reindexIfStale();
+      this.loadVectors();
+      report.repaired = true;
+    }
+
+    return report;
+  }
+
+  // Saves a row repair is about to drop to quarantine/<table>/<id>.json
+  private async quarantineRow(table: string, id: string, row: object): Promise<void> {
+    const file = path.join(this.baseDir, QUARANTINE_DIR, table, `${encodeURIComponent(id)}.json`);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await writeFileAtomic(file, JSON.stringify(row, null, 2));
+    log.warn(`Quarantined unreadable ${table} row ${id} as ${file}`);
+  }
+
+  private connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SqliteStore used before initialize()');
+    }
+    return this.db;
+  }
+
+  // Immediate: the write lock is taken up front, so whatever fn reads can't
+  // change before it writes, and a busy database is waited for rather than
+  // failing part way
+  private transaction<R>(fn: () => R): R {
+    try {
+      return this.connection().transaction(fn).immediate();
+    } catch (error) {
+      // fn may have changed the vector cache before the rollback
+      this.vectorsVersion = null;
+      throw error;
+    }
+  }
+
+  private edgesFrom(id: string): Edge[] {
+    return this.connection()
+      .prepare('SELECT source_id AS "from", target_id AS "to", type FROM links WHERE source_id = ?')
+      .all(id) as Edge[];
+  }
+
+  private edgesTo(id: string): Edge[] {
+    return this.connection()
+      .prepare('SELECT source_id AS "from", target_id AS "to", type FROM links WHERE target_id = ?')
+      .all(id) as Edge[];
+  }
+
+  private isLive(id: string): boolean {
+    return this.connection().prepare('SELECT 1 FROM memories WHERE id = ? AND archived = 0').get(id) !== undefined;
+  }
+
+  // archived: false for live memories, true for the archive tier, null for either
+  private readMemory(id: string, archived: boolean | null): T | null {
+    const row = (archived === null
+      ? this.connection().prepare('SELECT * FROM memories WHERE id = ?').get(id)
+      : this.connection().prepare('SELECT * FROM memories WHERE id = ? AND archived = ?').get(id, archived ? 1 : 0)
+    ) as MemoryRow | undefined;
+    return row ? this.toMemory(row) : null;
+  }
+
+  private toMemory(row: MemoryRow): T {
+    const open = (value: string) => JSON.parse(this.cipher.decrypt(value));
+    return {
+      ...(row.extra ? open(row.extra) : {}),
+      id: row.id,
+      content: this.cipher.decrypt(row.content),
+      metadata: open(row.metadata),
+      ...(row.persistence ? { persistence: JSON.parse(row.persistence) } : {}),
+      ...(row.relationships ? { relationships: open(row.relationships) } : {})
+    };
+  }
+
+  // The columns of a memory row that are encrypted or blinded with a key
+  private sealedColumns(memory: T): SealedColumns {
+    const { id, content, metadata, persistence, relationships, ...extra } =
+      memory as T & { persistence?: Persistence; relationships?: unknown };
+    const seal = (value: unknown) => this.cipher.encrypt(JSON.stringify(value));
+    return {
+      content: this.cipher.encrypt(content),
+      category: typeof metadata.category === 'string' ? this.cipher.blind(metadata.category) : null,
+      metadata: seal(metadata),
+      relationships: relationships ? seal(relationships) : null,
+      extra: Object.keys(extra).length > 0 ? seal(extra) : null
+    };
+  }
+
+  private writeTopics(memory: T): void {
+    const db = this.connection();
+    db.prepare('DELETE FROM topics WHERE memory_id = ?').run(memory.id);
+    const addTopic = db.prepare('INSERT OR IGNORE INTO topics (memory_id, topic) VALUES (?, ?)');
+    for (const topic of memory.metadata.topics ?? []) {
+      addTopic.run(memory.id, this.cipher.blind(topic.toLowerCase()));
+    }
+  }
+
+  // What memory_text holds for a memory
+  private searchTerms(memory: T): string {
+    return tokenize(searchText(memory)).map(term => this.cipher.blind(term)).join(' ');
+  }
+
+  // Upserts a live memory and its topics, links and search entries
+  private writeMemory(memory: T, vector: number[]): void {
+    const { id, metadata, persistence } = memory as T & { persistence?: Persistence };
+    if (typeof id !== 'string' || id.length === 0) {
+      throw new Error(`Invalid memory id: ${id}`);
+    }
+    if (typeof metadata?.type !== 'string') {
+      throw new Error(`Invalid memory type: ${metadata?.type}`);
+    }
+
+    const db = this.connection();
+    const sealed = this.sealedColumns(memory);
+    const { seq } = db.prepare(`
+      INSERT INTO memories (
+        id, type, content, timestamp, importance, category, source,
+        metadata, persistence, relationships, extra, expires_at, archived
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
+      ON CONFLICT (id) DO UPDATE SET
+        type = excluded.type, content = excluded.content, timestamp = excluded.timestamp,
+        importance = excluded.importance, category = excluded.category, source = excluded.source,
+        metadata = excluded.metadata, persistence = excluded.persistence,
+        relationships = excluded.relationships, extra = excluded.extra,
+        expires_at = excluded.expires_at, archived = 0
+      RETURNING seq
+    `).get(
+      id,
+      metadata.type,
+      sealed.content,
+      metadata.timestamp,
+      metadata.importance ?? null,
+      sealed.category,
+      metadata.source ?? null,
+      sealed.metadata,
+      persistence ? JSON.stringify(persistence) : null,
+      sealed.relationships,
+      sealed.extra,
+      persistence?.expiresAt ?? null
+    ) as { seq: number };
+
+    this.writeTopics(memory);
+    this.replaceLinks(memory);
+
+    db.prepare('DELETE FROM memory_text WHERE rowid = ?').run(seq);
+    db.prepare('INSERT INTO memory_text (rowid, terms) VALUES (?, ?)').run(seq, this.searchTerms(memory));
+
+    db.prepare('INSERT OR REPLACE INTO embeddings (seq, vector) VALUES (?, ?)').run(seq, this.encodeVector(vector));
+    this.vectors.set(id, vector);
+  }
+
+  // Saves a memory whose relationships changed, leaving its tier and search
+  // entries alone
+  private writeLinks(memory: T): void {
+    const { relationships } = memory as T & { relationships?: unknown };
+    this.connection()
+      .prepare('UPDATE memories SET relationships = ? WHERE id = ?')
+      .run(relationships ? this.cipher.encrypt(JSON.stringify(relationships)) : null, memory.id);
+    this.replaceLinks(memory);
+  }
+
+  private replaceLinks(memory: T): void {
+    const db = this.connection();
+    db.prepare('DELETE FROM links WHERE source_id = ?').run(memory.id);
+    const addLink = db.prepare('INSERT OR IGNORE INTO links (source_id, target_id, type) VALUES (?, ?, ?)');
+    const links = getLinks(memory);
+    for (const type of RELATION_TYPES) {
+      for (const target of links?.[type] ?? []) {
+        addLink.run(memory.id, target, type);
+      }
+    }
+  }
+
+  private moveToArchive(id: string): boolean {
+    const row = this.connection().prepare('SELECT seq FROM memories WHERE id = ? AND archived = 0').get(id) as
+      { seq: number } | undefined;
+    if (!row) return false;
+
+    this.connection().prepare('UPDATE memories SET archived = 1 WHERE seq = ?').run(row.seq);
+    this.unindex(row.seq, id);
+    return true;
+  }
+
+  private unindex(seq: number, id: string): void {
+    this.connection().prepare('DELETE FROM memory_text WHERE rowid = ?').run(seq);
+    this.connection().prepare('DELETE FROM embeddings WHERE seq = ?').run(seq);
+    this.vectors.delete(id);
+  }
+
+  private archiveExpired(): string[] {
+    const now = Date.now();
+    const rows = this.connection()
+      .prepare('SELECT id, persistence FROM memories WHERE archived = 0 AND expires_at IS NOT NULL')
+      .all() as Array<{ id: string; persistence: string }>;
+    const expired = rows
+      .filter(row => isExpired(JSON.parse(row.persistence), now))
+      .map(row => row.id);
+
+    if (expired.length > 0) {
+      this.transaction(() => {
+        for (const id of expired) {
+          this.moveToArchive(id);
+        }
+      });
+    }
+    return expired;
+  }
+
+  // Ids of memories in one tier matching a filter, in the given SQL order.
+  // Indexed columns narrow the candidates; matchesFilter has the last word.
+  private filteredIds(filter: MemoryFilter, archived: boolean, order: string = 'seq'): string[] {
+    const clauses = ['archived = ?'];
+    const params: unknown[] = [archived ? 1 : 0];
+
+    if (filter.type) {
+      clauses.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.category !== undefined) {
+      clauses.push('category = ?');
+      params.push(this.cipher.blind(filter.category));
+    }
+    if (filter.source !== undefined) {
+      clauses.push('source = ?');
+      params.push(filter.source);
+    }
+    if (filter.minImportance !== undefined) {
+      clauses.push('COALESCE(importance, 0) >= ?');
+      params.push(filter.minImportance);
+    }
+    if (filter.ids) {
+      clauses.push('id IN (SELECT value FROM json_each(?))');
+      params.push(JSON.stringify(filter.ids));
+    }
+    for (const topic of filter.topics ?? []) {
+      clauses.push('EXISTS (SELECT 1 FROM topics WHERE memory_id = memories.id AND topic = ?)');
+      params.push(this.cipher.blind(topic.toLowerCase()));
+    }
+
+    const rows = this.connection()
+      .prepare(`SELECT id, metadata FROM memories WHERE ${clauses.join(' AND ')} ORDER BY ${order}`)
+      .all(...params) as FilterRow[];
+    return rows
+      .filter(row => matchesFilter(row.id, JSON.parse(this.cipher.decrypt(row.metadata)), filter))
+      .map(row => row.id);
+  }
+
+  // FTS5 matches for any query term, best first, scored by -bm25 so higher
+  // is better
+  private keywordMatches(query: string): Array<{ id: string; score: number }> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const match = terms.map(term => `"${this.cipher.blind(term).replace(/"/g, '""')}"`).join(' OR ');
+    return this.connection().prepare(`
+      SELECT memories.id AS id, -bm25(memory_text) AS score
+      FROM memory_text JOIN memories ON memories.seq = memory_text.rowid
+      WHERE memory_text MATCH ?
+      ORDER BY score DESC
+    `).all(match) as Array<{ id: string; score: number }>;
+  }
+
+  // Reloads the vector cache if it may be stale
+  private syncVectors(): void {
+    if (this.connection().pragma('data_version', { simple: true }) !== this.vectorsVersion) {
+      this.loadVectors();
+    }
+  }
+
+  private loadVectors(): void {
+    this.vectorsVersion = this.connection().pragma('data_version', { simple: true }) as number;
+    this.vectors.clear();
+    const rows = this.connection().prepare(`
+      SELECT memories.id AS id, embeddings.vector AS vector
+      FROM embeddings JOIN memories ON memories.seq = embeddings.seq
+      WHERE memories.archived = 0
+    `).all() as Array<{ id: string; vector: Buffer }>;
+    for (const { id, vector } of rows) {
+      this.vectors.set(id, decodeVector(this.cipher.decryptBytes(vector)));
+    }
+  }
+
+  private encodeVector(vector: number[]): Buffer {
+    return this.cipher.encryptBytes(Buffer.from(new Float32Array(vector).buffer));
+  }
+
+  // Rebuilds the FTS and embedding tables when the tokenizer, embedder or key
+  // that built them has changed
+  private async reindexIfStale(): Promise<void> {
+    const db = this.connection();
+    const setting = (key: string) =>
+      (db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined)?.value;
+    const saveSetting = db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)');
+
+    const schema = setting('schema');
+    if (schema !== undefined && Number(schema) > SCHEMA_VERSION) {
+      throw new Error(`${DB_FILE} was written by a newer version (schema ${schema})`);
+    }
+    saveSetting.run('schema', String(SCHEMA_VERSION));
+
+    const key = setting('key') ?? 'none';
+    const rekeyed = key !== this.cipher.keyId;
+    if (rekeyed) {
+      this.rekey(key);
+    }
+
+    const rows = () => db.prepare('SELECT * FROM memories WHERE archived = 0').all() as MemoryRow[];
+
+    if (setting('tokenizer') !== String(TOKENIZER_VERSION)) {
+      this.transaction(() => {
+        db.prepare('DELETE FROM memory_text').run();
+        const insert = db.prepare('INSERT INTO memory_text (rowid, terms) VALUES (?, ?)');
+        for (const row of rows()) {
+          insert.run(row.seq, this.searchTerms(this.toMemory(row)));
+        }
+        saveSetting.run('tokenizer', String(TOKENIZER_VERSION));
+      });
+    }
+
+    if (setting('embedder') !== this.embedder.id) {
+      const vectors: Array<[number, number[]]> = [];
+      for (const row of rows()) {
+        vectors.push([row.seq, await this.embedder.embed(searchText(this.toMemory(row)))]);
+      }
+      this.transaction(() => {
+        db.prepare('DELETE FROM embeddings').run();
+        const insert = db.prepare('INSERT INTO embeddings (seq, vector) VALUES (?, ?)');
+        for (const [seq, vector] of vectors) {
+          insert.run(seq, this.encodeVector(vector));
+        }
+        saveSetting.run('embedder', this.embedder.id);
+      });
+    }
+
+    if (rekeyed) {
+      // Old terms linger in FTS segments and freed pages until merged and
+      // vacuumed away
+      db.prepare(`INSERT INTO memory_text (memory_text) VALUES ('optimize')`).run();
+      db.exec('VACUUM');
+      db.pragma('wal_checkpoint(TRUNCATE)');
+    }
+  }
+
+  // Re-encrypts every row written under another key (or none), e.g. after
+  // encryption was turned on or the key rotated. The FTS and embedding
+  // tables are left to be rebuilt under the new key.
+  private rekey(previous: string): void {
+    if (!this.cipher.canRead(previous)) {
+      throw new DecryptionError(this.cipher.enabled
+        ? `${DB_FILE} is encrypted with key ${previous}, but the configured key is ${this.cipher.keyId}`
+        : `${DB_FILE} is encrypted with key ${previous}; set DEV_MEMORY_KEY or DEV_MEMORY_KEY_FILE`);
+    }
+
+    const db = this.connection();
+    this.transaction(() => {
+      const update = db.prepare(`
+        UPDATE memories SET content = ?, category = ?, metadata = ?, relationships = ?, extra = ?
+        WHERE seq = ?
+      `);
+      for (const row of db.prepare('SELECT * FROM memories').all() as MemoryRow[]) {
+        const memory = this.toMemory(row);
+        const sealed = this.sealedColumns(memory);
+        update.run(sealed.content, sealed.category, sealed.metadata, sealed.relationships, sealed.extra, row.seq);
+        this.writeTopics(memory);
+      }
+
+      const save = db.prepare('UPDATE contexts SET data = ? WHERE id = ?');
+      for (const row of db.prepare('SELECT id, data FROM contexts').all() as Array<{ id: string; data: string }>) {
+        save.run(this.cipher.encrypt(this.cipher.decrypt(row.data)), row.id);
+      }
+
+      db.prepare(`DELETE FROM settings WHERE key IN ('tokenizer', 'embedder')`).run();
+      db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)').run('key', this.cipher.keyId);
+    });
+  }
+}
+
+function decodeVector(buffer: Buffer): number[] {
+  // Copy first: the buffer may not be aligned for a Float32Array view
+  return Array.from(new Float32Array(Uint8Array.from(buffer).buffer));
+}
@@ -1,98 +1,1036 @@
 import fs from 'fs';
 import path from 'path';
 import { BaseMemory } from './types.js';
+import { Embedder, HashingEmbedder } from './embedding.js';
+import { VectorIndex } from './vectors.js';
+import { Bm25Index } from './bm25.js';
+import { MemoryFilter, matchesFilter } from './filter.js';
+import { Persistence, RetentionPolicy, decayScore, getPersistence, isExpired } from './retention.js';
+import { Direction, Edge, LinkIndex, Links, RelationType, getLinks, withLinks } from './graph.js';
+import { FileLock, isTempFile, quarantineFile, writeFileAtomic } from './files.js';
+import { Cipher, DecryptionError } from './crypto.js';
+import { Journal } from './journal.js';
+import { log } from './log.js';
+
+export interface ListOptions {
+  filter?: MemoryFilter;
+  // Defaults to timestamp, newest first
+  sortBy?: 'timestamp' | 'importance';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // Opaque value from a previous page's nextCursor
+  cursor?: string;
+  // List the archive tier instead of live memories
+  archived?: boolean;
+}
+
+export interface ListPage<T extends BaseMemory> {
+  memories: T[];
+  // Present when more memories are available
+  nextCursor?: string;
+}
+
+export interface PruneOptions {
+  // Keep at most this many live memories, archiving the lowest scoring
+  targetSize?: number;
+  // Archive every memory whose decay score is below this
+  minScore?: number;
+  policy?: RetentionPolicy;
+  // Report what would be archived without moving anything
+  dryRun?: boolean;
+}
+
+// Metadata keys set to null are removed; `timestamp` is never changed
+export interface MemoryPatch {
+  content?: string;
+  metadata?: Partial<Record<keyof BaseMemory['metadata'], unknown>> & Record<string, unknown>;
+}
+
+// semantic: embedding cosine similarity; keyword: BM25; hybrid: an even blend of both
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+export interface SearchOptions {
+  limit?: number;
+  // Scores are in [0, 1] for every mode; results below this are dropped
+  minScore?: number;
+  mode?: SearchMode;
+  // Applied before ranking, so `limit` counts only matching memories
+  filter?: MemoryFilter;
+  // Opaque value from a previous page's nextCursor
+  cursor?: string;
+}
+
+export interface SearchResult<T extends BaseMemory> {
+  memory: T;
+  score: number;
+  // Which store the result came from, when several were searched together
+  scope?: string;
+}
+
+export interface SearchPage<T extends BaseMemory> {
+  results: SearchResult<T>[];
+  // Present when more results are available
+  nextCursor?: string;
+}
+
+export interface RelatedOptions {
+  // Hops to follow from the starting memory; defaults to 1
+  depth?: number;
+  // Only follow edges of these types
+  types?: RelationType[];
+  // Follow edges out of, into or both ways through each memory; defaults to both
+  direction?: Direction;
+  // Maximum number of related memories returned; defaults to 50
+  limit?: number;
+}
+
+export interface RelatedMemory<T extends BaseMemory> {
+  memory: T;
+  // Hops from the starting memory
+  depth: number;
+}
+
+export interface VerifyOptions {
+  // Fix what was found instead of only reporting it
+  repair?: boolean;
+}
+
+export interface IntegrityIssue {
+  // Relative to the store's directory, or a table name
+  file: string;
+  problem: string;
+}
+
+export interface IntegrityReport {
+  // Memories (or contexts) examined
+  checked: number;
+  issues: IntegrityIssue[];
+  // True if repair ran; corrupt files are moved to quarantine/, not deleted
+  repaired: boolean;
+}
+
+export interface Neighborhood<T extends BaseMemory> {
+  // Starting memory first, then nearest first
+  memories: RelatedMemory<T>[];
+  edges: Edge[];
+}
 
 // Generic store interface
 export interface Store<T extends BaseMemory> {
   initialize(): Promise<void>;
   store(memory: T): Promise<void>;
   find(id: string): Promise<T | null>;
+  // True if the id is stored, archived or not
+  has(id: string): Promise<boolean>;
   findSimilar(content: string, limit?: number): Promise<T[]>;
+  // Ranked best first
+  search(query: string, options?: SearchOptions): Promise<SearchPage<T>>;
+  list(options?: ListOptions): Promise<ListPage<T>>;
+  // Resolves to the updated memory, or null if there is no such memory
+  update(id: string, patch: MemoryPatch): Promise<T | null>;
   delete(id: string): Promise<void>;
+  // Records that memories were read, for retention scoring
+  touch(ids: string[]): Promise<void>;
+  // Moves a memory out of search and listings into the archive tier
+  archive(id: string): Promise<boolean>;
+  // Brings an archived memory back; null if it isn't archived
+  restore(id: string): Promise<T | null>;
+  // Archives memories past persistence.expiresAt; resolves to their ids
+  expire(): Promise<string[]>;
+  // Archives low-value memories; resolves to their ids
+  prune(options: PruneOptions): Promise<string[]>;
+  // Adds a typed edge; resolves to the updated source memory, or null if
+  // either memory isn't stored
+  link(from: string, to: string, type: RelationType): Promise<T | null>;
+  // Removes edges from one memory to another, of one type or all; resolves to
+  // the types removed
+  unlink(from: string, to: string, type?: RelationType): Promise<RelationType[]>;
+  // Memories linked to id within options.depth hops; null if id isn't stored
+  related(id: string, options?: RelatedOptions): Promise<Neighborhood<T> | null>;
+  // Checks stored data against the indexes; with repair, sets corrupt data
+  // aside and rebuilds the indexes
+  verify(options?: VerifyOptions): Promise<IntegrityReport>;
 }
 
-// File-based store implementation
+// On-disk layout owned by FileStore:
+//
+//   <baseDir>/
+//   ├── interactions/<type>/<id>.json   one file per memory, grouped by MemoryType
+//   ├── metadata/index.json             id -> { file, metadata, persistence, links }
+//   ├── metadata/vectors.json           id -> embedding, tagged with the embedder id
+//   ├── metadata/terms.json             id -> term frequencies for BM25
+//   ├── archive/<type>/<id>.json        pruned and expired memories
+//   ├── metadata/archive.json           index of archive/, same shape as index.json
+//   ├── metadata/<index>.log            changes to <index>.json since it was written
+//   ├── metadata/store.lock             held while a process is writing
+//   ├── quarantine/                     corrupt files set aside by verify/repair
+//   └── logs/
+//
+// The index is the source of truth for lookups by id. It is rebuilt from
+// interactions/ whenever it is missing or unreadable. The vector and term
+// indexes are reconciled against it on startup and rebuilt when the embedder
+// or tokenizer changes. Archived memories are not searchable until restored.
+// Each write appends to the .log journals; the .json snapshots are rewritten
+// once a journal grows as large as its snapshot. Access counts and times are
+// kept in the index alone and reach a memory's file on its next write.
+
+// Metadata is copied into the index so filters and retention scoring can run
+// without reading files, and typed links so back-links can be followed
+interface IndexEntry {
+  file: string; // relative to baseDir
+  metadata: BaseMemory['metadata'];
+  persistence?: Persistence;
+  links?: Links;
+}
+
+interface StoreIndex {
+  version: number;
+  memories: Record<string, IndexEntry>;
+}
+
+const INDEX_VERSION = 4;
+const MEMORY_DIR = 'interactions';
+const ARCHIVE_DIR = 'archive';
+const INDEX_FILE = path.join('metadata', 'index.json');
+const ARCHIVE_INDEX_FILE = path.join('metadata', 'archive.json');
+const VECTOR_FILE = path.join('metadata', 'vectors.json');
+const TERM_FILE = path.join('metadata', 'terms.json');
+const LOCK_FILE = path.join('metadata', 'store.lock');
+
+// Derived per-memory indexes that FileStore keeps in sync with the id index
+interface SearchIndex {
+  load(): Promise<boolean>;
+  // Persists changes since the last save
+  save(): Promise<void>;
+  // Rewrites the whole index
+  compact(): Promise<void>;
+  add(id: string, text: string): Promise<void>;
+  remove(id: string): void;
+  has(id: string): boolean;
+  ids(): string[];
+}
+
+export interface FileStoreOptions {
+  // Defaults to the offline HashingEmbedder
+  embedder?: Embedder;
+  // Default minimum score for search results
+  minScore?: number;
+  // Defaults to 'hybrid'
+  searchMode?: SearchMode;
+  // Encrypts what the store writes; defaults to plaintext
+  cipher?: Cipher;
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+// Returns null for anything that isn't a cursor we produced
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+// What the search indexes see of a memory
+export function searchText(memory: BaseMemory): string {
+  const { topics = [], category } = memory.metadata;
+  return [memory.content, ...topics, category ?? ''].join('\n');
+}
+
+// The memory with a patch applied and lastUpdate stamped
+export function applyPatch<T extends BaseMemory>(memory: T, patch: MemoryPatch): T {
+  const metadata: Record<string, unknown> = { ...memory.metadata };
+  for (const [key, value] of Object.entries(patch.metadata ?? {})) {
+    if (key === 'timestamp') continue;
+    if (value === null) {
+      delete metadata[key];
+    } else if (value !== undefined) {
+      metadata[key] = value;
+    }
+  }
+  metadata.lastUpdate = new Date().toISOString();
+
+  return {
+    ...memory,
+    content: patch.content ?? memory.content,
+    metadata
+  } as T;
+}
+
+export interface NamedStore<T extends BaseMemory> {
+  name: string;
+  store: Store<T>;
+}
+
+// Searches several stores as one ranked list, e.g. a project and the global
+// namespace. Each store is asked for enough results to fill the requested
+// page, and a memory found in more than one store is listed once.
+export async function searchStores<T extends BaseMemory>(
+  stores: NamedStore<T>[],
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchPage<T>> {
+  const limit = options.limit ?? 5;
+  const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+  if (offset === null) {
+    throw new Error(`Invalid cursor: ${options.cursor}`);
+  }
+
+  const pages = await Promise.all(stores.map(({ store }) =>
+    store.search(query, { ...options, limit: offset + limit + 1, cursor: undefined })
+  ));
+
+  const candidates = pages
+    .flatMap((page, i) => page.results.map(result => ({ ...result, scope: stores[i].name })))
+    .sort((a, b) => b.score - a.score);
+
+  const seen = new Set<string>();
+  const ranked: SearchResult<T>[] = [];
+  for (const result of candidates) {
+    if (seen.has(result.memory.id)) continue;
+    seen.add(result.memory.id);
+    ranked.push(result);
+  }
+
+  return {
+    results: ranked.slice(offset, offset + limit),
+    nextCursor: ranked.length > offset + limit ? encodeCursor(offset + limit) : undefined
+  };
+}
+
+// Ids and types become path segments, so keep them to a safe character set
+const SAFE_SEGMENT = /^[A-Za-z0-9._-]+$/;
+
+// File-based store implementation. Every write goes to a temporary file that
+// is renamed into place, and mutations hold <baseDir>/metadata/store.lock so
+// several server processes can share a directory. A process notices another's
+// writes by the index files changing on disk and reloads before using them.
 export class FileStore<T extends BaseMemory> implements Store<T> {
   private baseDir: string;
-  private initialized: boolean = false;
+  private initializing: Promise<void> | null = null;
+  private index: StoreIndex = { version: INDEX_VERSION, memories: {} };
+  private archiveIndex: StoreIndex = { version: INDEX_VERSION, memories: {} };
+  // Changes to the two indexes not yet in their snapshots
+  private journal: Journal<IndexEntry>;
+  private archiveJournal: Journal<IndexEntry>;
+  private vectors: VectorIndex;
+  private keywords: Bm25Index;
+  private links = new LinkIndex();
+  private lock: FileLock;
+  // Identity of the index files as last loaded or written by this process
+  private signature: string | null = null;
+  private minScore: number;
+  private searchMode: SearchMode;
+  private cipher: Cipher;
 
-  constructor(baseDir: string) {
+  constructor(baseDir: string, options: FileStoreOptions = {}) {
     this.baseDir = baseDir;
+    this.cipher = options.cipher ?? new Cipher(null);
+    this.journal = new Journal(path.join(baseDir, INDEX_FILE), this.cipher);
+    this.archiveJournal = new Journal(path.join(baseDir, ARCHIVE_INDEX_FILE), this.cipher);
+    this.vectors = new VectorIndex(
+      path.join(baseDir, VECTOR_FILE),
+      options.embedder ?? new HashingEmbedder(),
+      this.cipher
+    );
+    this.keywords = new Bm25Index(path.join(baseDir, TERM_FILE), this.cipher);
+    this.lock = new FileLock(path.join(baseDir, LOCK_FILE));
+    this.minScore = options.minScore ?? 0.1;
+    this.searchMode = options.searchMode ?? 'hybrid';
+  }
+
+  private get searchIndexes(): SearchIndex[] {
+    return [this.vectors, this.keywords];
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.setup().catch(error => {
+        this.initializing = null;
+        throw error;
+      });
+    }
+    return this.initializing;
   }
 
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+  private async setup(): Promise<void> {
+    await this.createDirs();
+    await this.locked(async () => {
+      await this.migrateLegacyFiles();
+      await this.archiveExpired();
+    });
+  }
 
-    const dirs = ['interactions', 'metadata', 'logs'];
+  private async createDirs(): Promise<void> {
+    const dirs = [MEMORY_DIR, ARCHIVE_DIR, 'metadata', 'logs'];
     for (const dir of dirs) {
-      const dirPath = path.join(this.baseDir, dir);
-      if (!fs.existsSync(dirPath)) {
-        fs.mkdirSync(dirPath, { recursive: true });
+      await fs.promises.mkdir(path.join(this.baseDir, dir), { recursive: true });
+    }
+  }
+
+  // Loads the indexes from disk, rebuilding whatever is missing or corrupt
+  private async load(): Promise<void> {
+    this.index = await this.loadIndex(INDEX_FILE, MEMORY_DIR);
+    this.archiveIndex = await this.loadIndex(ARCHIVE_INDEX_FILE, ARCHIVE_DIR);
+    this.links.clear();
+    for (const [id, entry] of Object.entries(this.index.memories)) {
+      this.links.set(id, entry.links);
+    }
+    for (const searchIndex of this.searchIndexes) {
+      await this.loadSearchIndex(searchIndex);
+    }
+  }
+
+  // Runs fn holding the store lock, with the indexes brought up to date first
+  // and the index changes it made written once at the end
+  private async locked<R>(fn: () => Promise<R>): Promise<R> {
+    return this.lock.run(async () => {
+      if (await this.diskSignature() !== this.signature) {
+        await this.load();
       }
+      try {
+        return await fn();
+      } finally {
+        // Memory files fn wrote are on disk even if it failed part way
+        await this.persist();
+        this.signature = await this.diskSignature();
+      }
+    });
+  }
+
+  // Picks up writes made by other processes since the indexes were loaded
+  private async sync(): Promise<void> {
+    if (await this.diskSignature() !== this.signature) {
+      await this.locked(async () => {});
+    }
+  }
+
+  // Reads made outside the lock archive anything that has expired first
+  private async syncAndExpire(): Promise<void> {
+    await this.sync();
+    const now = Date.now();
+    if (Object.values(this.index.memories).some(entry => isExpired(entry.persistence, now))) {
+      await this.locked(() => this.archiveExpired());
     }
+  }
 
-    this.initialized = true;
+  // Atomic writes replace a snapshot and appends grow a journal, so a new
+  // inode, mtime or size means another writer
+  private async diskSignature(): Promise<string> {
+    const files = [
+      path.join(this.baseDir, INDEX_FILE),
+      path.join(this.baseDir, ARCHIVE_INDEX_FILE),
+      this.journal.filePath,
+      this.archiveJournal.filePath
+    ];
+    const parts: string[] = [];
+    for (const file of files) {
+      try {
+        const stat = await fs.promises.stat(file);
+        parts.push(`${stat.ino}:${stat.mtimeMs}:${stat.size}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        parts.push('missing');
+      }
+    }
+    return parts.join('|');
   }
 
   async store(memory: T): Promise<void> {
-    try {
-      // Create base directory if it doesn't exist
-      if (!fs.existsSync(this.baseDir)) {
-        fs.mkdirSync(this.baseDir, { recursive: true });
+    await this.initialize();
+    await this.locked(async () => {
+      await this.writeMemory(memory);
+
+      // Storing an archived id brings it back, replacing the archived copy
+      const archived = this.archiveIndex.memories[memory.id];
+      if (archived) {
+        await this.unlinkIfExists(path.join(this.baseDir, archived.file));
+        this.setArchived(memory.id, null);
       }
+    });
+  }
+
+  async has(id: string): Promise<boolean> {
+    await this.initialize();
+    await this.sync();
+    return id in this.index.memories || id in this.archiveIndex.memories;
+  }
+
+  async find(id: string): Promise<T | null> {
+    await this.initialize();
+    await this.sync();
+    return this.readSafely(id);
+  }
 
-      // Create a simple filename
-      const filename = `memory-${Date.now()}.json`;
-      const filePath = path.join(this.baseDir, filename);
+  async findSimilar(content: string, limit: number = 5): Promise<T[]> {
+    const { results } = await this.search(content, { limit });
+    return results.map(result => result.memory);
+  }
 
-      console.error('Writing to:', filePath);
+  async search(query: string, options: SearchOptions = {}): Promise<SearchPage<T>> {
+    await this.initialize();
+    await this.syncAndExpire();
 
-      // Write directly to file
-      const data = JSON.stringify({
-        id: memory.id,
-        content: memory.content,
-        metadata: memory.metadata
-      }, null, 2);
+    const limit = options.limit ?? 5;
+    const minScore = options.minScore ?? this.minScore;
+    const mode = options.mode ?? this.searchMode;
+    const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+    if (offset === null) {
+      throw new Error(`Invalid cursor: ${options.cursor}`);
+    }
 
-      fs.writeFileSync(filePath, data, 'utf8');
-      console.error('Write successful');
+    const eligible = (id: string) => {
+      const entry = this.index.memories[id];
+      return entry !== undefined && matchesFilter(id, entry.metadata, options.filter);
+    };
 
-      // Verify file exists
-      if (fs.existsSync(filePath)) {
-        const content = fs.readFileSync(filePath, 'utf8');
-        console.error('File content:', content);
-      } else {
-        throw new Error('File not written');
+    const scores = new Map<string, number>();
+
+    if (mode !== 'keyword') {
+      const weight = mode === 'hybrid' ? 0.5 : 1;
+      const matches = await this.vectors.search(query, Infinity, 0, eligible);
+      for (const { id, score } of matches) {
+        scores.set(id, weight * Math.max(score, 0));
+      }
+    }
+
+    if (mode !== 'semantic') {
+      const weight = mode === 'hybrid' ? 0.5 : 1;
+      const matches = await this.keywords.search(query, Infinity, eligible);
+      // BM25 is unbounded, so scale relative to the best match
+      const best = matches[0]?.score || 1;
+      for (const { id, score } of matches) {
+        scores.set(id, (scores.get(id) ?? 0) + weight * score / best);
       }
-    } catch (error) {
-      console.error('Detailed error in store():', {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : 'No stack trace',
-        baseDir: this.baseDir,
-        initialized: this.initialized
-      });
-      throw error instanceof Error ? error : new Error(String(error));
     }
+
+    const ranked = Array.from(scores, ([id, score]) => ({ id, score }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+    const page = ranked.slice(offset, offset + limit);
+
+    const results: SearchResult<T>[] = [];
+    for (const { id, score } of page) {
+      const memory = await this.readSafely(id);
+      if (memory) results.push({ memory, score });
+    }
+
+    return {
+      results,
+      nextCursor: offset + limit < ranked.length ? encodeCursor(offset + limit) : undefined
+    };
   }
 
-  async find(id: string): Promise<T | null> {
+  async list(options: ListOptions = {}): Promise<ListPage<T>> {
     await this.initialize();
+    await this.syncAndExpire();
 
-    const files = await fs.promises.readdir(path.join(this.baseDir, 'interactions'));
-    const file = files.find(f => f.includes(id));
+    const limit = options.limit ?? 20;
+    const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+    if (offset === null) {
+      throw new Error(`Invalid cursor: ${options.cursor}`);
+    }
+
+    const direction = options.order === 'asc' ? 1 : -1;
+    const byTimestamp = (a: IndexEntry, b: IndexEntry) =>
+      a.metadata.timestamp.localeCompare(b.metadata.timestamp);
+    const compare = options.sortBy === 'importance'
+      ? (a: IndexEntry, b: IndexEntry) =>
+        (a.metadata.importance ?? 0) - (b.metadata.importance ?? 0) || byTimestamp(a, b)
+      : byTimestamp;
+
+    const index = options.archived ? this.archiveIndex : this.index;
+    const entries = Object.entries(index.memories)
+      .filter(([id, entry]) => matchesFilter(id, entry.metadata, options.filter))
+      .sort(([, a], [, b]) => direction * compare(a, b));
+
+    const memories: T[] = [];
+    for (const [id, entry] of entries.slice(offset, offset + limit)) {
+      if (!options.archived) {
+        const memory = await this.readSafely(id);
+        if (memory) memories.push(memory);
+        continue;
+      }
+      try {
+        memories.push(withIndexedAccess(await this.readMemory(path.join(this.baseDir, entry.file)), entry));
+      } catch (error) {
+        log.error(`Error reading archived memory ${id}:`, error);
+      }
+    }
+
+    return {
+      memories,
+      nextCursor: offset + limit < entries.length ? encodeCursor(offset + limit) : undefined
+    };
+  }
+
+  async update(id: string, patch: MemoryPatch): Promise<T | null> {
+    await this.initialize();
+
+    // Read and write under one lock so a concurrent edit isn't lost
+    return this.locked(async () => {
+      const existing = await this.readEntry(id);
+      if (!existing) return null;
+
+      const updated = applyPatch(existing, patch);
+      await this.writeMemory(updated);
+      return updated;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+
+    await this.locked(async () => {
+      const archived = this.archiveIndex.memories[id];
+      if (archived) {
+        await this.unlinkIfExists(path.join(this.baseDir, archived.file));
+        this.setArchived(id, null);
+      }
+
+      await this.dropBacklinks(id);
+
+      const entry = this.index.memories[id];
+      if (!entry) return;
+
+      await this.unlinkIfExists(path.join(this.baseDir, entry.file));
+      this.dropEntry(id);
+    });
+  }
+
+  // Access is recorded in the index only, so reads append to the journal
+  // rather than rewriting memory files
+  async touch(ids: string[]): Promise<void> {
+    await this.initialize();
+
+    await this.locked(async () => {
+      const now = new Date().toISOString();
+
+      for (const id of new Set(ids)) {
+        const entry = this.index.memories[id];
+        if (!entry) continue;
+
+        const persistence: Persistence = {
+          priority: entry.metadata.importance ?? 0,
+          ...entry.persistence,
+          lastAccessed: now,
+          accessCount: (entry.persistence?.accessCount ?? 0) + 1
+        };
+        this.setEntry(id, { ...entry, persistence });
+      }
+    });
+  }
+
+  async archive(id: string): Promise<boolean> {
+    await this.initialize();
+    return this.locked(() => this.moveToArchive(id));
+  }
+
+  async restore(id: string): Promise<T | null> {
+    await this.initialize();
+
+    return this.locked(async () => {
+      const entry = this.archiveIndex.memories[id];
+      if (!entry) return null;
+
+      const memory = withIndexedAccess(await this.readMemory(path.join(this.baseDir, entry.file)), entry);
+      const persistence = getPersistence(memory);
+      // A restored memory shouldn't expire again straight away
+      let restored = memory as T;
+      if (persistence?.expiresAt && isExpired(persistence)) {
+        const { expiresAt, ...rest } = persistence;
+        restored = { ...memory, persistence: rest } as T;
+      }
+
+      await this.writeMemory(restored);
+      await this.unlinkIfExists(path.join(this.baseDir, entry.file));
+      this.setArchived(id, null);
+
+      return restored;
+    });
+  }
+
+  async expire(): Promise<string[]> {
+    await this.initialize();
+    return this.locked(() => this.archiveExpired());
+  }
+
+  async prune(options: PruneOptions): Promise<string[]> {
+    await this.initialize();
 
-    if (!file) return null;
+    return this.locked(async () => {
+      await this.archiveExpired();
 
-    const content = await fs.promises.readFile(
-      path.join(this.baseDir, 'interactions', file),
-      'utf-8'
+      const now = Date.now();
+      const scored = Object.entries(this.index.memories)
+        .map(([id, entry]) => ({
+          id,
+          score: decayScore(entry.metadata, entry.persistence, options.policy, now)
+        }))
+        .sort((a, b) => a.score - b.score);
+
+      const victims = new Set<string>();
+      if (options.minScore !== undefined) {
+        scored
+          .filter(({ score }) => score < options.minScore!)
+          .forEach(({ id }) => victims.add(id));
+      }
+      if (options.targetSize !== undefined) {
+        scored
+          .slice(0, Math.max(scored.length - options.targetSize, 0))
+          .forEach(({ id }) => victims.add(id));
+      }
+
+      if (!options.dryRun) {
+        for (const id of victims) {
+          await this.moveToArchive(id);
+        }
+      }
+      return Array.from(victims);
+    });
+  }
+
+  async link(from: string, to: string, type: RelationType): Promise<T | null> {
+    await this.initialize();
+
+    return this.locked(async () => {
+      const source = await this.readEntry(from);
+      if (!source || !this.index.memories[to]) return null;
+
+      const targets = getLinks(source)?.[type] ?? [];
+      if (targets.includes(to)) return source;
+
+      const linked = withLinks(source, type, [...targets, to]);
+      await this.writeMemory(linked);
+      return linked;
+    });
+  }
+
+  async unlink(from: string, to: string, type?: RelationType): Promise<RelationType[]> {
+    await this.initialize();
+
+    return this.locked(async () => {
+      const removed = this.links.edgesFrom(from)
+        .filter(edge => edge.to === to && (type === undefined || edge.type === type))
+        .map(edge => edge.type);
+      if (removed.length === 0) return [];
+
+      let source = await this.readEntry(from);
+      if (!source) return [];
+      for (const removedType of removed) {
+        const targets: string[] = (getLinks(source)?.[removedType] ?? []).filter(target => target !== to);
+        source = withLinks(source, removedType, targets);
+      }
+      await this.writeMemory(source);
+      return removed;
+    });
+  }
+
+  async related(id: string, options: RelatedOptions = {}): Promise<Neighborhood<T> | null> {
+    await this.initialize();
+    await this.sync();
+    if (!this.index.memories[id]) return null;
+
+    const { depths, edges } = this.links.walk(
+      id,
+      {
+        depth: options.depth ?? 1,
+        types: options.types,
+        direction: options.direction,
+        maxNodes: (options.limit ?? 50) + 1
+      },
+      neighbor => neighbor in this.index.memories
     );
 
-    const parsed = JSON.parse(content);
-    // Sanitize content when reading
+    const memories: RelatedMemory<T>[] = [];
+    for (const [memoryId, depth] of depths) {
+      const memory = await this.readSafely(memoryId);
+      if (memory) memories.push({ memory, depth });
+    }
+    return { memories, edges };
+  }
+
+  async verify(options: VerifyOptions = {}): Promise<IntegrityReport> {
+    await this.createDirs();
+
+    return this.lock.run(async () => {
+      const report: IntegrityReport = { checked: 0, issues: [], repaired: false };
+      const damaged: string[] = [];
+
+      for (const dir of [MEMORY_DIR, ARCHIVE_DIR, 'metadata']) {
+        for (const file of await listFiles(this.baseDir, dir)) {
+          if (isTempFile(file)) {
+            report.issues.push({ file, problem: 'leftover from an interrupted write' });
+            damaged.push(file);
+          }
+        }
+      }
+
+      const liveIds = new Set<string>();
+      const tiers: Array<[string, string]> = [[MEMORY_DIR, INDEX_FILE], [ARCHIVE_DIR, ARCHIVE_INDEX_FILE]];
+      for (const [memoryDir, indexFile] of tiers) {
+        let index: StoreIndex | null = null;
+        let missing = false;
+        try {
+          index = await this.readIndex(indexFile);
+          if (!index) {
+            report.issues.push({ file: indexFile, problem: 'index has an unexpected format' });
+          }
+        } catch (error) {
+          if (error instanceof DecryptionError) throw error;
+          missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+          if (!missing) {
+            report.issues.push({ file: indexFile, problem: `index is unreadable: ${(error as Error).message}` });
+          }
+        }
+
+        const found = new Set<string>();
+        for (const file of await listFiles(this.baseDir, memoryDir)) {
+          if (!file.endsWith('.json')) continue;
+          report.checked++;
+
+          try {
+            const memory = await this.readMemory(path.join(this.baseDir, file));
+            if (typeof memory.id !== 'string' || typeof memory.metadata?.type !== 'string' ||
+              typeof memory.metadata.timestamp !== 'string') {
+              throw new Error('not a memory');
+            }
+            found.add(file);
+            if (memoryDir === MEMORY_DIR) liveIds.add(memory.id);
+            if (index && index.memories[memory.id]?.file !== file) {
+              report.issues.push({ file, problem: 'not in the index' });
+            }
+          } catch (error) {
+            if (error instanceof DecryptionError) throw error;
+            report.issues.push({ file, problem: `corrupt memory file: ${(error as Error).message}` });
+            damaged.push(file);
+          }
+        }
+
+        if (missing && found.size > 0) {
+          report.issues.push({ file: indexFile, problem: 'index is missing' });
+        }
+        for (const [id, entry] of Object.entries(index?.memories ?? {})) {
+          if (!found.has(entry.file)) {
+            report.issues.push({ file: entry.file, problem: `indexed as ${id} but missing or corrupt` });
+          }
+        }
+      }
+
+      for (const [file, searchIndex] of [[VECTOR_FILE, this.vectors], [TERM_FILE, this.keywords]] as const) {
+        const loaded = await searchIndex.load();
+        const ids = searchIndex.ids();
+        if ((!loaded && liveIds.size > 0) || ids.length !== liveIds.size || ids.some(id => !liveIds.has(id))) {
+          report.issues.push({ file, problem: 'search index is missing, corrupt or out of date' });
+        }
+      }
+      // The search indexes were just reloaded from disk, so reload the rest too
+      this.signature = null;
+
+      if (options.repair && report.issues.length > 0) {
+        for (const file of damaged) {
+          if (isTempFile(file)) {
+            await this.unlinkIfExists(path.join(this.baseDir, file));
+          } else {
+            const target = await quarantineFile(this.baseDir, file);
+            log.warn(`Quarantined ${file} as ${target}`);
+          }
+        }
+
+        this.index = await this.rebuildIndex(MEMORY_DIR);
+        this.archiveIndex = await this.rebuildIndex(ARCHIVE_DIR);
+        await this.writeIndex(this.index, INDEX_FILE);
+        await this.writeIndex(this.archiveIndex, ARCHIVE_INDEX_FILE);
+        await this.load();
+        this.signature = await this.diskSignature();
+        report.repaired = true;
+      }
+
+      return report;
+    });
+  }
+
+  // Rewrites every memory and index file with the store's cipher, after the
+  // key changed. Resolves to the number of memory files rewritten.
+  async reencrypt(): Promise<number> {
+    await this.initialize();
+
+    return this.locked(async () => {
+      let rewritten = 0;
+      for (const dir of [MEMORY_DIR, ARCHIVE_DIR]) {
+        for (const file of await listFiles(this.baseDir, dir)) {
+          if (!file.endsWith('.json')) continue;
+          const filePath = path.join(this.baseDir, file);
+          await this.writeJson(filePath, await this.readJson(filePath));
+          rewritten++;
+        }
+      }
+
+      await this.writeIndex(this.index, INDEX_FILE);
+      await this.writeIndex(this.archiveIndex, ARCHIVE_INDEX_FILE);
+      for (const searchIndex of this.searchIndexes) {
+        await searchIndex.compact();
+      }
+      return rewritten;
+    });
+  }
+
+  // Reads a live memory; the caller must hold the lock or have synced
+  private async readEntry(id: string): Promise<T | null> {
+    const entry = this.index.memories[id];
+    if (!entry) return null;
+
+    try {
+      return withIndexedAccess(await this.readMemory(path.join(this.baseDir, entry.file)), entry);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // For reads outside the lock: a file that has gone missing or can't be
+  // parsed is dropped from the index (and quarantined) instead of failing
+  private async readSafely(id: string): Promise<T | null> {
+    try {
+      const memory = await this.readEntry(id);
+      if (memory || !this.index.memories[id]) return memory;
+    } catch (error) {
+      if (error instanceof DecryptionError) throw error;
+      log.error(`Error reading memory ${id}:`, error);
+    }
+
+    return this.locked(async () => {
+      // Another process may have fixed or replaced it meanwhile
+      const entry = this.index.memories[id];
+      if (!entry) return null;
+      try {
+        const memory = await this.readEntry(id);
+        if (memory) return memory;
+      } catch (error) {
+        if (error instanceof DecryptionError) throw error;
+        const target = await quarantineFile(this.baseDir, entry.file);
+        log.warn(`Quarantined unreadable memory ${id} as ${target}`);
+      }
+      this.dropEntry(id);
+      return null;
+    });
+  }
+
+  // Removes a live memory from the id, link and search indexes
+  private dropEntry(id: string): void {
+    this.setEntry(id, null);
+    this.links.remove(id);
+    for (const searchIndex of this.searchIndexes) {
+      searchIndex.remove(id);
+    }
+  }
+
+  // Index changes go to the journals; persist() writes them
+  private setEntry(id: string, entry: IndexEntry | null): void {
+    if (entry) {
+      this.index.memories[id] = entry;
+    } else {
+      delete this.index.memories[id];
+    }
+    this.journal.record(id, entry);
+  }
+
+  private setArchived(id: string, entry: IndexEntry | null): void {
+    if (entry) {
+      this.archiveIndex.memories[id] = entry;
+    } else {
+      delete this.archiveIndex.memories[id];
+    }
+    this.archiveJournal.record(id, entry);
+  }
+
+  // Removes edges pointing at a memory that is being deleted
+  private async dropBacklinks(id: string): Promise<void> {
+    for (const { from, type } of [...this.links.edgesTo(id)]) {
+      const source = await this.readEntry(from);
+      if (!source) continue;
+
+      const targets = (getLinks(source)?.[type] ?? []).filter(target => target !== id);
+      await this.writeMemory(withLinks(source, type, targets));
+    }
+  }
+
+  private async archiveExpired(): Promise<string[]> {
+    const now = Date.now();
+    const expired = Object.entries(this.index.memories)
+      .filter(([, entry]) => isExpired(entry.persistence, now))
+      .map(([id]) => id);
+
+    for (const id of expired) {
+      await this.moveToArchive(id);
+    }
+    return expired;
+  }
+
+  private async moveToArchive(id: string): Promise<boolean> {
+    const entry = this.index.memories[id];
+    if (!entry) return false;
+
+    const file = path.join(ARCHIVE_DIR, path.relative(MEMORY_DIR, entry.file));
+    await fs.promises.mkdir(path.dirname(path.join(this.baseDir, file)), { recursive: true });
+    await fs.promises.rename(path.join(this.baseDir, entry.file), path.join(this.baseDir, file));
+
+    this.setArchived(id, { ...entry, file });
+    this.dropEntry(id);
+    return true;
+  }
+
+  private async writeMemory(memory: T): Promise<void> {
+    const file = this.memoryFile(memory);
+    const filePath = path.join(this.baseDir, file);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await this.writeJson(filePath, memory);
+
+    // A memory whose type changed lives in a different directory now
+    const previous = this.index.memories[memory.id];
+    if (previous && previous.file !== file) {
+      await this.unlinkIfExists(path.join(this.baseDir, previous.file));
+    }
+
+    const links = getLinks(memory);
+    this.setEntry(memory.id, {
+      file,
+      metadata: memory.metadata,
+      persistence: getPersistence(memory),
+      links
+    });
+    this.links.set(memory.id, links);
+
+    for (const searchIndex of this.searchIndexes) {
+      await searchIndex.add(memory.id, searchText(memory));
+    }
+  }
+
+  private memoryFile(memory: T): string {
+    const { id } = memory;
+    const type = memory.metadata?.type;
+
+    if (typeof id !== 'string' || !SAFE_SEGMENT.test(id)) {
+      throw new Error(`Invalid memory id: ${id}`);
+    }
+    if (typeof type !== 'string' || !SAFE_SEGMENT.test(type)) {
+      throw new Error(`Invalid memory type: ${type}`);
+    }
+
+    return path.join(MEMORY_DIR, type, `${id}.json`);
+  }
+
+  private async readMemory(filePath: string): Promise<T> {
+    const parsed = await this.readJson(filePath);
+
+    // Strip control characters, but keep the whitespace that code and prose rely on
     return {
       ...parsed,
-      content: parsed.content.replace(/[\u0000-\u001F\u007F-\u009F]/g, ''),
+      content: parsed.content.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, ''),
       metadata: {
         ...parsed.metadata,
         timestamp: parsed.metadata.timestamp
@@ -100,67 +1038,214 @@ export class FileStore<T extends BaseMemory> implements Store<T> {
     };
   }
 
-  async findSimilar(content: string, limit: number = 5): Promise<T[]> {
-    await this.initialize();
+  private async loadIndex(indexFile: string, memoryDir: string): Promise<StoreIndex> {
+    try {
+      const index = await this.readIndex(indexFile);
+      if (index) return index;
+      log.warn(`${indexFile} has an unexpected format, rebuilding`);
+    } catch (error) {
+      if (error instanceof DecryptionError) throw error;
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn(`${indexFile} is unreadable, rebuilding:`, error);
+      }
+    }
 
-    const files = await fs.promises.readdir(path.join(this.baseDir, 'interactions'));
-    const memories: T[] = [];
+    const index = await this.rebuildIndex(memoryDir);
+    await this.writeIndex(index, indexFile);
+    return index;
+  }
 
-    for (const file of files) {
+  // An index snapshot with its journal replayed, or null if the snapshot has
+  // an unexpected format
+  private async readIndex(indexFile: string): Promise<StoreIndex | null> {
+    const parsed = await this.readJson(path.join(this.baseDir, indexFile));
+    if (parsed?.version !== INDEX_VERSION || !parsed.memories || typeof parsed.memories !== 'object') {
+      return null;
+    }
+
+    for (const [id, entry] of await this.journalFor(indexFile).read()) {
+      if (entry) {
+        parsed.memories[id] = entry;
+      } else {
+        delete parsed.memories[id];
+      }
+    }
+    return parsed;
+  }
+
+  private async rebuildIndex(memoryDir: string): Promise<StoreIndex> {
+    const index: StoreIndex = { version: INDEX_VERSION, memories: {} };
+    const rootDir = path.join(this.baseDir, memoryDir);
+
+    const typeDirs = await fs.promises.readdir(rootDir, { withFileTypes: true });
+    for (const typeDir of typeDirs) {
+      if (!typeDir.isDirectory()) continue;
+
+      const files = await fs.promises.readdir(path.join(rootDir, typeDir.name));
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+
+        const relative = path.join(memoryDir, typeDir.name, file);
+        try {
+          const memory = await this.readMemory(path.join(this.baseDir, relative));
+          index.memories[memory.id] = {
+            file: relative,
+            metadata: memory.metadata,
+            persistence: getPersistence(memory),
+            links: getLinks(memory)
+          };
+        } catch (error) {
+          if (error instanceof DecryptionError) throw error;
+          log.warn(`Skipping unreadable memory file ${relative}:`, error);
+        }
+      }
+    }
+
+    return index;
+  }
+
+  // Bring a derived index in line with the id index, adding anything that is
+  // missing (or everything, if it had to be discarded)
+  private async loadSearchIndex(searchIndex: SearchIndex): Promise<void> {
+    const loaded = await searchIndex.load();
+    let changed = !loaded;
+
+    for (const id of searchIndex.ids()) {
+      if (!(id in this.index.memories)) {
+        searchIndex.remove(id);
+        changed = true;
+      }
+    }
+
+    for (const [id, entry] of Object.entries(this.index.memories)) {
+      if (searchIndex.has(id)) continue;
       try {
-        const content = await fs.promises.readFile(
-          path.join(this.baseDir, 'interactions', file),
-          'utf-8'
-        );
-        const parsed = JSON.parse(content);
-        
-        // Sanitize each memory object
-        const sanitizedMemory = {
+        const memory = await this.readMemory(path.join(this.baseDir, entry.file));
+        await searchIndex.add(id, searchText(memory));
+        changed = true;
+      } catch (error) {
+        log.warn(`Unable to index memory ${id}:`, error);
+      }
+    }
+
+    if (changed) {
+      await searchIndex.save();
+    }
+  }
+
+  // Older versions wrote `memory-<timestamp>.json` into the storage root or
+  // flat files into interactions/. Move them into the typed layout.
+  private async migrateLegacyFiles(): Promise<void> {
+    const candidates: string[] = [];
+
+    const rootFiles = await fs.promises.readdir(this.baseDir, { withFileTypes: true });
+    for (const file of rootFiles) {
+      if (file.isFile() && file.name.startsWith('memory-') && file.name.endsWith('.json')) {
+        candidates.push(path.join(this.baseDir, file.name));
+      }
+    }
+
+    const flatFiles = await fs.promises.readdir(path.join(this.baseDir, MEMORY_DIR), { withFileTypes: true });
+    for (const file of flatFiles) {
+      if (file.isFile() && file.name.endsWith('.json')) {
+        candidates.push(path.join(this.baseDir, MEMORY_DIR, file.name));
+      }
+    }
+
+    for (const legacyPath of candidates) {
+      try {
+        const parsed = JSON.parse(await fs.promises.readFile(legacyPath, 'utf-8'));
+        if (typeof parsed?.content !== 'string' || !parsed.metadata?.type) {
+          log.warn(`Skipping legacy file without a memory shape: ${legacyPath}`);
+          continue;
+        }
+
+        const memory = {
           ...parsed,
-          content: parsed.content.replace(/[\u0000-\u001F\u007F-\u009F]/g, ''),
+          id: parsed.id ? String(parsed.id) : path.basename(legacyPath, '.json'),
           metadata: {
             ...parsed.metadata,
-            timestamp: parsed.metadata.timestamp
+            timestamp: parsed.metadata.timestamp ?? (await fs.promises.stat(legacyPath)).mtime.toISOString()
           }
         } as T;
 
-        memories.push(sanitizedMemory);
+        if (!this.index.memories[memory.id]) {
+          await this.writeMemory(memory);
+        }
+        await fs.promises.unlink(legacyPath);
       } catch (error) {
-        console.error(`Error reading memory file ${file}:`, error);
-        continue;
+        log.error(`Failed to migrate legacy memory file ${legacyPath}:`, error);
       }
     }
+  }
 
-    // Simple text similarity for now
-    // TODO: Implement better similarity matching
-    return memories
-      .sort((a, b) => {
-        const scoreA = this.similarity(content, a.content);
-        const scoreB = this.similarity(content, b.content);
-        return scoreB - scoreA;
-      })
-      .slice(0, limit);
+  // Writes the changes recorded since the last call, compacting any journal
+  // that has grown too long
+  private async persist(): Promise<void> {
+    for (const [index, indexFile] of [[this.index, INDEX_FILE], [this.archiveIndex, ARCHIVE_INDEX_FILE]] as const) {
+      const journal = this.journalFor(indexFile);
+      if (journal.shouldCompact(Object.keys(index.memories).length)) {
+        await this.writeIndex(index, indexFile);
+      } else {
+        await journal.flush();
+      }
+    }
+    for (const searchIndex of this.searchIndexes) {
+      await searchIndex.save();
+    }
   }
 
-  async delete(id: string): Promise<void> {
-    await this.initialize();
+  // Writes a whole index snapshot, which makes its journal redundant
+  private async writeIndex(index: StoreIndex, indexFile: string): Promise<void> {
+    await this.writeJson(path.join(this.baseDir, indexFile), index);
+    await this.journalFor(indexFile).clear();
+  }
 
-    const files = await fs.promises.readdir(path.join(this.baseDir, 'interactions'));
-    const file = files.find(f => f.includes(id));
+  private journalFor(indexFile: string): Journal<IndexEntry> {
+    return indexFile === INDEX_FILE ? this.journal : this.archiveJournal;
+  }
+
+  private async readJson(filePath: string): Promise<any> {
+    return JSON.parse(this.cipher.decrypt(await fs.promises.readFile(filePath, 'utf-8')));
+  }
 
-    if (file) {
-      await fs.promises.unlink(path.join(this.baseDir, 'interactions', file));
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    await writeFileAtomic(filePath, this.cipher.encrypt(JSON.stringify(data, null, 2)));
+  }
+
+  private async unlinkIfExists(filePath: string): Promise<void> {
+    try {
+      await fs.promises.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
     }
   }
+}
+
+// A memory as read from its file, with the access recorded by touch() since
+// it was last written
+function withIndexedAccess<T extends BaseMemory>(memory: T, entry: IndexEntry): T {
+  return entry.persistence ? { ...memory, persistence: entry.persistence } : memory;
+}
+
+// Files under baseDir/dir, recursively, relative to baseDir
+async function listFiles(baseDir: string, dir: string): Promise<string[]> {
+  const files: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(baseDir, dir), { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return files;
+    throw error;
+  }
 
-  private similarity(a: string, b: string): number {
-    // Simple Jaccard similarity
-    const setA = new Set(a.toLowerCase().split(/\W+/));
-    const setB = new Set(b.toLowerCase().split(/\W+/));
-    
-    const intersection = new Set([...setA].filter(x => setB.has(x)));
-    const union = new Set([...setA, ...setB]);
-    
-    return intersection.size / union.size;
+  for (const entry of entries) {
+    const relative = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(baseDir, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
   }
+  return files;
 }
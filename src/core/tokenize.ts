@@ -0,0 +1,99 @@
+// Bump when tokenize() output changes so persisted term indexes get rebuilt
+export const TOKENIZER_VERSION = 1;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do',
+  'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into',
+  'is', 'it', 'its', 'just', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word.toLowerCase());
+}
+
+// Splits text into stemmed search terms. Code identifiers are indexed both
+// whole and by their parts, so `getUserToken` and `user_token` match "user token".
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.normalize('NFKC').match(/[\p{L}\p{N}_$]+/gu) ?? [];
+
+  for (const word of words) {
+    const parts = splitIdentifier(word);
+    if (parts.length > 1) {
+      addTerm(terms, word.toLowerCase().replace(/[_$]/g, ''));
+    }
+    for (const part of parts) {
+      addTerm(terms, part);
+    }
+  }
+
+  return terms;
+}
+
+function addTerm(terms: string[], word: string) {
+  if (word.length < 2 || STOP_WORDS.has(word)) return;
+  terms.push(stem(word));
+}
+
+// camelCase, PascalCase, snake_case, SCREAMING_CASE and digit boundaries
+function splitIdentifier(word: string): string[] {
+  return word
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .replace(/(\p{L})(\p{N})|(\p{N})(\p{L})/gu, '$1$3 $2$4')
+    .split(/[\s_$]+/)
+    .filter(Boolean)
+    .map(part => part.toLowerCase());
+}
+
+const SUFFIXES: Array<[string, string]> = [
+  ['ational', 'at'],
+  ['ization', 'iz'],
+  ['fulness', 'ful'],
+  ['iveness', 'iv'],
+  ['ation', 'at'],
+  ['ement', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['edly', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', '']
+];
+
+// A light suffix-stripping stemmer; it only needs to be consistent, not pretty
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  const stemmed = stripSuffix(word);
+  // authenticate / authenticated / authentication all end up as "authenticat"
+  return stemmed.length > 4 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+}
+
+function stripSuffix(word: string): string {
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+
+    const base = word.slice(0, -suffix.length);
+    if (base.length < 3) return word;
+    if (suffix === 's' && (base.endsWith('s') || base.endsWith('u'))) return word;
+    if (suffix === 'es' && !/(s|x|z|ch|sh)$/.test(base)) return word.slice(0, -1);
+
+    const stemmed = base + replacement;
+    // running -> run, stopped -> stop
+    if ((suffix === 'ing' || suffix === 'ed') && /([^aeiouslz])\1$/.test(stemmed)) {
+      return stemmed.slice(0, -1);
+    }
+    return stemmed;
+  }
+
+  return word;
+}
@@ -9,6 +9,10 @@ export interface BaseMemory {
     category?: string;
     topics?: string[];
     source?: string;
+    // Set whenever the memory is edited after being stored
+    lastUpdate?: string;
+    // Secrets and personal data replaced before storing, by detector
+    redactions?: Array<{ detector: string; action: 'mask' | 'hash'; count: number }>;
   };
 }
 
@@ -19,6 +23,14 @@ export type MemoryType =
   | 'system'
   | 'custom';
 
+export const MEMORY_TYPES: MemoryType[] = [
+  'development',
+  'conversation',
+  'document',
+  'system',
+  'custom'
+];
+
 // Enhanced memory interface
 export interface EnhancedMemory<T extends Record<string, any> = {}> extends BaseMemory {
   contextType: MemoryType;
@@ -51,6 +63,8 @@ export interface BaseContext<T extends Record<string, any> = {}> {
     startTime: string;
     lastUpdate: string;
     type: string;
+    // Bumped on every save; a save based on an older version is rejected
+    version?: number;
   } & T;
 }
 
@@ -59,9 +73,20 @@ export interface DevContext extends BaseContext {
     name: string;
     path: string;
     branch: string;
+    commit?: string;
   };
   codeContext: {
+    // Uncommitted changes first, then files touched by recent commits
     files: string[];
+    dirtyFiles: string[];
     dependencies: string[];
   };
 }
+
+// A named workstream (e.g. a feature or ticket) that collects the memories
+// stored while it is active
+export interface SessionContext extends BaseContext<{
+  name: string;
+  description?: string;
+  closedAt?: string;
+}> {}
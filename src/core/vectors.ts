@@ -0,0 +1,142 @@
+import fs from 'fs';
+import { Embedder, cosineSimilarity } from './embedding.js';
+import { writeFileAtomic } from './files.js';
+import { Journal } from './journal.js';
+import { Cipher, DecryptionError } from './crypto.js';
+import { log } from './log.js';
+
+interface VectorIndexFile {
+  version: number;
+  embedder: string;
+  vectors: Record<string, number[]>;
+}
+
+const VECTOR_INDEX_VERSION = 1;
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+// Memory id -> embedding, persisted as a JSON snapshot plus a journal of
+// changes since it was written
+export class VectorIndex {
+  private vectors: Map<string, number[]> = new Map();
+  private journal: Journal<number[]>;
+
+  constructor(
+    private filePath: string,
+    private embedder: Embedder,
+    private cipher: Cipher = new Cipher(null)
+  ) {
+    this.journal = new Journal(filePath, cipher);
+  }
+
+  // Returns false when the file is missing, corrupt or was built by a
+  // different embedder, in which case the caller should re-add everything
+  async load(): Promise<boolean> {
+    this.vectors.clear();
+
+    try {
+      const parsed: VectorIndexFile = JSON.parse(this.cipher.decrypt(await fs.promises.readFile(this.filePath, 'utf-8')));
+      if (
+        parsed?.version !== VECTOR_INDEX_VERSION ||
+        parsed.embedder !== this.embedder.id ||
+        !parsed.vectors ||
+        typeof parsed.vectors !== 'object'
+      ) {
+        this.journal.discard();
+        return false;
+      }
+
+      for (const [id, vector] of Object.entries(parsed.vectors)) {
+        this.set(id, vector);
+      }
+      for (const [id, vector] of await this.journal.read()) {
+        this.vectors.delete(id);
+        if (vector) this.set(id, vector);
+      }
+      return true;
+    } catch (error) {
+      // Rebuilding can't help when the key is wrong
+      if (error instanceof DecryptionError) throw error;
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Vector index is unreadable, rebuilding:', error);
+      }
+      this.vectors.clear();
+      this.journal.discard();
+      return false;
+    }
+  }
+
+  // Persists the changes since the last save
+  async save(): Promise<void> {
+    if (this.journal.shouldCompact(this.vectors.size)) {
+      await this.compact();
+    } else {
+      await this.journal.flush();
+    }
+  }
+
+  // Rewrites the snapshot in full
+  async compact(): Promise<void> {
+    const data: VectorIndexFile = {
+      version: VECTOR_INDEX_VERSION,
+      embedder: this.embedder.id,
+      vectors: Object.fromEntries(this.vectors)
+    };
+    await writeFileAtomic(this.filePath, this.cipher.encrypt(JSON.stringify(data)));
+    await this.journal.clear();
+  }
+
+  async add(id: string, text: string): Promise<void> {
+    const vector = await this.embedder.embed(text);
+    // Six decimals is plenty for ranking and keeps the file small
+    const rounded = vector.map(value => Math.round(value * 1e6) / 1e6);
+    this.vectors.set(id, rounded);
+    this.journal.record(id, rounded);
+  }
+
+  remove(id: string): void {
+    if (this.vectors.delete(id)) {
+      this.journal.record(id, null);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.vectors.keys());
+  }
+
+  async search(
+    query: string,
+    limit: number,
+    minScore: number = 0,
+    filter?: (id: string) => boolean
+  ): Promise<VectorMatch[]> {
+    const queryVector = await this.embedder.embed(query);
+    const matches: VectorMatch[] = [];
+
+    for (const [id, vector] of this.vectors) {
+      if (filter && !filter(id)) continue;
+
+      const score = cosineSimilarity(queryVector, vector);
+      if (score >= minScore) {
+        matches.push({ id, score });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private set(id: string, vector: unknown) {
+    if (Array.isArray(vector) && vector.length === this.embedder.dimensions) {
+      this.vectors.set(id, vector);
+    }
+  }
+}
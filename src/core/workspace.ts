@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseMemory } from './types.js';
+import { FileStore, FileStoreOptions, Store } from './store.js';
+import { DB_FILE, SqliteStore } from './sqlite.js';
+import {
+  ContextManagerConfig,
+  ContextStorage,
+  DevContextManager,
+  FileContextStorage,
+  SessionManager
+} from './context.js';
+import { MemoryHome, Project } from './projects.js';
+import { RedactingStore, Redactor, createRedactor, readRedactionConfig } from './redact.js';
+import { Cipher, loadCipher } from './crypto.js';
+
+// Everything the server keeps for one project namespace
+export interface Workspace extends OpenedStore {
+  project: Project;
+  contextManager: DevContextManager;
+  sessions: SessionManager;
+}
+
+// file: one JSON file per memory (FileStore); sqlite: memories.db (SqliteStore)
+export type StoreBackend = 'file' | 'sqlite';
+
+export const STORE_BACKENDS: StoreBackend[] = ['file', 'sqlite'];
+
+// cipher defaults to the key from $DEV_MEMORY_KEY, $DEV_MEMORY_KEY_FILE or
+// <home>/memory.key, if any
+export type WorkspaceConfig = Pick<ContextManagerConfig, 'maxContextSize'> &
+  Pick<FileStoreOptions, 'searchMode' | 'minScore' | 'cipher'> & {
+  // Defaults to $DEV_MEMORY_BACKEND, else 'file'
+  backend?: StoreBackend;
+  // Applied to every memory stored; defaults to the built-in detectors as
+  // configured by <home>/redaction.json
+  redactor?: Redactor;
+};
+
+// A namespace's memory store and the contexts kept alongside it
+export interface OpenedStore {
+  store: Store<BaseMemory>;
+  contexts: ContextStorage;
+}
+
+export function parseBackend(value: string): StoreBackend {
+  if (!STORE_BACKENDS.includes(value as StoreBackend)) {
+    throw new Error(`Unknown storage backend: ${value} (expected ${STORE_BACKENDS.join(' or ')})`);
+  }
+  return value as StoreBackend;
+}
+
+export function defaultBackend(): StoreBackend {
+  return parseBackend(process.env.DEV_MEMORY_BACKEND || 'file');
+}
+
+export function openStore(
+  dir: string,
+  backend: StoreBackend = defaultBackend(),
+  options: FileStoreOptions = {}
+): OpenedStore {
+  if (backend === 'sqlite') {
+    const store = new SqliteStore<BaseMemory>(dir, options);
+    return { store, contexts: store.contexts };
+  }
+  return { store: new FileStore<BaseMemory>(dir, options), contexts: new FileContextStorage(dir, options.cipher) };
+}
+
+// Rewrites everything in a namespace under cipher's key, for whichever
+// backends hold data there. cipher must also be able to read the old key.
+export async function reencryptNamespace(dir: string, cipher: Cipher): Promise<void> {
+  if (fs.existsSync(path.join(dir, DB_FILE))) {
+    // Opening re-encrypts a database written under another key
+    const store = new SqliteStore<BaseMemory>(dir, { cipher });
+    await store.initialize();
+    store.close();
+  }
+  if (fs.existsSync(path.join(dir, 'interactions'))) {
+    await new FileStore<BaseMemory>(dir, { cipher }).reencrypt();
+  }
+  if (fs.existsSync(path.join(dir, 'context'))) {
+    await new FileContextStorage(dir, cipher).reencrypt();
+  }
+}
+
+export async function openWorkspace(
+  home: MemoryHome,
+  project: Project,
+  config: WorkspaceConfig = {}
+): Promise<Workspace> {
+  const baseDir = await home.openProject(project);
+  const { backend, redactor, searchMode, minScore, cipher, ...managerConfig } = config;
+  const { store: unredacted, contexts } = openStore(baseDir, backend, {
+    searchMode,
+    minScore,
+    cipher: cipher ?? loadCipher(home.dir)
+  });
+  // Secrets are scrubbed before anything reaches disk or the search indexes
+  const store = new RedactingStore(unredacted, redactor ?? createRedactor(readRedactionConfig(home.dir)));
+
+  return {
+    project,
+    store,
+    contexts,
+    contextManager: new DevContextManager(store, {
+      ...managerConfig,
+      baseDir,
+      projectRoot: project.root,
+      storage: contexts
+    }),
+    sessions: new SessionManager(store, {
+      maxContextSize: config.maxContextSize,
+      baseDir,
+      storage: contexts
+    })
+  };
+}
@@ -1,19 +1,160 @@
 #!/usr/bin/env node
-import { Server } from './sdk/server.js';
-import { StdioTransport } from './sdk/server.js';
+import { Server, StdioTransport, Transport } from './sdk/server.js';
 import { Errors } from './sdk/errors.js';
-import { randomUUID } from 'crypto';
+import { JsonSchema, ListRootsResponse } from './sdk/types.js';
+import fs from 'fs';
 import path from 'path';
-import { FileStore } from './core/store.js';
-import { DevContextManager } from './core/context.js';
-import { BaseMemory, DevContext } from './core/types.js';
+import { fileURLToPath } from 'url';
+import { NamedStore, Store, SearchMode, decodeCursor, searchStores } from './core/store.js';
+import { MemoryFilter, parseDuration, parseTimeBound } from './core/filter.js';
+import {
+  ResultFormat,
+  formatMemory,
+  formatMemoryList,
+  formatNeighborhood,
+  formatSearchResults,
+  formatSessionList,
+  formatSessionSummary
+} from './core/format.js';
+import { SessionManager, isValidContextId } from './core/context.js';
+import { MemoryHome, Project } from './core/projects.js';
+import { Workspace, WorkspaceConfig, openStore, openWorkspace } from './core/workspace.js';
+import { compressContexts, mergeMemories, pruneMemories, storeMemory } from './core/operations.js';
+import { EnrichmentPipeline, createDefaultPipeline } from './core/enrich.js';
+import {
+  CONFLICT_POLICIES,
+  ConflictPolicy,
+  ImportResult,
+  exportBundle,
+  exportMarkdown,
+  importBundle
+} from './core/bundle.js';
+import { writeFileAtomic } from './core/files.js';
+import { RedactingStore, RedactionBlockedError } from './core/redact.js';
+import { Cipher, loadCipher } from './core/crypto.js';
+import { DevMemoryConfig, MAX_RESULTS_LIMIT, loadConfig, pruneRequest, workspaceConfig } from './core/config.js';
+import { Direction, RELATION_TYPES, RelationType } from './core/graph.js';
+import { BaseMemory, DevContext, MEMORY_TYPES, MemoryType } from './core/types.js';
+import { parseGlobalOptions, runCli } from './cli.js';
+import { log, setLogLevel } from './core/log.js';
 
-class DevMemoryServer {
+// Filter arguments shared by the search and listing tools
+interface FilterArgs {
+  context_type?: MemoryType;
+  topics?: string[];
+  category?: string;
+  source?: string;
+  min_importance?: number;
+  since?: string;
+  until?: string;
+  metadata?: Record<string, unknown>;
+}
+
+const FILTER_PROPERTIES: Record<string, JsonSchema> = {
+  context_type: {
+    type: 'string',
+    enum: MEMORY_TYPES,
+    description: 'Only return memories of this type'
+  },
+  topics: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only return memories tagged with all of these topics'
+  },
+  category: {
+    type: 'string',
+    description: 'Only return memories in this category'
+  },
+  source: {
+    type: 'string',
+    description: 'Only return memories from this source, e.g. git'
+  },
+  min_importance: {
+    type: 'number',
+    minimum: 0,
+    description: 'Only return memories at least this important'
+  },
+  since: {
+    type: 'string',
+    description: 'Only return memories stored at or after this time: an ISO date or a relative duration with a lowercase unit, m (minutes), h (hours), d (days) or w (weeks), such as 14d, 12h or 2w'
+  },
+  until: {
+    type: 'string',
+    description: 'Only return memories stored at or before this time, in the same format as since'
+  },
+  metadata: {
+    type: 'object',
+    description: 'Only return memories whose metadata has these exact key/value pairs, e.g. {"commit": "abc123"}'
+  }
+};
+
+function toMemoryFilter(args: FilterArgs): MemoryFilter {
+  const filter: MemoryFilter = {
+    type: args.context_type,
+    topics: args.topics,
+    category: args.category,
+    source: args.source,
+    minImportance: args.min_importance,
+    metadata: args.metadata
+  };
+
+  for (const name of ['since', 'until'] as const) {
+    const value = args[name];
+    if (value === undefined) continue;
+    const bound = parseTimeBound(value);
+    if (!bound) {
+      throw Errors.InvalidParams(`Invalid ${name}: ${value}`);
+    }
+    filter[name] = bound;
+  }
+
+  return filter;
+}
+
+// Where export_memories and import_memories may write and read, besides the project
+const EXPORT_DIR = 'exports';
+
+// file with symlinks resolved in the part of its path that exists
+function realPath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    const parent = path.dirname(file);
+    return parent === file ? file : path.join(realPath(parent), path.basename(file));
+  }
+}
+
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(realPath(dir), realPath(file));
+  return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+function checkCursor(cursor: string | undefined) {
+  if (cursor !== undefined && decodeCursor(cursor) === null) {
+    throw Errors.InvalidParams(`Invalid cursor: ${cursor}`);
+  }
+}
+
+interface DevMemoryServerOptions {
+  // Defaults to loadConfig(): dev-memory.config.json and the environment
+  config?: DevMemoryConfig;
+  // Directory inside the project to use, overriding the client's roots
+  project?: string;
+}
+
+export class DevMemoryServer {
   private server: Server;
-  private store: FileStore<BaseMemory>;
-  private contextManager: DevContextManager;
+  private home: MemoryHome;
+  private projectDir?: string;
+  private global: Store<BaseMemory>;
+  private config: DevMemoryConfig;
+  private cipher: Cipher;
+  private workspaceConfig: WorkspaceConfig;
+  private workspaces = new Map<string, Promise<Workspace>>();
+  private current: Promise<Workspace> | null = null;
+  private enrichment: EnrichmentPipeline;
 
-  constructor() {
+  constructor(options: DevMemoryServerOptions = {}) {
     this.server = new Server({
       name: 'dev-memory',
       version: '0.1.0',
@@ -23,154 +164,1262 @@ class DevMemoryServer {
       }
     });
 
-    // Use absolute path for storage
-    const storageDir = path.resolve(process.cwd(), '.dev-memory');
-    console.error('Storage directory:', storageDir);
-    this.store = new FileStore<BaseMemory>(storageDir);
-    this.contextManager = new DevContextManager(this.store, {
-      maxContextSize: 100,
-      priorityThreshold: 0.7
+    this.config = options.config ?? loadConfig();
+    setLogLevel(this.config.logging.level);
+    this.home = new MemoryHome(this.config.storage.home);
+    this.projectDir = options.project;
+    this.cipher = loadCipher(this.home.dir);
+    const { redactor, ...config } = workspaceConfig(this.config);
+    this.workspaceConfig = { ...config, redactor, cipher: this.cipher };
+    log.info(
+      `Memory home: ${this.home.dir} (${config.backend} backend` +
+      `${this.cipher.enabled ? `, encrypted with key ${this.cipher.keyId}` : ''})`
+    );
+    log.debug(`Configuration${this.config.file ? ` from ${this.config.file}` : ''}:`, JSON.stringify(this.config));
+    const global = openStore(this.home.globalDir, config.backend, {
+      searchMode: config.searchMode,
+      minScore: config.minScore,
+      cipher: this.cipher
     });
-    
+    this.global = new RedactingStore(global.store, redactor);
+    this.enrichment = createDefaultPipeline();
+
+    // Re-detect the project next time it's needed
+    this.server.setRequestHandler('notifications/roots/list_changed', async () => {
+      this.current = null;
+    });
+
     this.setupHandlers();
+    this.setupMemoryTools();
+    this.setupSessionTools();
+    this.setupGraphTools();
+    this.setupProjectTools();
+    this.setupBundleTools();
+    this.setupConfigTools();
+    this.setupResources();
   }
 
-  private setupHandlers() {
-    // Store context
-    this.server.setRequestHandler('tool:store_context', async (request) => {
-      const { context_type, content, metadata } = request.params.arguments;
+  // The current project: the configured one, else the client's first file://
+  // root, else the directory the server was started from
+  private workspace(): Promise<Workspace> {
+    if (!this.current) {
+      const current = this.detectProjectDir().then(dir => this.workspaceFor(dir));
+      current.catch(() => {
+        if (this.current === current) this.current = null;
+      });
+      this.current = current;
+    }
+    return this.current;
+  }
 
-      if (!context_type || !content || !metadata) {
-        throw Errors.InvalidParams('Missing required parameters: context_type, content, metadata');
-      }
+  // The workspace of the project containing dir
+  private async workspaceFor(dir: string): Promise<Workspace> {
+    return this.workspaceForProject(await this.home.resolveProject(dir));
+  }
 
-      const memory: BaseMemory = {
-        id: randomUUID(),
-        content,
-        metadata: {
-          timestamp: new Date().toISOString(),
-          type: context_type,
-          ...metadata
-        }
-      };
+  // Workspaces are opened once per project and kept for the server's lifetime
+  private workspaceForProject(project: Project): Promise<Workspace> {
+    let workspace = this.workspaces.get(project.key);
+    if (!workspace) {
+      workspace = openWorkspace(this.home, project, this.workspaceConfig);
+      this.workspaces.set(project.key, workspace);
+      workspace.catch(() => this.workspaces.delete(project.key));
+    }
+    return workspace;
+  }
+
+  // Stores searched for a get_context scope, named for labelling results
+  private async scopeStores(
+    scope: 'project' | 'global' | 'all',
+    workspace: Workspace
+  ): Promise<NamedStore<BaseMemory>[]> {
+    const global = { name: 'global', store: this.global };
+    if (scope === 'global') return [global];
+
+    const current = { name: workspace.project.key, store: workspace.store };
+    if (scope === 'project') return [current];
 
+    const others: NamedStore<BaseMemory>[] = [];
+    for (const project of await this.home.listProjects()) {
+      if (project.key === workspace.project.key) continue;
+      const { store } = await this.workspaceForProject(project);
+      others.push({ name: project.key, store });
+    }
+    return [current, ...others, global];
+  }
+
+  // For tools taking a `project` argument: a directory inside the project
+  private async projectArg(project: string | undefined): Promise<Workspace> {
+    if (project === undefined) return this.workspace();
+    if (!fs.existsSync(project) || !fs.statSync(project).isDirectory()) {
+      throw Errors.InvalidParams(`Project directory not found: ${project}`, { project });
+    }
+    return this.workspaceFor(project);
+  }
+
+  // Bundle files stay inside the project (outside .git) or <home>/exports, so
+  // a client can't read or overwrite arbitrary files
+  private bundlePath(workspace: Workspace, file: string): string {
+    const target = path.resolve(workspace.project.root, file);
+    const inProject = isInside(workspace.project.root, target) &&
+      !isInside(path.join(workspace.project.root, '.git'), target) &&
+      !isInside(this.home.dir, target);
+    if (!inProject && !isInside(path.join(this.home.dir, EXPORT_DIR), target)) {
+      throw Errors.InvalidParams(
+        `${file} must be inside the project (outside .git) or ${path.join(this.home.dir, EXPORT_DIR)}`,
+        { path: file }
+      );
+    }
+    return target;
+  }
+
+  private async detectProjectDir(): Promise<string> {
+    if (this.projectDir) return this.projectDir;
+
+    if (this.server.getClientCapabilities().roots) {
       try {
-        await this.store.store(memory);
+        const { roots } = await this.server.request<ListRootsResponse>('roots/list', undefined, 5000);
+        const root = roots.find(candidate => candidate.uri.startsWith('file://'));
+        if (root) return fileURLToPath(root.uri);
+      } catch (error) {
+        log.warn('Could not list client roots, using the working directory:', error);
+      }
+    }
+
+    return process.cwd();
+  }
 
-        // Update development context if it's a development type
-        if (context_type === 'development') {
-          await this.contextManager.updateCodeContext([]);
+  private setupHandlers() {
+    // Store context
+    this.server.registerTool<{
+      context_type: MemoryType;
+      content: string;
+      metadata?: Partial<BaseMemory['metadata']> & Record<string, unknown>;
+      ttl?: string;
+      project?: string;
+    }>({
+      name: 'store_context',
+      description: 'Store a piece of development context (a decision, note, conversation excerpt, etc.) as a memory.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          context_type: {
+            type: 'string',
+            enum: MEMORY_TYPES,
+            description: 'Kind of memory being stored'
+          },
+          content: {
+            type: 'string',
+            minLength: 1,
+            description: 'The text to remember'
+          },
+          metadata: {
+            type: 'object',
+            description: 'Optional metadata; extra keys (e.g. commit) are stored as-is. Topics, category and importance are inferred from the content when omitted',
+            properties: {
+              importance: { type: 'number', minimum: 0, description: 'Higher is more important' },
+              category: { type: 'string' },
+              topics: { type: 'array', items: { type: 'string' } },
+              source: { type: 'string', description: 'Where the memory came from, e.g. git or chat' }
+            }
+          },
+          ttl: {
+            type: 'string',
+            pattern: '^\\d+\\s*[mhdw]$',
+            description: 'Archive the memory automatically after this long: a whole number with a lowercase unit, m (minutes), h (hours), d (days) or w (weeks), e.g. 12h, 30d or 2w'
+          },
+          project: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to a directory inside the project to use instead of the current one'
+          }
+        },
+        required: ['context_type', 'content']
+      },
+      handler: async ({ context_type, content, metadata = {}, ttl, project }) => {
+        const workspace = await this.projectArg(project);
+        const ttlMs = ttl !== undefined ? parseDuration(ttl) : undefined;
+        if (ttlMs === null) {
+          throw Errors.InvalidParams(`Invalid ttl: ${ttl}`);
         }
 
-        return {
-          content: [{
-            type: 'text',
-            text: `Context stored successfully with ID: ${memory.id}`
-          }]
-        };
-      } catch (error) {
-        throw Errors.InternalError(`Failed to store context: ${error}`);
+        try {
+          const { memory, sessionId } = await storeMemory(workspace, this.enrichment, {
+            type: context_type,
+            content,
+            metadata,
+            ttlMs
+          });
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Context stored successfully with ID: ${memory.id}` +
+                (sessionId ? ` (session ${sessionId})` : '')
+            }],
+            structuredContent: { id: memory.id, metadata: memory.metadata }
+          };
+        } catch (error) {
+          if (error instanceof RedactionBlockedError) {
+            throw Errors.InvalidParams(error.message, { detectors: error.detectors });
+          }
+          throw Errors.InternalError(`Failed to store context: ${error}`);
+        }
       }
     });
 
     // Get context
-    this.server.setRequestHandler('tool:get_context', async (request) => {
-      const { query, context_type, max_results = 5 } = request.params.arguments;
+    this.server.registerTool<FilterArgs & {
+      query: string;
+      max_results?: number;
+      min_score?: number;
+      mode?: SearchMode;
+      scope?: 'project' | 'global' | 'all';
+      project?: string;
+      session?: string;
+      cursor?: string;
+      format?: ResultFormat;
+      max_tokens?: number;
+    }>({
+      name: 'get_context',
+      description: 'Search stored memories for context relevant to a query. Each result includes the memory id, relevance score, content and metadata.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            minLength: 1,
+            description: 'Free-text search query'
+          },
+          max_results: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_RESULTS_LIMIT,
+            default: this.config.search.maxResults,
+            description: 'Maximum number of memories to return'
+          },
+          min_score: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'Minimum relevance score (0-1) for a memory to be returned'
+          },
+          mode: {
+            type: 'string',
+            enum: ['semantic', 'keyword', 'hybrid'],
+            description: 'semantic matches meaning, keyword ranks exact terms with BM25, hybrid (default) blends both'
+          },
+          scope: {
+            type: 'string',
+            enum: ['project', 'global', 'all'],
+            default: 'project',
+            description: 'project searches the current project, global the memories promoted to every project, all searches every project and global'
+          },
+          project: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to a directory inside the project to use instead of the current one'
+          },
+          session: {
+            type: 'string',
+            minLength: 1,
+            description: 'Only search memories stored during this named session'
+          },
+          ...FILTER_PROPERTIES,
+          cursor: {
+            type: 'string',
+            description: 'Cursor from a previous get_context call to fetch the next page'
+          },
+          format: {
+            type: 'string',
+            enum: ['markdown', 'json', 'compact'],
+            default: 'markdown',
+            description: 'markdown shows one block per memory, json returns the raw results, compact shows one line per memory'
+          },
+          max_tokens: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Approximate token budget for memory content; longer content is truncated and flagged'
+          }
+        },
+        required: ['query']
+      },
+      handler: async (args) => {
+        const { query, max_results = this.config.search.maxResults, min_score, mode, scope = 'project', project, session: sessionName, cursor, format, max_tokens } = args;
+        const workspace = await this.projectArg(project);
+        const { sessions } = workspace;
+        const filter = toMemoryFilter(args);
+        checkCursor(cursor);
+
+        if (sessionName !== undefined) {
+          const session = await sessions.getSession(sessionName);
+          if (!session) {
+            throw Errors.InvalidParams(`Unknown session: ${sessionName}`, { session: sessionName });
+          }
+          filter.ids = session.activeMemories;
+        }
+
+        try {
+          const stores = await this.scopeStores(scope, workspace);
+          const options = { limit: max_results, minScore: min_score, mode, filter, cursor };
+          const page = stores.length === 1
+            ? await stores[0].store.search(query, options)
+            : await searchStores(stores, query, options);
 
-      if (!query) {
-        throw Errors.InvalidParams('Missing required parameter: query');
+          for (const { name, store } of stores) {
+            const ids = page.results
+              .filter(result => (result.scope ?? name) === name)
+              .map(result => result.memory.id);
+            await store.touch(ids);
+          }
+
+          return formatSearchResults(page.results, {
+            format,
+            maxTokens: max_tokens,
+            nextCursor: page.nextCursor
+          });
+        } catch (error) {
+          throw Errors.InternalError(`Failed to get context: ${error}`);
+        }
       }
+    });
+
+    // Optimize memory
+    this.server.registerTool<{
+      strategy: 'compress' | 'prune' | 'merge';
+      dry_run?: boolean;
+      threshold?: number;
+      context_type?: MemoryType;
+      target_size?: number;
+      min_score?: number;
+    }>({
+      name: 'optimize_memory',
+      description: 'Tidy up stored memories and contexts using the given strategy.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          strategy: {
+            type: 'string',
+            enum: ['compress', 'prune', 'merge'],
+            description: 'compress removes duplicate entries, prune archives low-value memories and trims contexts, merge consolidates near-duplicate memories into one, archiving the originals'
+          },
+          dry_run: {
+            type: 'boolean',
+            default: false,
+            description: 'merge and prune: report the proposed changes without applying them'
+          },
+          threshold: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            default: 0.9,
+            description: 'merge only: minimum similarity (0-1) for two memories to count as duplicates'
+          },
+          context_type: {
+            type: 'string',
+            enum: MEMORY_TYPES,
+            description: 'merge only: restrict merging to memories of this type'
+          },
+          target_size: {
+            type: 'integer',
+            minimum: 0,
+            description: 'prune only: keep at most this many memories, archiving the lowest scoring'
+          },
+          min_score: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'prune only: archive memories whose retention score (importance, recency and access frequency, 0-1) is below this'
+          }
+        },
+        required: ['strategy']
+      },
+      handler: async ({ strategy, dry_run = false, threshold, context_type, target_size, min_score }) => {
+        const workspace = await this.workspace();
+        try {
+          if (strategy === 'merge') {
+            return await this.runMerge(workspace, { dryRun: dry_run, threshold, type: context_type });
+          }
+          if (strategy === 'prune') {
+            return await this.runPrune(workspace, { dryRun: dry_run, targetSize: target_size, minScore: min_score });
+          }
+
+          // compress: remove duplicate entries from each context
+          const optimizedCount = await compressContexts(workspace.contextManager);
 
-      try {
-        const results = await this.store.findSimilar(query, max_results);
-        const filteredResults = context_type 
-          ? results.filter(r => r.metadata.type === context_type)
-          : results;
-
-        // Return a simple string response
-        const matchCount = filteredResults.length;
-        if (matchCount === 0) {
           return {
             content: [{
               type: 'text',
-              text: 'No matching contexts found.'
+              text: `Memory optimization with strategy '${strategy}' completed. Processed ${optimizedCount} memories.`
             }]
           };
+        } catch (error) {
+          throw Errors.InternalError(`Failed to optimize memories: ${error}`);
+        }
+      }
+    });
+  }
+
+  // Archives expired and low-value memories, then trims each context
+  private async runPrune(
+    workspace: Workspace,
+    options: { dryRun: boolean; targetSize?: number; minScore?: number }
+  ) {
+    const { expired, pruned } = await pruneMemories(workspace, pruneRequest(this.config, options));
+
+    const archivedText = options.dryRun
+      ? `Would archive ${pruned.length} memories.`
+      : `Archived ${expired.length} expired and ${pruned.length} low-value memories.`;
+    const restoreHint = !options.dryRun && expired.length + pruned.length > 0
+      ? ' Use restore_memory to bring any of them back.'
+      : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: archivedText + restoreHint
+      }],
+      structuredContent: {
+        dryRun: options.dryRun,
+        expired,
+        pruned
+      }
+    };
+  }
+
+  // Folds each cluster of near-duplicate memories into a single memory
+  private async runMerge(
+    workspace: Workspace,
+    options: { dryRun: boolean; threshold?: number; type?: MemoryType }
+  ) {
+    const plans = await mergeMemories(workspace, options);
+
+    const mergedCount = plans.reduce((count, plan) => count + plan.originals.length, 0);
+    const summary = plans.length === 0
+      ? 'No near-duplicate memories found.'
+      : `${options.dryRun ? 'Would merge' : 'Merged'} ${mergedCount} memories into ${plans.length}.` +
+        (options.dryRun ? '' : ' The originals were archived; use restore_memory to bring any of them back.');
+    const details = plans.map(({ originals, merged }) => {
+      const target = options.dryRun ? 'new memory' : merged.id;
+      return `- ${originals.map(memory => memory.id).join(', ')} -> ${target}: ${merged.content.split('\n', 1)[0].slice(0, 80)}`;
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: [summary, ...details].join('\n')
+      }],
+      structuredContent: {
+        dryRun: options.dryRun,
+        merges: plans.map(({ originals, merged }) => ({
+          originals: originals.map(memory => memory.id),
+          merged: options.dryRun ? merged : merged.id
+        }))
+      }
+    };
+  }
+
+  // The namespace holding a memory: the project's, or global for ids that
+  // came from a global or all-projects search
+  private async memoryOwner(workspace: Workspace, id: string): Promise<Store<BaseMemory>> {
+    return await workspace.store.has(id) ? workspace.store : this.global;
+  }
+
+  // Direct access to individual memories by id
+  private setupMemoryTools() {
+    this.server.registerTool<{ id: string }>({
+      name: 'get_memory',
+      description: 'Fetch a single memory by id, with its full content and metadata.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'Memory id, as returned by get_context or list_memories' }
+        },
+        required: ['id']
+      },
+      handler: async ({ id }) => {
+        const owner = await this.memoryOwner(await this.workspace(), id);
+        const memory = await owner.find(id);
+        if (!memory) {
+          throw Errors.InvalidParams(`Memory not found: ${id}`, { id });
+        }
+        await owner.touch([id]);
+        return formatMemory(memory);
+      }
+    });
+
+    this.server.registerTool<{ id: string; content?: string; metadata?: Record<string, unknown> }>({
+      name: 'update_memory',
+      description: 'Correct a stored memory. Replaces the content if given and merges the metadata patch; set a metadata key to null to remove it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'Memory id' },
+          content: { type: 'string', minLength: 1, description: 'New content, replacing the old' },
+          metadata: {
+            type: 'object',
+            description: 'Metadata keys to set (null removes a key); the original timestamp is kept',
+            properties: {
+              type: { type: 'string', enum: MEMORY_TYPES },
+              importance: { type: ['number', 'null'], minimum: 0 },
+              category: { type: ['string', 'null'] },
+              topics: { type: ['array', 'null'], items: { type: 'string' } },
+              source: { type: ['string', 'null'] }
+            }
+          }
+        },
+        required: ['id']
+      },
+      handler: async ({ id, content, metadata }) => {
+        if (content === undefined && metadata === undefined) {
+          throw Errors.InvalidParams('Nothing to update: pass content and/or metadata');
+        }
+        const owner = await this.memoryOwner(await this.workspace(), id);
+
+        let updated: BaseMemory | null;
+        try {
+          updated = await owner.update(id, { content, metadata });
+        } catch (error) {
+          if (error instanceof RedactionBlockedError) {
+            throw Errors.InvalidParams(error.message, { detectors: error.detectors });
+          }
+          throw Errors.InternalError(`Failed to update memory: ${error}`);
+        }
+        if (!updated) {
+          throw Errors.InvalidParams(`Memory not found: ${id}`, { id });
+        }
+        return formatMemory(updated);
+      }
+    });
+
+    this.server.registerTool<{ id: string }>({
+      name: 'delete_memory',
+      description: 'Permanently delete a memory and remove it from every context.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'Memory id' }
+        },
+        required: ['id']
+      },
+      handler: async ({ id }) => {
+        const workspace = await this.workspace();
+        const owner = await this.memoryOwner(workspace, id);
+        if (!await owner.find(id)) {
+          throw Errors.InvalidParams(`Memory not found: ${id}`, { id });
+        }
+
+        try {
+          await owner.delete(id);
+          await workspace.contextManager.detachMemories([id]);
+        } catch (error) {
+          throw Errors.InternalError(`Failed to delete memory: ${error}`);
+        }
+
+        return {
+          content: [{ type: 'text', text: `Memory ${id} deleted.` }],
+          structuredContent: { id, deleted: true }
+        };
+      }
+    });
+
+    this.server.registerTool<FilterArgs & {
+      sort_by?: 'timestamp' | 'importance';
+      order?: 'asc' | 'desc';
+      limit?: number;
+      cursor?: string;
+      archived?: boolean;
+    }>({
+      name: 'list_memories',
+      description: 'Browse stored memories without a search query, newest first by default.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...FILTER_PROPERTIES,
+          sort_by: { type: 'string', enum: ['timestamp', 'importance'], default: 'timestamp' },
+          order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          cursor: {
+            type: 'string',
+            description: 'Cursor from a previous list_memories call to fetch the next page'
+          },
+          archived: {
+            type: 'boolean',
+            default: false,
+            description: 'List pruned and expired memories in the archive instead'
+          }
+        }
+      },
+      handler: async (args) => {
+        const { store } = await this.workspace();
+        const { sort_by, order, limit = 20, cursor, archived } = args;
+        const filter = toMemoryFilter(args);
+        checkCursor(cursor);
+
+        try {
+          const page = await store.list({ filter, sortBy: sort_by, order, limit, cursor, archived });
+          return formatMemoryList(page.memories, page.nextCursor);
+        } catch (error) {
+          throw Errors.InternalError(`Failed to list memories: ${error}`);
+        }
+      }
+    });
+
+    this.server.registerTool<{ id: string }>({
+      name: 'restore_memory',
+      description: 'Bring a pruned or expired memory back from the archive.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'Id of an archived memory' }
+        },
+        required: ['id']
+      },
+      handler: async ({ id }) => {
+        const { store } = await this.workspace();
+        let restored: BaseMemory | null;
+        try {
+          restored = await store.restore(id);
+        } catch (error) {
+          throw Errors.InternalError(`Failed to restore memory: ${error}`);
+        }
+        if (!restored) {
+          throw Errors.InvalidParams(`No archived memory with id: ${id}`, { id });
+        }
+        return formatMemory(restored);
+      }
+    });
+  }
+
+  private setupSessionTools() {
+    const sessionName: JsonSchema = {
+      type: 'string',
+      minLength: 1,
+      pattern: '[A-Za-z0-9]',
+      description: 'Session name, e.g. a feature or ticket such as auth-refactor or PROJ-123'
+    };
+
+    // Looks up a session by name, or the active one when no name is given
+    const resolveSession = async (sessions: SessionManager, name?: string) => {
+      const session = name !== undefined
+        ? await sessions.getSession(name)
+        : await sessions.getActiveSession();
+      if (!session) {
+        throw name !== undefined
+          ? Errors.InvalidParams(`Unknown session: ${name}`, { name })
+          : Errors.InvalidParams('No active session; pass a session name');
+      }
+      return session;
+    };
+
+    this.server.registerTool<{ name: string; description?: string }>({
+      name: 'start_session',
+      description: 'Start a named session and make it active. Memories stored while a session is active are attached to it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: sessionName,
+          description: { type: 'string', description: 'What the session is for' }
+        },
+        required: ['name']
+      },
+      handler: async ({ name, description }) => {
+        const { sessions } = await this.workspace();
+        if (await sessions.getSession(name)) {
+          throw Errors.InvalidParams(`Session already exists: ${name}. Use switch_session to resume it.`, { name });
+        }
+
+        const session = await sessions.startSession(name, description);
+        return {
+          content: [{ type: 'text', text: `Started session ${session.metadata.name}; new memories will be attached to it.` }],
+          structuredContent: { session: { id: session.id, name: session.metadata.name } }
+        };
+      }
+    });
+
+    this.server.registerTool<{ name: string }>({
+      name: 'switch_session',
+      description: 'Make another open session the active one.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: sessionName
+        },
+        required: ['name']
+      },
+      handler: async ({ name }) => {
+        const { sessions } = await this.workspace();
+        const session = await resolveSession(sessions, name);
+        if (session.metadata.closedAt) {
+          throw Errors.InvalidParams(`Session ${name} is closed`, { name });
+        }
+
+        await sessions.setActiveSession(session.id);
+        return {
+          content: [{ type: 'text', text: `Switched to session ${session.metadata.name}.` }],
+          structuredContent: { session: { id: session.id, name: session.metadata.name } }
+        };
+      }
+    });
+
+    this.server.registerTool<{ include_closed?: boolean }>({
+      name: 'list_sessions',
+      description: 'List named sessions with their status and memory counts.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          include_closed: {
+            type: 'boolean',
+            default: true,
+            description: 'Include sessions that have been closed'
+          }
+        }
+      },
+      handler: async ({ include_closed = true }) => {
+        const { sessions } = await this.workspace();
+        const [all, active] = await Promise.all([
+          sessions.listSessions(),
+          sessions.getActiveSession()
+        ]);
+        return formatSessionList(
+          include_closed ? all : all.filter(session => !session.metadata.closedAt),
+          active?.id ?? null
+        );
+      }
+    });
+
+    this.server.registerTool<{ name?: string }>({
+      name: 'summarize_session',
+      description: 'Summarize a session: memory counts by type, top topics and the latest entries.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { ...sessionName, description: 'Session to summarize; defaults to the active session' }
+        }
+      },
+      handler: async ({ name }) => {
+        const { store, sessions } = await this.workspace();
+        const session = await resolveSession(sessions, name);
+        const active = await sessions.getActiveSession();
+
+        try {
+          const memories: BaseMemory[] = [];
+          for (const id of session.activeMemories) {
+            const memory = await store.find(id);
+            if (memory) memories.push(memory);
+          }
+          return formatSessionSummary(session, memories, active?.id ?? null);
+        } catch (error) {
+          throw Errors.InternalError(`Failed to summarize session: ${error}`);
         }
+      }
+    });
 
-        // Create a simple text summary
-        const summaryText = filteredResults
-          .map(r => `Match: ${r.content.substring(0, 50).replace(/[^\x20-\x7E]/g, '')}`)
-          .join('. ');
+    this.server.registerTool<{ name?: string }>({
+      name: 'close_session',
+      description: 'Close a session. Its memories are kept and stay searchable by session, but it stops collecting new ones.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { ...sessionName, description: 'Session to close; defaults to the active session' }
+        }
+      },
+      handler: async ({ name }) => {
+        const { sessions } = await this.workspace();
+        const session = await resolveSession(sessions, name);
+        if (session.metadata.closedAt) {
+          throw Errors.InvalidParams(`Session ${session.metadata.name} is already closed`, { name });
+        }
 
+        await sessions.closeSession(session);
         return {
           content: [{
             type: 'text',
-            text: `Found ${matchCount} match${matchCount > 1 ? 'es' : ''}. ${summaryText}`
-          }]
+            text: `Closed session ${session.metadata.name}; its ${session.activeMemories.length} memories stay searchable with get_context session.`
+          }],
+          structuredContent: { session: { id: session.id, name: session.metadata.name } }
         };
-      } catch (error) {
-        throw Errors.InternalError(`Failed to get context: ${error}`);
       }
     });
+  }
 
-    // Optimize memory
-    this.server.setRequestHandler('tool:optimize_memory', async (request) => {
-      const { strategy } = request.params.arguments;
+  private setupGraphTools() {
+    const relationType: JsonSchema = {
+      type: 'string',
+      enum: RELATION_TYPES,
+      description: 'supersedes: replaces an older memory; caused_by: a bug or change traced to its cause; ' +
+        'implements: code or a commit realizing a decision; references: any other pointer'
+    };
+
+    this.server.registerTool<{ from: string; to: string; type: RelationType }>({
+      name: 'link_memories',
+      description: 'Record a typed relationship from one memory to another, e.g. a fix caused_by a commit.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', minLength: 1, description: 'Id of the memory the edge starts at' },
+          to: { type: 'string', minLength: 1, description: 'Id of the memory the edge points to' },
+          type: relationType
+        },
+        required: ['from', 'to', 'type']
+      },
+      handler: async ({ from, to, type }) => {
+        const { store } = await this.workspace();
+        if (from === to) {
+          throw Errors.InvalidParams('A memory cannot be linked to itself', { from, to });
+        }
+        for (const id of [from, to]) {
+          if (!(await store.find(id))) {
+            throw Errors.InvalidParams(`No memory with id: ${id}`, { id });
+          }
+        }
 
-      if (!strategy) {
-        throw Errors.InvalidParams('Missing required parameter: strategy');
+        try {
+          await store.link(from, to, type);
+          return {
+            content: [{ type: 'text', text: `Linked ${from} ${type} ${to}.` }],
+            structuredContent: { edge: { from, to, type } }
+          };
+        } catch (error) {
+          throw Errors.InternalError(`Failed to link memories: ${error}`);
+        }
       }
+    });
 
-      try {
-        const contexts = await this.contextManager.listContexts();
-        let optimizedCount = 0;
-
-        for (const contextId of contexts) {
-          const context = await this.contextManager.loadContext(contextId);
-          if (!context) continue;
-
-          switch (strategy) {
-            case 'compress':
-              // Remove duplicate memories
-              const uniqueMemories = new Set(context.activeMemories);
-              context.activeMemories = Array.from(uniqueMemories);
-              optimizedCount += context.activeMemories.length;
-              break;
-            case 'prune':
-              // Remove old memories (keep last 50)
-              context.activeMemories = context.activeMemories.slice(0, 50);
-              optimizedCount += context.activeMemories.length;
-              break;
-            case 'merge':
-              // TODO: Implement memory merging
-              break;
-            default:
-              throw Errors.InvalidParams(`Invalid strategy: ${strategy}`);
-          }
-
-          await this.contextManager.saveContext(context);
+    this.server.registerTool<{ from: string; to: string; type?: RelationType }>({
+      name: 'unlink_memories',
+      description: 'Remove relationships from one memory to another.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', minLength: 1, description: 'Id of the memory the edge starts at' },
+          to: { type: 'string', minLength: 1, description: 'Id of the memory the edge points to' },
+          type: { ...relationType, description: 'Relationship to remove; omit to remove every type' }
+        },
+        required: ['from', 'to']
+      },
+      handler: async ({ from, to, type }) => {
+        const { store } = await this.workspace();
+        let removed: RelationType[];
+        try {
+          removed = await store.unlink(from, to, type);
+        } catch (error) {
+          throw Errors.InternalError(`Failed to unlink memories: ${error}`);
         }
 
         return {
           content: [{
             type: 'text',
-            text: `Memory optimization with strategy '${strategy}' completed. Processed ${optimizedCount} memories.`
+            text: removed.length > 0
+              ? `Removed ${removed.join(', ')} from ${from} to ${to}.`
+              : `No matching link from ${from} to ${to}.`
+          }],
+          structuredContent: { removed: removed.map(removedType => ({ from, to, type: removedType })) }
+        };
+      }
+    });
+
+    this.server.registerTool<{
+      id: string;
+      depth?: number;
+      types?: RelationType[];
+      direction?: Direction;
+      limit?: number;
+    }>({
+      name: 'get_related',
+      description: 'Walk the relationship graph from a memory and return every memory within the given number of hops, with the links between them.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'Memory to start from' },
+          depth: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 5,
+            default: 2,
+            description: 'Number of hops to follow'
+          },
+          types: {
+            type: 'array',
+            items: { type: 'string', enum: RELATION_TYPES },
+            description: 'Only follow these relationship types'
+          },
+          direction: {
+            type: 'string',
+            enum: ['out', 'in', 'both'],
+            default: 'both',
+            description: 'out follows links the memory makes, in follows links made to it, both follows either'
+          },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 100,
+            default: 50,
+            description: 'Maximum number of related memories to return'
+          }
+        },
+        required: ['id']
+      },
+      handler: async ({ id, depth = 2, types, direction, limit }) => {
+        const { store } = await this.workspace();
+        let neighborhood;
+        try {
+          neighborhood = await store.related(id, { depth, types, direction, limit });
+        } catch (error) {
+          throw Errors.InternalError(`Failed to get related memories: ${error}`);
+        }
+        if (!neighborhood) {
+          throw Errors.InvalidParams(`No memory with id: ${id}`, { id });
+        }
+
+        await store.touch(neighborhood.memories.map(({ memory }) => memory.id));
+        return formatNeighborhood(neighborhood);
+      }
+    });
+  }
+
+  private setupProjectTools() {
+    this.server.registerTool<{ id: string }>({
+      name: 'promote_memory',
+      description: 'Copy a memory from the current project to the global namespace, so it is found from every project (get_context scope global or all).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'Id of a memory in the current project' }
+        },
+        required: ['id']
+      },
+      handler: async ({ id }) => {
+        const { store, project } = await this.workspace();
+        const memory = await store.find(id);
+        if (!memory) {
+          throw Errors.InvalidParams(`Memory not found: ${id}`, { id });
+        }
+
+        // Links point at memories in the project, which global can't resolve
+        const { relationships, ...rest } = memory as BaseMemory & { relationships?: unknown };
+        const promoted = {
+          ...rest,
+          metadata: { ...memory.metadata, promotedFrom: project.key }
+        } as BaseMemory;
+
+        try {
+          await this.global.store(promoted);
+        } catch (error) {
+          throw Errors.InternalError(`Failed to promote memory: ${error}`);
+        }
+        return {
+          content: [{ type: 'text', text: `Promoted ${id} from ${project.name} to global memory.` }],
+          structuredContent: { id, from: project.key }
+        };
+      }
+    });
+
+    this.server.registerTool({
+      name: 'list_projects',
+      description: 'List the projects with memories in the memory home, most recently used first.',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      },
+      handler: async () => {
+        // Opening the current project registers it
+        const { project: current } = await this.workspace();
+        const projects = await this.home.listProjects();
+        const items = projects.map(project => ({ ...project, current: project.key === current.key }));
+        const lines = items.map(item =>
+          `- ${item.key}${item.current ? ' (current)' : ''}: ${item.root}, last used ${item.lastUsed}`
+        );
+
+        return {
+          content: [{ type: 'text', text: lines.length > 0 ? lines.join('\n') : 'No projects yet.' }],
+          structuredContent: { home: this.home.dir, projects: items }
+        };
+      }
+    });
+  }
+
+  // Backups and hand-overs: JSONL bundles and Markdown project logs
+  private setupBundleTools() {
+    this.server.registerTool<{
+      path: string;
+      format?: 'jsonl' | 'markdown';
+      archived?: boolean;
+      context_type?: MemoryType;
+    }>({
+      name: 'export_memories',
+      description: 'Write the current project\'s memories to a file: a JSONL bundle with memories, contexts and links that import_memories can load, or a Markdown log grouped by type and topic.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            minLength: 1,
+            description: 'File to write, relative to the project root unless absolute. Must be inside the project (not .git) or $DEV_MEMORY_HOME/exports'
+          },
+          format: { type: 'string', enum: ['jsonl', 'markdown'], default: 'jsonl' },
+          archived: {
+            type: 'boolean',
+            default: true,
+            description: 'jsonl only: include archived memories'
+          },
+          context_type: {
+            type: 'string',
+            enum: MEMORY_TYPES,
+            description: 'Only export memories of this type'
+          }
+        },
+        required: ['path']
+      },
+      handler: async ({ path: file, format = 'jsonl', archived, context_type }) => {
+        const workspace = await this.workspace();
+        const target = this.bundlePath(workspace, file);
+        const filter = { type: context_type };
+
+        let summary: string;
+        let counts: Record<string, number>;
+        try {
+          await fs.promises.mkdir(path.dirname(target), { recursive: true });
+          if (format === 'markdown') {
+            const { text, memories } = await exportMarkdown(workspace, { filter, title: workspace.project.name });
+            await writeFileAtomic(target, text);
+            counts = { memories };
+            summary = `Wrote a Markdown log of ${memories} memories to ${target}.`;
+          } else {
+            const { text, ...result } = await exportBundle(workspace, { filter, archived, project: workspace.project.key });
+            await writeFileAtomic(target, text);
+            counts = result;
+            summary = `Exported ${result.memories} memories, ${result.archived} archived and ${result.contexts} contexts to ${target}.`;
+          }
+        } catch (error) {
+          throw Errors.InternalError(`Failed to export memories: ${error}`);
+        }
+
+        return {
+          content: [{ type: 'text', text: summary }],
+          structuredContent: { path: target, format, ...counts }
+        };
+      }
+    });
+
+    this.server.registerTool<{ path: string; on_conflict?: ConflictPolicy }>({
+      name: 'import_memories',
+      description: 'Load a JSONL bundle written by export_memories into the current project. Invalid lines are skipped and reported.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Bundle to read, relative to the project root unless absolute. Must be inside the project (not .git) or $DEV_MEMORY_HOME/exports'
+          },
+          on_conflict: {
+            type: 'string',
+            enum: CONFLICT_POLICIES,
+            default: 'skip',
+            description: 'For ids already stored: skip keeps the stored memory, overwrite replaces it, rekey imports it under a new id'
+          }
+        },
+        required: ['path']
+      },
+      handler: async ({ path: file, on_conflict }) => {
+        const workspace = await this.workspace();
+        const source = this.bundlePath(workspace, file);
+
+        let text: string;
+        try {
+          text = await fs.promises.readFile(source, 'utf-8');
+        } catch (error) {
+          throw Errors.InvalidParams(`Cannot read ${source}: ${(error as Error).message}`, { path: file });
+        }
+
+        let result: ImportResult;
+        try {
+          result = await importBundle(workspace, text, { onConflict: on_conflict });
+        } catch (error) {
+          throw Errors.InvalidParams(`Failed to import ${source}: ${(error as Error).message}`, { path: file });
+        }
+
+        const rekeyed = Object.keys(result.rekeyed).length;
+        const lines = [
+          `Imported ${result.imported} memories` +
+            (result.overwritten ? `, overwrote ${result.overwritten}` : '') +
+            (result.skipped ? `, skipped ${result.skipped} already stored` : '') +
+            (rekeyed ? `, ${rekeyed} under new ids` : '') +
+            ` and ${result.contexts} contexts.`,
+          ...result.rejected.map(({ line, reason }) => `- line ${line} rejected: ${reason}`)
+        ];
+        return {
+          content: [{ type: 'text', text: lines.join('\n') }],
+          structuredContent: { ...result }
+        };
+      }
+    });
+  }
+
+  private setupConfigTools() {
+    this.server.registerTool({
+      name: 'get_config',
+      description: 'Show the configuration this server is running with: storage, search, retention, redaction and logging settings, and whether memories are encrypted.',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      },
+      handler: async () => {
+        // The key itself is never shown, only which one is in use
+        const resolved = {
+          ...this.config,
+          encryption: { enabled: this.cipher.enabled, keyId: this.cipher.enabled ? this.cipher.keyId : null }
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resolved, null, 2) }],
+          structuredContent: resolved
+        };
+      }
+    });
+  }
+
+  private setupResources() {
+    // Registered before memory://{id} so that "recent" isn't read as an id
+    this.server.registerResourceTemplate({
+      uriTemplate: 'memory://recent{?type,limit}',
+      name: 'Recent memories',
+      description: 'Most recently stored memories, optionally filtered by type',
+      mimeType: 'application/json',
+      list: async () => [
+        {
+          uri: 'memory://recent',
+          name: 'Recent memories',
+          description: 'The 20 most recently stored memories',
+          mimeType: 'application/json'
+        },
+        {
+          uri: 'memory://recent?type=development',
+          name: 'Recent development memories',
+          description: 'The 20 most recently stored development memories',
+          mimeType: 'application/json'
+        }
+      ],
+      handler: async (uri, { type, limit }) => {
+        const { store } = await this.workspace();
+        if (type && !MEMORY_TYPES.includes(type as MemoryType)) {
+          throw Errors.InvalidParams(`Invalid memory type: ${type}`);
+        }
+        const count = limit ? parseInt(limit, 10) : 20;
+        if (!Number.isInteger(count) || count < 1) {
+          throw Errors.InvalidParams(`Invalid limit: ${limit}`);
+        }
+
+        const { memories } = await store.list({
+          filter: { type: type as MemoryType | undefined },
+          limit: count
+        });
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(memories, null, 2)
+          }]
+        };
+      }
+    });
+
+    this.server.registerResourceTemplate({
+      uriTemplate: 'memory://{id}',
+      name: 'Memory',
+      description: 'A single stored memory by id',
+      mimeType: 'application/json',
+      handler: async (uri, { id }) => {
+        const owner = await this.memoryOwner(await this.workspace(), id);
+        const memory = await owner.find(id);
+        if (!memory) {
+          throw Errors.ResourceNotFound(uri);
+        }
+        await owner.touch([id]);
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(memory, null, 2)
+          }]
+        };
+      }
+    });
+
+    this.server.registerResourceTemplate({
+      uriTemplate: 'context://{id}',
+      name: 'Context',
+      description: 'A stored context, e.g. the development context with project and code info',
+      mimeType: 'application/json',
+      list: async () => {
+        const { contextManager } = await this.workspace();
+        const contextIds = await contextManager.listContexts();
+        return contextIds.map(id => ({
+          uri: `context://${id}`,
+          name: `${id} context`,
+          mimeType: 'application/json'
+        }));
+      },
+      handler: async (uri, { id }) => {
+        if (!isValidContextId(id)) {
+          throw Errors.InvalidParams(`Invalid context id: ${id}`);
+        }
+        const { contextManager } = await this.workspace();
+        const context = await contextManager.loadContext(id);
+        if (!context) {
+          throw Errors.ResourceNotFound(uri);
+        }
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(context, null, 2)
           }]
         };
-      } catch (error) {
-        throw Errors.InternalError(`Failed to optimize memories: ${error}`);
       }
     });
   }
 
-  async start() {
-    const transport = new StdioTransport();
+  // Serves on stdio unless given another transport, e.g. in-memory streams in tests
+  async start(transport: Transport = new StdioTransport()) {
     await this.server.connect(transport);
-    console.error('Dev Memory MCP server running on stdio');
+    log.info('Dev Memory MCP server running on stdio');
+  }
+}
+
+// Whether this file is being run as the dev-memory command (directly or
+// through a bin symlink) rather than imported
+function isMain(): boolean {
+  try {
+    return process.argv[1] !== undefined && fs.realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+  } catch {
+    return false;
   }
 }
 
-// Start server
-const server = new DevMemoryServer();
-server.start().catch(console.error);
+// Start server, unless a CLI command was given. Global options (--config,
+// --home, ...) apply to both.
+if (isMain()) {
+  const { flags, rest } = parseGlobalOptions(process.argv.slice(2));
+  if (rest.length > 0) {
+    runCli(rest, flags).then(code => {
+      process.exitCode = code;
+    }).catch(error => {
+      // runCli reports command failures itself; this is anything it let slip
+      console.error(`dev-memory: ${(error as Error).message ?? error}`);
+      process.exitCode = 1;
+    });
+  } else {
+    let config: DevMemoryConfig | undefined;
+    try {
+      config = loadConfig(flags);
+    } catch (error) {
+      console.error(`dev-memory: ${(error as Error).message}`);
+      process.exitCode = 1;
+    }
+    if (config) {
+      const server = new DevMemoryServer({ config, project: process.env.DEV_MEMORY_PROJECT });
+      server.start().catch(console.error);
+    }
+  }
+}
@@ -42,18 +42,21 @@ export function createError(code: ErrorCode, message: string, data?: any): McpEr
 }
 
 export const Errors = {
-  ParseError: (message = 'Parse error') => 
-    createError(ErrorCode.ParseError, message),
+  ParseError: (message = 'Parse error', data?: any) => 
+    createError(ErrorCode.ParseError, message, data),
   
-  InvalidRequest: (message = 'Invalid request') => 
-    createError(ErrorCode.InvalidRequest, message),
+  InvalidRequest: (message = 'Invalid request', data?: any) => 
+    createError(ErrorCode.InvalidRequest, message, data),
   
-  MethodNotFound: (message = 'Method not found') => 
-    createError(ErrorCode.MethodNotFound, message),
+  MethodNotFound: (message = 'Method not found', data?: any) => 
+    createError(ErrorCode.MethodNotFound, message, data),
   
-  InvalidParams: (message = 'Invalid parameters') => 
-    createError(ErrorCode.InvalidParams, message),
+  InvalidParams: (message = 'Invalid parameters', data?: any) => 
+    createError(ErrorCode.InvalidParams, message, data),
   
-  InternalError: (message = 'Internal error') => 
-    createError(ErrorCode.InternalError, message)
+  InternalError: (message = 'Internal error', data?: any) => 
+    createError(ErrorCode.InternalError, message, data),
+
+  ResourceNotFound: (uri: string) => 
+    createError(ErrorCode.ResourceNotFound, `Resource not found: ${uri}`, { uri })
 };
@@ -0,0 +1,120 @@
+import { JsonSchema, JsonSchemaType } from './types.js';
+
+export interface SchemaViolation {
+  // JSON Pointer to the offending value, '' for the root
+  path: string;
+  message: string;
+}
+
+// Validates a value against the subset of JSON Schema used by tool input schemas:
+// type, enum, properties/required/additionalProperties, items and the usual
+// numeric, string and array bounds.
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      violations.push({ path, message: `Expected ${types.join(' or ')}, got ${describeType(value)}` });
+      return violations;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    violations.push({
+      path,
+      message: `Must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      violations.push({ path, message: `Must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `Must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        violations.push(...validateSchema(schema.items!, item, `${path}/${i}`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        violations.push({ path: `${path}/${escapePointer(key)}`, message: 'Required property is missing' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}/${escapePointer(key)}`;
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        violations.push(...validateSchema(propertySchema, propertyValue, propertyPath));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: propertyPath, message: 'Unexpected property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...validateSchema(schema.additionalProperties, propertyValue, propertyPath));
+      }
+    }
+  }
+
+  return violations;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
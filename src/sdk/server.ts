@@ -1,23 +1,73 @@
 import { 
   McpRequest, 
   McpResponse, 
+  ErrorCode,
   ServerInfo,
-  ListToolsRequest,
-  ListResourcesRequest,
+  ClientCapabilities,
+  Implementation,
+  InitializeRequest,
+  InitializeResponse,
+  ListToolsResponse,
+  ListResourcesResponse,
+  ListResourceTemplatesResponse,
   CallToolRequest,
+  CallToolResponse,
   ReadResourceRequest,
+  ReadResourceResponse,
+  JsonSchema,
   Tool,
-  Resource
+  Resource,
+  ResourceTemplate
 } from './types.js';
 import { McpError, Errors } from './errors.js';
-import { randomUUID } from 'crypto';
+import { validateSchema } from './schema.js';
+import { matchUriTemplate } from './uri.js';
 
-export type RequestHandler<T = any, R = any> = (request: McpRequest<T>) => Promise<R>;
+export interface RequestContext {
+  // Aborted when the client sends notifications/cancelled for this request
+  signal: AbortSignal;
+}
+
+export type RequestHandler<T = any, R = any> = (request: McpRequest<T>, context: RequestContext) => Promise<R>;
+
+export type ToolHandler<A = any> = (args: A, context: RequestContext) => Promise<CallToolResponse>;
+
+export interface ToolDefinition<A = any> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  handler: ToolHandler<A>;
+}
+
+export type ResourceHandler = (
+  uri: string,
+  params: Record<string, string>,
+  context: RequestContext
+) => Promise<ReadResourceResponse>;
+
+export interface ResourceDefinition extends Resource {
+  handler: ResourceHandler;
+}
+
+export interface ResourceTemplateDefinition extends ResourceTemplate {
+  // Concrete resources to advertise in resources/list
+  list?: () => Promise<Resource[]>;
+  handler: ResourceHandler;
+}
+
+// Newest first; the first entry is offered when the client asks for a version we don't know
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
 
 export class Server {
   private handlers: Map<string, RequestHandler> = new Map();
+  private tools: Map<string, ToolDefinition> = new Map();
+  private resources: Map<string, ResourceDefinition> = new Map();
+  private resourceTemplates: ResourceTemplateDefinition[] = [];
   private info: ServerInfo;
   private transport: Transport | null = null;
+  private clientInfo: Implementation | null = null;
+  private clientCapabilities: ClientCapabilities = {};
+  private initialized = false;
 
   constructor(info: ServerInfo) {
     this.info = info;
@@ -25,36 +75,180 @@ export class Server {
   }
 
   private setupDefaultHandlers() {
+    // Lifecycle
+    this.setRequestHandler<InitializeRequest, InitializeResponse>('initialize', async (request) => {
+      const { protocolVersion, capabilities, clientInfo } = request.params ?? {};
+
+      this.clientInfo = clientInfo ?? null;
+      this.clientCapabilities = capabilities ?? {};
+
+      return {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)
+          ? protocolVersion
+          : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: {
+          ...(this.info.capabilities?.tools ? { tools: {} } : {}),
+          ...(this.info.capabilities?.resources ? { resources: {} } : {})
+        },
+        serverInfo: {
+          name: this.info.name,
+          version: this.info.version
+        }
+      };
+    });
+
+    this.setRequestHandler('notifications/initialized', async () => {
+      this.initialized = true;
+    });
+
+    this.setRequestHandler('ping', async () => ({}));
+
     // List available tools
-    this.setRequestHandler('list_tools', async () => ({
-      tools: Array.from(this.handlers.entries())
-        .filter(([method]) => method.startsWith('tool:'))
-        .map(([method]) => ({
-          name: method.replace('tool:', ''),
-          description: 'Tool description',
-          inputSchema: {}
-        }))
-    }));
-
-    // List available resources
-    this.setRequestHandler('list_resources', async () => ({
-      resources: Array.from(this.handlers.entries())
-        .filter(([method]) => method.startsWith('resource:'))
-        .map(([method]) => ({
-          uri: method.replace('resource:', ''),
-          name: 'Resource name',
-          description: 'Resource description'
+    this.setRequestHandler<unknown, ListToolsResponse>('tools/list', async () => {
+      this.requireCapability('tools');
+      return {
+        tools: Array.from(this.tools.values()).map(({ name, description, inputSchema }): Tool => ({
+          name,
+          description,
+          inputSchema
         }))
-    }));
+      };
+    });
+
+    // Validate arguments against the tool's schema before dispatching
+    this.setRequestHandler<CallToolRequest>('tools/call', async (request, context) => {
+      this.requireCapability('tools');
+      const name = request.params?.name;
+      if (!name || typeof name !== 'string') {
+        throw Errors.InvalidParams('Missing required parameter: name');
+      }
+
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw Errors.InvalidParams(`Unknown tool: ${name}`);
+      }
+
+      const args = request.params.arguments ?? {};
+      const violations = validateSchema(tool.inputSchema, args);
+      if (violations.length > 0) {
+        const summary = violations
+          .map(violation => `${violation.path || '/'}: ${violation.message}`)
+          .join('; ');
+        throw Errors.InvalidParams(`Invalid arguments for tool ${name}: ${summary}`, {
+          tool: name,
+          errors: violations
+        });
+      }
+
+      return tool.handler(args, context);
+    });
+
+    // List available resources, including those enumerated by templates
+    this.setRequestHandler<unknown, ListResourcesResponse>('resources/list', async () => {
+      this.requireCapability('resources');
+
+      const resources: Resource[] = Array.from(this.resources.values())
+        .map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }));
+
+      for (const template of this.resourceTemplates) {
+        if (template.list) {
+          resources.push(...await template.list());
+        }
+      }
+
+      return { resources };
+    });
+
+    this.setRequestHandler<unknown, ListResourceTemplatesResponse>('resources/templates/list', async () => {
+      this.requireCapability('resources');
+      return {
+        resourceTemplates: this.resourceTemplates
+          .map(({ uriTemplate, name, description, mimeType }) => ({ uriTemplate, name, description, mimeType }))
+      };
+    });
+
+    // Exact resources win over templates; templates are tried in registration order
+    this.setRequestHandler<ReadResourceRequest>('resources/read', async (request, context) => {
+      this.requireCapability('resources');
+      const uri = request.params?.uri;
+      if (!uri || typeof uri !== 'string') {
+        throw Errors.InvalidParams('Missing required parameter: uri');
+      }
+
+      const resource = this.resources.get(uri);
+      if (resource) {
+        return resource.handler(uri, {}, context);
+      }
+
+      for (const template of this.resourceTemplates) {
+        const params = matchUriTemplate(template.uriTemplate, uri);
+        if (params) {
+          return template.handler(uri, params, context);
+        }
+      }
+
+      throw Errors.ResourceNotFound(uri);
+    });
+  }
+
+  private requireCapability(capability: 'tools' | 'resources') {
+    if (!this.info.capabilities?.[capability]) {
+      throw Errors.MethodNotFound(`Server does not support ${capability}`);
+    }
   }
 
   public setRequestHandler<T = any, R = any>(method: string, handler: RequestHandler<T, R>) {
     this.handlers.set(method, handler);
   }
 
-  public async handleRequest(request: McpRequest): Promise<McpResponse> {
+  public registerTool<A = any>(tool: ToolDefinition<A>) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  public registerResource(resource: ResourceDefinition) {
+    if (this.resources.has(resource.uri)) {
+      throw new Error(`Resource already registered: ${resource.uri}`);
+    }
+    this.resources.set(resource.uri, resource);
+  }
+
+  public registerResourceTemplate(template: ResourceTemplateDefinition) {
+    this.resourceTemplates.push(template);
+  }
+
+  public getClientInfo(): Implementation | null {
+    return this.clientInfo;
+  }
+
+  public getClientCapabilities(): ClientCapabilities {
+    return this.clientCapabilities;
+  }
+
+  // Sends a request to the client, e.g. roots/list
+  public async request<R = any>(method: string, params?: unknown, timeoutMs?: number): Promise<R> {
+    if (!this.transport) {
+      throw new Error('Server is not connected');
+    }
+    return this.transport.request<R>(method, params, timeoutMs);
+  }
+
+  public isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  // Resolves to null for notifications, which must not be answered
+  public async handleRequest(
+    request: McpRequest,
+    context: RequestContext = { signal: new AbortController().signal }
+  ): Promise<McpResponse | null> {
+    const isNotification = request?.id === undefined;
+    const id = request?.id ?? null;
+
     try {
-      if (!request.jsonrpc || request.jsonrpc !== '2.0') {
+      if (!request || request.jsonrpc !== '2.0') {
         throw Errors.InvalidRequest('Invalid JSON-RPC version');
       }
 
@@ -62,33 +256,41 @@ export class Server {
         throw Errors.InvalidRequest('Invalid method');
       }
 
-      // Generate a request ID if none provided
-      const requestId = request.id ?? randomUUID();
-
       const handler = this.handlers.get(request.method);
       if (!handler) {
         throw Errors.MethodNotFound(`Method not found: ${request.method}`);
       }
 
-      const result = await handler(request);
+      const result = await handler(request, context);
+      if (isNotification) return null;
+
       return {
         jsonrpc: '2.0',
-        result,
-        id: requestId
+        result: result ?? {},
+        id: id!
       };
     } catch (error) {
+      // Notifications are fire-and-forget, even when they fail
+      if (isNotification && typeof request?.method === 'string') {
+        const unhandled = McpError.isInstance(error) && error.code === ErrorCode.MethodNotFound;
+        if (!unhandled) {
+          console.error(`Error handling notification ${request.method}:`, error);
+        }
+        return null;
+      }
+
       if (McpError.isInstance(error)) {
         return {
           jsonrpc: '2.0',
           error: error.toJSON(),
-          id: request.id ?? randomUUID()
+          id
         };
       }
 
       return {
         jsonrpc: '2.0',
         error: Errors.InternalError(error instanceof Error ? error.message : 'Internal error').toJSON(),
-        id: request.id ?? randomUUID()
+        id
       };
     }
   }
@@ -106,43 +308,217 @@ export class Server {
   }
 }
 
+export type MessageHandler = (request: McpRequest, context: RequestContext) => Promise<McpResponse | null>;
+
 export interface Transport {
-  connect(handler: (request: McpRequest) => Promise<McpResponse>): Promise<void>;
+  connect(handler: MessageHandler): Promise<void>;
   close(): Promise<void>;
+  // Server-initiated request; rejects with the client's error or on timeout
+  request<R = any>(method: string, params?: unknown, timeoutMs?: number): Promise<R>;
 }
 
+interface OutgoingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+export interface StdioTransportOptions {
+  // Defaults to process.stdin / process.stdout; pass in-memory streams to drive the transport in tests
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+// Newline-delimited JSON-RPC over a pair of streams
 export class StdioTransport implements Transport {
-  private handler: ((request: McpRequest) => Promise<McpResponse>) | null = null;
-  private requestId = 0;
+  private handler: MessageHandler | null = null;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private ownsProcess: boolean;
+  private buffer = '';
+  private inFlight: Map<string | number, AbortController> = new Map();
+  private outgoing: Map<string | number, OutgoingRequest> = new Map();
+  private nextRequestId = 0;
 
-  async connect(handler: (request: McpRequest) => Promise<McpResponse>) {
+  constructor(options: StdioTransportOptions = {}) {
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.ownsProcess = !options.input;
+  }
+
+  async connect(handler: MessageHandler) {
     this.handler = handler;
 
-    process.stdin.setEncoding('utf8');
-    process.stdin.on('data', async (data) => {
-      try {
-        const request = JSON.parse(data.toString()) as McpRequest;
-        const response = await this.handler!(request);
-        process.stdout.write(JSON.stringify(response) + '\n');
-      } catch (error) {
-        const response: McpResponse = {
-          jsonrpc: '2.0',
-          error: Errors.ParseError(error instanceof Error ? error.message : 'Parse error').toJSON(),
-          id: String(this.requestId++)
-        };
-        process.stdout.write(JSON.stringify(response) + '\n');
-      }
-    });
+    this.input.setEncoding('utf8');
+    this.input.on('data', this.onData);
+    this.input.on('end', this.onEnd);
 
     // Handle process termination
-    process.on('SIGINT', () => this.close());
-    process.on('SIGTERM', () => this.close());
+    if (this.ownsProcess) {
+      process.on('SIGINT', this.onSignal);
+      process.on('SIGTERM', this.onSignal);
+    }
   }
 
   async close() {
     this.handler = null;
-    process.stdin.removeAllListeners();
-    process.removeAllListeners('SIGINT');
-    process.removeAllListeners('SIGTERM');
+    this.input.removeListener('data', this.onData);
+    this.input.removeListener('end', this.onEnd);
+
+    for (const controller of this.inFlight.values()) {
+      controller.abort();
+    }
+    this.inFlight.clear();
+
+    for (const pending of this.outgoing.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Transport closed'));
+    }
+    this.outgoing.clear();
+
+    if (this.ownsProcess) {
+      process.removeListener('SIGINT', this.onSignal);
+      process.removeListener('SIGTERM', this.onSignal);
+    }
+  }
+
+  request<R = any>(method: string, params?: unknown, timeoutMs = DEFAULT_REQUEST_TIMEOUT): Promise<R> {
+    // Prefixed so our ids can't be confused with the client's
+    const id = `server-${++this.nextRequestId}`;
+
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.outgoing.delete(id);
+        reject(new Error(`Request ${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.outgoing.set(id, { resolve, reject, timer });
+
+      // Written straight away, as responses are
+      this.output.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  }
+
+  private onData = (chunk: string | Buffer) => {
+    this.buffer += chunk.toString();
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      this.processLine(line);
+    }
+  };
+
+  private onEnd = () => {
+    // Accept a final message without a trailing newline
+    const line = this.buffer;
+    this.buffer = '';
+    this.processLine(line);
+  };
+
+  private onSignal = () => {
+    this.close();
+  };
+
+  private processLine(line: string) {
+    const frame = line.trim();
+    if (!frame || !this.handler) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(frame);
+    } catch (error) {
+      this.respond(Promise.resolve(this.errorResponse(
+        Errors.ParseError(error instanceof Error ? error.message : 'Parse error')
+      )));
+      return;
+    }
+
+    if (Array.isArray(message)) {
+      this.respond(this.handleBatch(message));
+    } else {
+      this.respond(this.handleMessage(message));
+    }
+  }
+
+  private async handleBatch(messages: unknown[]): Promise<McpResponse[] | McpResponse | null> {
+    if (messages.length === 0) {
+      return this.errorResponse(Errors.InvalidRequest('Empty batch'));
+    }
+
+    const responses = await Promise.all(messages.map(message => this.handleMessage(message)));
+    const answered = responses.filter((response): response is McpResponse => response !== null);
+    return answered.length > 0 ? answered : null;
+  }
+
+  private async handleMessage(message: unknown): Promise<McpResponse | null> {
+    if (!message || typeof message !== 'object') {
+      return this.errorResponse(Errors.InvalidRequest('Message must be a JSON object'));
+    }
+
+    const request = message as McpRequest;
+
+    // Responses from the client to our own requests
+    if (!('method' in request) && ('result' in request || 'error' in request)) {
+      const response = message as McpResponse;
+      const pending = response.id !== null ? this.outgoing.get(response.id) : undefined;
+      if (pending) {
+        this.outgoing.delete(response.id!);
+        clearTimeout(pending.timer);
+        if (response.error) {
+          pending.reject(McpError.fromJSON(response.error));
+        } else {
+          pending.resolve(response.result);
+        }
+      }
+      return null;
+    }
+
+    if (request.method === 'notifications/cancelled') {
+      const requestId = request.params?.requestId;
+      this.inFlight.get(requestId)?.abort(request.params?.reason);
+      return null;
+    }
+
+    const controller = new AbortController();
+    const id = request.id;
+    if (id !== undefined) {
+      this.inFlight.set(id, controller);
+    }
+
+    try {
+      const response = await this.handler!(request, { signal: controller.signal });
+      // Cancelled requests are not answered
+      return controller.signal.aborted ? null : response;
+    } finally {
+      if (id !== undefined && this.inFlight.get(id) === controller) {
+        this.inFlight.delete(id);
+      }
+    }
+  }
+
+  // Writes a response as soon as it settles, so a slow or cancelled request
+  // doesn't hold back the ones that arrived after it. A batch's responses
+  // stay together, in the batch's order.
+  private respond(pending: Promise<McpResponse[] | McpResponse | null>) {
+    pending
+      .catch(error => this.errorResponse(
+        Errors.InternalError(error instanceof Error ? error.message : 'Internal error')
+      ))
+      .then(response => {
+        if (response) {
+          this.output.write(JSON.stringify(response) + '\n');
+        }
+      });
+  }
+
+  private errorResponse(error: McpError): McpResponse {
+    return {
+      jsonrpc: '2.0',
+      error: error.toJSON(),
+      id: null
+    };
   }
 }
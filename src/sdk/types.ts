@@ -3,14 +3,16 @@ export interface McpRequest<T = any> {
   jsonrpc: '2.0';
   method: string;
   params: T;
-  id: string | number;
+  // Absent for notifications, which never get a response
+  id?: string | number;
 }
 
 export interface McpResponse<T = any> {
   jsonrpc: '2.0';
   result?: T;
   error?: McpError;
-  id: string | number;
+  // Null only when the request id could not be determined
+  id: string | number | null;
 }
 
 export interface McpError {
@@ -24,7 +26,8 @@ export enum ErrorCode {
   InvalidRequest = -32600,
   MethodNotFound = -32601,
   InvalidParams = -32602,
-  InternalError = -32603
+  InternalError = -32603,
+  ResourceNotFound = -32002
 }
 
 // Server capabilities
@@ -40,11 +43,58 @@ export interface ServerInfo {
   capabilities?: ServerCapabilities;
 }
 
+// Lifecycle
+export interface Implementation {
+  name: string;
+  version: string;
+}
+
+export interface ClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: object;
+  experimental?: Record<string, object>;
+}
+
+export interface InitializeRequest {
+  protocolVersion: string;
+  capabilities: ClientCapabilities;
+  clientInfo: Implementation;
+}
+
+export interface InitializeResponse {
+  protocolVersion: string;
+  capabilities: {
+    tools?: { listChanged?: boolean };
+    resources?: { subscribe?: boolean; listChanged?: boolean };
+  };
+  serverInfo: Implementation;
+}
+
 // Tool schemas
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
 export interface Tool {
   name: string;
   description: string;
-  inputSchema: object;
+  inputSchema: JsonSchema;
 }
 
 export interface Resource {
@@ -54,26 +104,41 @@ export interface Resource {
   mimeType?: string;
 }
 
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
 // Request schemas
 export interface ListToolsRequest {
-  type: 'list_tools';
+  cursor?: string;
 }
 
 export interface ListResourcesRequest {
-  type: 'list_resources';
+  cursor?: string;
 }
 
 export interface CallToolRequest {
-  type: 'call_tool';
   name: string;
-  arguments: any;
+  arguments?: any;
 }
 
 export interface ReadResourceRequest {
-  type: 'read_resource';
   uri: string;
 }
 
+// Roots the client exposes to the server (server -> client roots/list)
+export interface Root {
+  uri: string;
+  name?: string;
+}
+
+export interface ListRootsResponse {
+  roots: Root[];
+}
+
 // Response schemas
 export interface ListToolsResponse {
   tools: Tool[];
@@ -83,11 +148,17 @@ export interface ListResourcesResponse {
   resources: Resource[];
 }
 
+export interface ListResourceTemplatesResponse {
+  resourceTemplates: ResourceTemplate[];
+}
+
 export interface CallToolResponse {
   content: Array<{
     type: string;
     text: string;
   }>;
+  // Machine-readable copy of the result for clients that support it
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -0,0 +1,44 @@
+// Minimal RFC 6570 matching for resource templates. Supports simple
+// expressions (`{id}`, one path segment each) and a trailing form-style
+// query expression (`{?type,limit}`), which is optional when matching.
+export function matchUriTemplate(template: string, uri: string): Record<string, string> | null {
+  const groups: Array<{ query: false; name: string } | { query: true; names: string[] }> = [];
+  let pattern = '';
+  let last = 0;
+
+  for (const expression of template.matchAll(/\{(\??)([^}]+)\}/g)) {
+    pattern += escapeRegExp(template.slice(last, expression.index));
+    if (expression[1] === '?') {
+      groups.push({ query: true, names: expression[2].split(',').map(name => name.trim()) });
+      pattern += '(?:\\?([^#]*))?';
+    } else {
+      groups.push({ query: false, name: expression[2].trim() });
+      pattern += '([^/?#]+)';
+    }
+    last = expression.index! + expression[0].length;
+  }
+  pattern += escapeRegExp(template.slice(last));
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  groups.forEach((group, i) => {
+    const value = match[i + 1];
+    if (value === undefined) return;
+
+    if (group.query) {
+      for (const [key, param] of new URLSearchParams(value)) {
+        if (group.names.includes(key)) params[key] = param;
+      }
+    } else {
+      params[group.name] = decodeURIComponent(value);
+    }
+  });
+
+  return params;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
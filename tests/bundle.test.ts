@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { exportBundle, importBundle } from '../src/core/bundle.js';
+import { OpenedStore, openStore } from '../src/core/workspace.js';
+import { BaseMemory } from '../src/core/types.js';
+
+const HEADER = JSON.stringify({ format: 'dev-memory-bundle', version: 1, exportedAt: '2024-01-01T00:00:00.000Z' });
+
+function memory(id: string, content = `memory ${id}`): BaseMemory {
+  return { id, content, metadata: { type: 'custom', timestamp: '2024-01-01T00:00:00.000Z' } };
+}
+
+const bundle = (...records: unknown[]) =>
+  [HEADER, ...records.map(record => typeof record === 'string' ? record : JSON.stringify(record))].join('\n');
+
+describe('importBundle', () => {
+  let dir: string;
+  let target: OpenedStore;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dev-memory-bundle-'));
+    target = openStore(path.join(dir, 'ns'), 'file');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects a bundle without a header, or from a newer version', async () => {
+    await expect(importBundle(target, JSON.stringify({ kind: 'memory', memory: memory('a') }))).rejects
+      .toThrow('Not a dev-memory bundle');
+    await expect(importBundle(target, JSON.stringify({ format: 'dev-memory-bundle', version: 99 }))).rejects
+      .toThrow('Unsupported bundle version');
+  });
+
+  it('reports invalid lines by number and imports the rest', async () => {
+    const result = await importBundle(target, bundle(
+      { kind: 'memory', memory: memory('good') },
+      '{not json',
+      { kind: 'note' },
+      { kind: 'memory', memory: { ...memory('bad-type'), metadata: { type: 'nope', timestamp: '2024-01-01' } } },
+      { kind: 'memory', memory: { ...memory('bad-time'), metadata: { type: 'custom', timestamp: 'yesterday' } } },
+      { kind: 'memory', memory: { id: 'no-content', metadata: memory('x').metadata } },
+      { kind: 'memory', memory: memory('good') },
+      { kind: 'context', context: { id: 'ctx', activeMemories: 'good', metadata: { type: 'custom' } } }
+    ));
+
+    expect(result.imported).toBe(1);
+    expect(result.rejected.map(rejection => rejection.line)).toEqual([3, 4, 5, 6, 7, 8, 9]);
+    expect(result.rejected[0].reason).toMatch(/invalid JSON/);
+    expect(result.rejected[1].reason).toMatch(/kind must be/);
+    expect(result.rejected[5].reason).toMatch(/duplicate memory id good/);
+    expect(await target.store.has('good')).toBe(true);
+  });
+
+  it('rejects context ids that would escape the context directory', async () => {
+    const result = await importBundle(target, bundle(
+      { kind: 'context', context: { id: '../../../ctxescape', activeMemories: [], metadata: { type: 'custom' } } },
+      { kind: 'context', context: { id: 'a/b', activeMemories: [], metadata: { type: 'custom' } } },
+      { kind: 'context', context: { id: 'fine', activeMemories: [], metadata: { type: 'custom' } } }
+    ));
+
+    expect(result.contexts).toBe(1);
+    expect(result.rejected.map(rejection => rejection.line)).toEqual([2, 3]);
+    expect(result.rejected[0].reason).toMatch(/context id/);
+    expect(fs.existsSync(path.join(dir, 'ctxescape.json'))).toBe(false);
+    expect(await target.contexts.list()).toEqual(['fine']);
+  });
+
+  it('skips, overwrites or rekeys ids that are already stored', async () => {
+    await target.store.store(memory('a', 'stored'));
+    const text = bundle({ kind: 'memory', memory: memory('a', 'imported') });
+
+    expect((await importBundle(target, text)).skipped).toBe(1);
+    expect((await target.store.find('a'))?.content).toBe('stored');
+
+    expect((await importBundle(target, text, { onConflict: 'overwrite' })).overwritten).toBe(1);
+    expect((await target.store.find('a'))?.content).toBe('imported');
+
+    const { rekeyed } = await importBundle(target, text, { onConflict: 'rekey' });
+    expect(Object.keys(rekeyed)).toEqual(['a']);
+    expect((await target.store.find(rekeyed.a))?.content).toBe('imported');
+  });
+
+  it('round-trips an export, archived memories included', async () => {
+    await target.store.store(memory('live'));
+    await target.store.store(memory('old'));
+    await target.store.archive('old');
+    const { text } = await exportBundle(target);
+
+    const copy = openStore(path.join(dir, 'copy'), 'file');
+    const result = await importBundle(copy, text);
+    expect(result.imported).toBe(2);
+    expect(result.rejected).toEqual([]);
+    expect((await copy.store.list({ archived: true })).memories.map(m => m.id)).toEqual(['old']);
+  });
+});
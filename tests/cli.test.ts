@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { tempDir } from './helpers.js';
+
+let dir: string;
+let home: string;
+let output: string[];
+let errors: string[];
+const cwd = process.cwd();
+
+beforeEach(() => {
+  dir = tempDir('cli');
+  home = path.join(dir, 'home');
+  fs.mkdirSync(path.join(dir, 'project'));
+  process.chdir(path.join(dir, 'project'));
+  vi.stubEnv('DEV_MEMORY_KEY', '');
+  vi.stubEnv('DEV_MEMORY_KEY_FILE', '');
+  output = [];
+  errors = [];
+  vi.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+  vi.spyOn(console, 'error').mockImplementation((...args) => { errors.push(args.join(' ')); });
+});
+afterEach(() => {
+  process.chdir(cwd);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Runs a command and resolves to its exit code and what it printed
+async function run(...argv: string[]): Promise<{ code: number; text: string }> {
+  output = [];
+  const code = await runCli(argv, { home });
+  return { code, text: output.join('\n') };
+}
+
+const json = async (...argv: string[]) => JSON.parse((await run(...argv, '--json')).text);
+
+describe('dev-memory CLI', () => {
+  it('adds, shows, edits and removes a memory', async () => {
+    const added = await json('add', '--type', 'development', '--topic', 'db', '--importance', '4', 'Use', 'pgbouncer', 'for', 'pooling');
+    expect(added.metadata).toMatchObject({ type: 'development', topics: ['db'], importance: 4, source: 'cli' });
+
+    const shown = await run('show', added.id);
+    expect(shown.text).toContain(`### ${added.id}`);
+    expect(shown.text).toContain('Use pgbouncer for pooling');
+
+    const edited = await json('edit', added.id, '--content', 'Use pgbouncer in transaction mode', '--unset', 'importance');
+    expect(edited.content).toBe('Use pgbouncer in transaction mode');
+    expect(edited.metadata.importance).toBeUndefined();
+
+    expect((await run('rm', added.id)).text).toBe('Deleted 1 memory.');
+    expect(await run('show', added.id)).toMatchObject({ code: 1 });
+    expect(errors.at(-1)).toContain(`Memory not found: ${added.id}`);
+  });
+
+  it('searches and lists with filters', async () => {
+    const db = (await json('add', '--category', 'ops', 'Database failover runbook for the primary')).id;
+    await run('add', '--type', 'conversation', 'Discussed the chart colours');
+
+    const results = await json('search', 'database', 'failover', '--mode', 'keyword');
+    expect(results.map((result: any) => result.memory.id)).toEqual([db]);
+    expect((await run('search', 'kubernetes', '--mode', 'keyword')).text).toBe('No matching memories.');
+
+    const table = (await run('ls', '--category', 'ops')).text.split('\n');
+    expect(table[0]).toMatch(/^ID\s+TYPE\s+STORED\s+IMPORTANCE\s+TOPICS\s+PREVIEW$/);
+    expect(table).toHaveLength(2);
+    expect(table[1]).toContain(db);
+    expect((await json('ls', '--type', 'conversation')).map((memory: any) => memory.content)).toEqual(['Discussed the chart colours']);
+    expect((await run('ls', '--archived')).text).toBe('No archived memories.');
+  });
+
+  it('lists contexts and counts memories by type', async () => {
+    await run('add', '--type', 'development', 'Bumped the Node version');
+    await run('add', 'A custom note');
+    await run('add', 'Another custom note');
+
+    expect(await json('contexts')).toEqual([
+      expect.objectContaining({ id: 'development', type: 'development', memories: 1 })
+    ]);
+
+    const counts = await json('stats');
+    expect(counts).toMatchObject({ backend: 'file', contexts: 1, sessions: 0, activeSession: null });
+    expect(counts.memories).toMatchObject({ development: 1, custom: 2, conversation: 0 });
+    expect((await run('stats')).text).toMatch(/total\s+3\s+0/);
+  });
+
+  it('optimizes by merging duplicates and pruning', async () => {
+    await run('add', 'Restart the worker after changing the queue config');
+    await run('add', 'Restart the worker after changing the queue config');
+
+    const dryRun = await json('optimize', '--strategy', 'merge', '--dry-run');
+    expect(dryRun.merges).toHaveLength(1);
+    expect(dryRun.merges[0].merged).toBeNull();
+    expect((await json('ls')).length).toBe(2);
+
+    expect((await run('optimize', '--strategy', 'merge')).text).toMatch(/^Merged 2 memories into 1\./);
+    expect((await json('ls')).length).toBe(1);
+
+    expect((await json('optimize', '--strategy', 'prune', '--target-size', '0', '--dry-run')).pruned).toHaveLength(1);
+    expect((await run('optimize', '--strategy', 'compress')).code).toBe(0);
+  });
+
+  it('exits 2 with the usage for bad arguments', async () => {
+    expect((await run('add', '  ')).code).toBe(2);
+    expect(errors.at(-1)).toMatch(/^add needs the memory content[\s\S]*Usage/);
+    expect((await run('optimize')).code).toBe(2);
+    expect((await run('ls', '--limit', 'lots')).code).toBe(2);
+    expect((await run('show', 'a', 'b')).code).toBe(2);
+    expect((await run('frobnicate')).code).toBe(2);
+    expect(errors.at(-1)).toContain('Unknown command: frobnicate');
+  });
+});
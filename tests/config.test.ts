@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseGlobalOptions } from '../src/cli.js';
+import { CONFIG_FILE, loadConfig, pruneRequest } from '../src/core/config.js';
+import { tempDir } from './helpers.js';
+
+const VARIABLES = [
+  'DEV_MEMORY_HOME',
+  'DEV_MEMORY_CONFIG',
+  'DEV_MEMORY_BACKEND',
+  'DEV_MEMORY_SEARCH_MODE',
+  'DEV_MEMORY_MAX_RESULTS',
+  'DEV_MEMORY_LOG_LEVEL'
+];
+
+let dir: string;
+let home: string;
+beforeEach(() => {
+  dir = tempDir('config');
+  home = path.join(dir, 'home');
+  fs.mkdirSync(home);
+  for (const variable of VARIABLES) vi.stubEnv(variable, '');
+  vi.stubEnv('DEV_MEMORY_HOME', home);
+});
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const writeConfig = (file: string, config: object) => {
+  fs.writeFileSync(file, JSON.stringify(config));
+  return file;
+};
+
+describe('loadConfig', () => {
+  it('uses the defaults without a config file', () => {
+    const config = loadConfig();
+
+    expect(config.file).toBeNull();
+    expect(config.storage).toEqual({ home, backend: 'file' });
+    expect(config.search).toEqual({ mode: 'hybrid', maxResults: 5, minScore: 0.1 });
+    expect(config.logging.level).toBe('info');
+  });
+
+  it('lets the environment override the file and flags override both', () => {
+    writeConfig(path.join(home, CONFIG_FILE), {
+      storage: { backend: 'sqlite' },
+      search: { mode: 'keyword', maxResults: 10 },
+      logging: { level: 'debug' }
+    });
+
+    expect(loadConfig().search).toMatchObject({ mode: 'keyword', maxResults: 10 });
+
+    vi.stubEnv('DEV_MEMORY_SEARCH_MODE', 'semantic');
+    vi.stubEnv('DEV_MEMORY_MAX_RESULTS', '20');
+    const fromEnv = loadConfig();
+    expect(fromEnv.file).toBe(path.join(home, CONFIG_FILE));
+    expect(fromEnv.storage.backend).toBe('sqlite');
+    expect(fromEnv.search).toMatchObject({ mode: 'semantic', maxResults: 20 });
+
+    const fromFlags = loadConfig({ searchMode: 'hybrid', backend: 'file', logLevel: 'warn' });
+    expect(fromFlags.storage.backend).toBe('file');
+    expect(fromFlags.search).toMatchObject({ mode: 'hybrid', maxResults: 20 });
+    expect(fromFlags.logging.level).toBe('warn');
+  });
+
+  it('reads --config, else $DEV_MEMORY_CONFIG, else the file in the home', () => {
+    writeConfig(path.join(home, CONFIG_FILE), { search: { maxResults: 2 } });
+    const fromEnv = writeConfig(path.join(dir, 'env.json'), { search: { maxResults: 3 } });
+    const fromFlag = writeConfig(path.join(dir, 'flag.json'), { search: { maxResults: 4 } });
+
+    expect(loadConfig().search.maxResults).toBe(2);
+    vi.stubEnv('DEV_MEMORY_CONFIG', fromEnv);
+    expect(loadConfig().search.maxResults).toBe(3);
+    expect(loadConfig({ config: fromFlag }).search.maxResults).toBe(4);
+    expect(() => loadConfig({ config: path.join(dir, 'missing.json') })).toThrow('Config file not found');
+  });
+
+  it('resolves storage.home against the config file, unless the environment or a flag sets it', () => {
+    const file = writeConfig(path.join(dir, 'team.json'), { storage: { home: 'memories' } });
+
+    expect(loadConfig({ config: file }).storage.home).toBe(home);
+    vi.stubEnv('DEV_MEMORY_HOME', '');
+    expect(loadConfig({ config: file }).storage.home).toBe(path.join(dir, 'memories'));
+    expect(loadConfig({ config: file, home: dir }).storage.home).toBe(dir);
+  });
+
+  it('names where a bad value came from', () => {
+    const file = writeConfig(path.join(dir, 'bad.json'), { search: { maxResults: 0 } });
+    expect(() => loadConfig({ config: file })).toThrow(`${file}: search.maxResults must be an integer from 1 to 50, got: 0`);
+
+    vi.stubEnv('DEV_MEMORY_BACKEND', 'postgres');
+    expect(() => loadConfig()).toThrow('DEV_MEMORY_BACKEND must be one of file, sqlite, got: postgres');
+    expect(() => loadConfig({ searchMode: 'fuzzy', backend: 'file' })).toThrow('--search-mode must be one of');
+
+    const unknown = writeConfig(path.join(dir, 'unknown.json'), { search: { limit: 5 } });
+    expect(() => loadConfig({ config: unknown })).toThrow('search.limit is not a known setting');
+    const section = writeConfig(path.join(dir, 'section.json'), { caching: {} });
+    expect(() => loadConfig({ config: section })).toThrow('caching is not a known section');
+  });
+});
+
+describe('pruneRequest', () => {
+  it('applies configured bounds only when the caller gives none', () => {
+    const file = writeConfig(path.join(dir, 'retention.json'), {
+      retention: { halfLifeDays: 7, minScore: 0.3, targetSize: 100 }
+    });
+    const config = loadConfig({ config: file });
+
+    expect(pruneRequest(config, {})).toMatchObject({ minScore: 0.3, targetSize: 100, policy: { halfLifeDays: 7 } });
+    const given = pruneRequest(config, { targetSize: 10 });
+    expect(given.targetSize).toBe(10);
+    expect(given.minScore).toBeUndefined();
+  });
+});
+
+describe('parseGlobalOptions', () => {
+  it('splits leading flags from the command', () => {
+    expect(parseGlobalOptions(['--home', '/tmp/h', '--search-mode=keyword', 'search', '--home', 'x'])).toEqual({
+      flags: { home: '/tmp/h', searchMode: 'keyword' },
+      rest: ['search', '--home', 'x']
+    });
+    expect(parseGlobalOptions(['--backend'])).toEqual({ flags: {}, rest: ['--backend'] });
+  });
+});
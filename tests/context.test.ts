@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ContextManager, FileContextStorage, isValidContextId } from '../src/core/context.js';
+import { FileStore } from '../src/core/store.js';
+import { BaseContext, BaseMemory } from '../src/core/types.js';
+
+describe('context ids', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dev-memory-context-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts plain ids and rejects anything that could leave the context directory', () => {
+    for (const id of ['development', 'session-auth', 'a.b_c-1']) {
+      expect(isValidContextId(id)).toBe(true);
+    }
+    for (const id of ['', '..', '../secret', 'a/b', 'a\\b', '..%2Fsecret', 'a..b', '/etc/passwd', 42]) {
+      expect(isValidContextId(id)).toBe(false);
+    }
+  });
+
+  it('refuses to read, write or delete outside the context directory', async () => {
+    const storage = new FileContextStorage(path.join(dir, 'ns'));
+    fs.writeFileSync(path.join(dir, 'secret.json'), JSON.stringify({ id: 'secret', activeMemories: [], metadata: {} }));
+    const escaping: BaseContext = {
+      id: '../../escape',
+      activeMemories: [],
+      metadata: { startTime: '', lastUpdate: '', type: 'custom' }
+    };
+
+    await expect(storage.load('../secret')).rejects.toThrow('Invalid context id');
+    await expect(storage.save(escaping)).rejects.toThrow('Invalid context id');
+    await expect(storage.delete('../secret')).rejects.toThrow('Invalid context id');
+    expect(fs.existsSync(path.join(dir, 'secret.json'))).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'escape.json'))).toBe(false);
+
+    const manager = new ContextManager(new FileStore<BaseMemory>(path.join(dir, 'ns')), { baseDir: path.join(dir, 'ns') });
+    await expect(manager.loadContext('..\\secret')).rejects.toThrow('Invalid context id');
+    await expect(manager.deleteContext('../secret')).rejects.toThrow('Invalid context id');
+  });
+});
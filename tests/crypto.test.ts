@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { Cipher, DecryptionError, KEY_FILE, generateKey, loadCipher, parseKey, readKeyFile, writeKeyFile } from '../src/core/crypto.js';
+import { StoreBackend } from '../src/core/workspace.js';
+import { BACKENDS, memory, tempDir, tempWorkspace } from './helpers.js';
+
+const SECRET = 'zanzibar lighthouse rotation';
+
+// Every file under dir, with its contents
+function readTree(dir: string): Array<[string, Buffer]> {
+  return fs.readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => {
+      const file = path.join(entry.parentPath, entry.name);
+      return [path.relative(dir, file), fs.readFileSync(file)];
+    });
+}
+
+describe('Cipher', () => {
+  const key = generateKey();
+
+  it('round-trips text and bytes and passes plaintext through', () => {
+    const cipher = new Cipher(key);
+    const sealed = cipher.encrypt(SECRET);
+
+    expect(sealed).toMatch(new RegExp(`^dmenc:1:${cipher.keyId}:`));
+    expect(sealed).not.toBe(cipher.encrypt(SECRET));
+    expect(cipher.decrypt(sealed)).toBe(SECRET);
+    expect(cipher.decrypt('written before the key')).toBe('written before the key');
+
+    const bytes = Buffer.from([0, 1, 2, 255]);
+    expect(cipher.decryptBytes(cipher.encryptBytes(bytes))).toEqual(bytes);
+    expect(new Cipher(null).encrypt(SECRET)).toBe(SECRET);
+  });
+
+  it('fails loudly on a missing or wrong key and on tampering', () => {
+    const sealed = new Cipher(key).encrypt(SECRET);
+
+    expect(() => new Cipher(null).decrypt(sealed)).toThrow(DecryptionError);
+    expect(() => new Cipher(generateKey()).decrypt(sealed)).toThrow(/encrypted with key/);
+    const tampered = sealed.slice(0, -4) + (sealed.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+    expect(() => new Cipher(key).decrypt(tampered)).toThrow('failed authentication');
+  });
+
+  it('reads data sealed with a previous key and writes with the new one', () => {
+    const old = new Cipher(key);
+    const rotating = new Cipher(generateKey(), [key]);
+
+    expect(rotating.decrypt(old.encrypt(SECRET))).toBe(SECRET);
+    expect(rotating.encrypt(SECRET)).toContain(`:${rotating.keyId}:`);
+    expect(rotating.canRead(old.keyId)).toBe(true);
+  });
+
+  it('blinds terms deterministically per key', () => {
+    const cipher = new Cipher(key);
+    expect(cipher.blind('auth')).toBe(new Cipher(key).blind('auth'));
+    expect(cipher.blind('auth')).not.toBe(new Cipher(generateKey()).blind('auth'));
+    expect(new Cipher(null).blind('auth')).toBe('auth');
+  });
+
+  it('parses keys as hex or base64 of the right length', () => {
+    expect(parseKey(key.toString('hex'), 'test')).toEqual(key);
+    expect(parseKey(`${key.toString('base64')}\n`, 'test')).toEqual(key);
+    expect(() => parseKey('c2hvcnQ=', 'DEV_MEMORY_KEY')).toThrow('DEV_MEMORY_KEY must hold a 32-byte key');
+  });
+});
+
+describe.each(BACKENDS)('encryption at rest (%s)', backend => {
+  let dir: string;
+  let home: string;
+  beforeEach(() => {
+    dir = tempDir('crypto');
+    home = path.join(dir, 'home');
+    vi.stubEnv('DEV_MEMORY_KEY', '');
+    vi.stubEnv('DEV_MEMORY_KEY_FILE', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = (cipher = loadCipher(home)) => tempWorkspace(dir, backend as StoreBackend, { cipher });
+
+  // Stores a few memories and edits, so the FileStore journals have entries
+  async function populate(): Promise<void> {
+    const workspace = await open();
+    await workspace.store.store(memory('a', `Remember the ${SECRET}`, { topics: ['lighthouse'] }));
+    await workspace.store.store(memory('b', 'Another note about zanzibar'));
+    await workspace.store.update('b', { content: `Updated note about the ${SECRET}` });
+    await workspace.store.archive('b');
+    await workspace.contextManager.createContext('release-notes', 'custom');
+  }
+
+  const plaintextFiles = () => readTree(home)
+    .filter(([, data]) => data.includes('zanzibar') || data.includes('lighthouse'))
+    .map(([file]) => file);
+
+  it('keeps memories, indexes and journals encrypted and reads them back', async () => {
+    await writeKeyFile(path.join(home, KEY_FILE), generateKey());
+    await populate();
+
+    expect(plaintextFiles()).toEqual([]);
+    if (backend === 'file') {
+      const journals = readTree(home).filter(([file]) => file.endsWith('.log') && !file.startsWith('logs'));
+      expect(journals.length).toBeGreaterThan(0);
+      for (const [, data] of journals) {
+        for (const line of data.toString('utf-8').trim().split('\n')) {
+          expect(line).toMatch(/^dmenc:1:/);
+        }
+      }
+    }
+
+    const reopened = await open();
+    expect((await reopened.store.find('a'))?.content).toBe(`Remember the ${SECRET}`);
+    expect((await reopened.store.restore('b'))?.content).toBe(`Updated note about the ${SECRET}`);
+    expect((await reopened.store.search('lighthouse rotation', { mode: 'keyword', minScore: 0 })).results.map(r => r.memory.id).sort())
+      .toEqual(['a', 'b']);
+    expect(await reopened.contextManager.loadContext('release-notes')).not.toBeNull();
+
+    const keyless = await open(new Cipher(null));
+    await expect(keyless.store.find('a')).rejects.toThrow(DecryptionError);
+  });
+
+  it('rotate-key re-encrypts everything under a new key', async () => {
+    const keyFile = path.join(home, KEY_FILE);
+    await writeKeyFile(keyFile, generateKey());
+    const oldKey = readKeyFile(keyFile);
+    await populate();
+
+    expect(await runCli(['rotate-key'], { home })).toBe(0);
+
+    const newKey = readKeyFile(keyFile);
+    expect(newKey).not.toEqual(oldKey);
+    expect(fs.existsSync(`${keyFile}.new`)).toBe(false);
+    expect(plaintextFiles()).toEqual([]);
+    const oldKeyId = new Cipher(oldKey).keyId;
+    expect(readTree(home).filter(([, data]) => data.includes(oldKeyId)).map(([file]) => file)).toEqual([]);
+
+    const reopened = await open();
+    expect((await reopened.store.find('a'))?.content).toBe(`Remember the ${SECRET}`);
+    expect((await reopened.store.list({ archived: true })).memories.map(m => m.id)).toEqual(['b']);
+    expect((await reopened.store.search('lighthouse', { mode: 'keyword', minScore: 0 })).results.map(r => r.memory.id))
+      .toEqual(['a']);
+
+    const stale = await open(new Cipher(oldKey));
+    await expect(stale.store.find('a')).rejects.toThrow(DecryptionError);
+  });
+
+  it('rotate-key --decrypt writes everything back as plaintext', async () => {
+    await writeKeyFile(path.join(home, KEY_FILE), generateKey());
+    await populate();
+
+    expect(await runCli(['rotate-key', '--decrypt'], { home })).toBe(0);
+
+    expect(fs.existsSync(path.join(home, KEY_FILE))).toBe(false);
+    expect(plaintextFiles().length).toBeGreaterThan(0);
+    const reopened = await open(new Cipher(null));
+    expect((await reopened.store.find('a'))?.content).toBe(`Remember the ${SECRET}`);
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Embedder, HashingEmbedder, cosineSimilarity } from '../src/core/embedding.js';
+import { FileStore } from '../src/core/store.js';
+import { BaseMemory } from '../src/core/types.js';
+import { VectorIndex } from '../src/core/vectors.js';
+import { BACKENDS, memory, tempDir, tempWorkspace } from './helpers.js';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder();
+  const similarity = async (a: string, b: string) => cosineSimilarity(await embedder.embed(a), await embedder.embed(b));
+
+  it('embeds deterministically into unit vectors of its size', async () => {
+    const vector = await embedder.embed('Refresh the OAuth token');
+
+    expect(vector).toHaveLength(256);
+    expect(await embedder.embed('refresh  the oauth TOKEN')).toEqual(vector);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+    expect(await embedder.embed('')).toEqual(new Array(256).fill(0));
+    expect(new HashingEmbedder(64, 4).id).not.toBe(embedder.id);
+  });
+
+  it('places related word forms closer than unrelated text', async () => {
+    const related = await similarity('authentication failures', 'auth failed');
+    const unrelated = await similarity('authentication failures', 'render the chart legend');
+
+    expect(related).toBeGreaterThan(unrelated);
+    expect(await similarity('the same words', 'the same words')).toBeCloseTo(1);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('handles zero and mismatched vectors', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(cosineSimilarity([1], [1, 1])).toBe(0);
+  });
+});
+
+describe('VectorIndex', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = tempDir('vectors');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ranks by similarity and applies minScore and the filter', async () => {
+    const index = new VectorIndex(path.join(dir, 'vectors.json'), new HashingEmbedder());
+    await index.add('db', 'database connection pooling');
+    await index.add('ui', 'button hover colours');
+    await index.add('db2', 'database migrations');
+
+    const matches = await index.search('database connection', 10, -1);
+    expect(matches.map(match => match.id)).toEqual(['db', 'db2', 'ui']);
+    expect((await index.search('database connection', 10, 0.2)).map(match => match.id)).toEqual(['db', 'db2']);
+    expect((await index.search('database connection', 1)).map(match => match.id)).toEqual(['db']);
+    expect((await index.search('database connection', 10, 0, id => id !== 'db')).map(match => match.id)[0]).toBe('db2');
+  });
+
+  it('asks for a rebuild when the embedder changes', async () => {
+    const file = path.join(dir, 'vectors.json');
+    const index = new VectorIndex(file, new HashingEmbedder());
+    await index.add('a', 'alpha');
+    await index.compact();
+
+    expect(await new VectorIndex(file, new HashingEmbedder()).load()).toBe(true);
+    const other = new VectorIndex(file, new HashingEmbedder(128));
+    expect(await other.load()).toBe(false);
+    expect(other.ids()).toEqual([]);
+  });
+});
+
+describe.each(BACKENDS)('findSimilar (%s)', backend => {
+  let dir: string;
+  beforeEach(() => {
+    dir = tempDir('similar');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the closest memories first', async () => {
+    const workspace = await tempWorkspace(dir, backend);
+    await workspace.store.store(memory('cache', 'Cache user sessions in Redis'));
+    await workspace.store.store(memory('css', 'Use CSS grid for the dashboard layout'));
+    await workspace.store.store(memory('redis', 'Redis cluster failover runbook'));
+
+    const similar = await workspace.store.findSimilar('redis session caching', 2);
+    expect(similar.map(m => m.id)).toContain('cache');
+    expect(similar.map(m => m.id)).not.toContain('css');
+  });
+});
+
+describe('FileStore with a custom embedder', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = tempDir('embedder');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Scores by whether the text mentions "blue"
+  const colour: Embedder = {
+    id: 'colour-v1',
+    dimensions: 2,
+    embed: async text => (text.includes('blue') ? [1, 0] : [0, 1])
+  };
+
+  it('ranks semantic search with the embedder it was given and re-embeds when it changes', async () => {
+    const store = new FileStore<BaseMemory>(path.join(dir, 'ns'), { embedder: colour });
+    await store.store(memory('sky', 'the sky is blue'));
+    await store.store(memory('grass', 'the grass is green'));
+
+    const ids = async (s: FileStore<BaseMemory>, query: string) =>
+      (await s.search(query, { mode: 'semantic', minScore: 0.5 })).results.map(result => result.memory.id);
+    expect(await ids(store, 'blue')).toEqual(['sky']);
+    expect(await ids(store, 'red')).toEqual(['grass']);
+
+    const flipped: Embedder = { ...colour, id: 'colour-v2', embed: async text => (text.includes('blue') ? [0, 1] : [1, 0]) };
+    const reopened = new FileStore<BaseMemory>(path.join(dir, 'ns'), { embedder: flipped });
+    expect(await ids(reopened, 'blue')).toEqual(['sky']);
+    expect(await ids(reopened, 'red')).toEqual(['grass']);
+  });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  EnrichmentPipeline,
+  categorizer,
+  createDefaultPipeline,
+  importanceEstimator,
+  topicExtractor
+} from '../src/core/enrich.js';
+import { log } from '../src/core/log.js';
+import { MemoryType } from '../src/core/types.js';
+import { TestClient, memory, startServer, tempDir } from './helpers.js';
+
+describe('topicExtractor', () => {
+  const topics = async (content: string, existing?: string[]) =>
+    (await new EnrichmentPipeline([topicExtractor]).enrich(memory('m', content, existing ? { topics: existing } : {}))).metadata.topics;
+
+  it('finds tickets, file paths, identifiers and repeated keywords', async () => {
+    expect(await topics('PAY-142: retry in src/billing/retry.ts via retryPolicy and max_attempts. Retries back off; retries are capped.'))
+      .toEqual(['PAY-142', 'src/billing/retry.ts', 'retryPolicy', 'max_attempts', 'retries']);
+    expect(await topics('Bump package.json and the HttpClient')).toEqual(['package.json', 'HttpClient']);
+  });
+
+  it('keeps the caller\'s topics first and skips case-insensitive duplicates', async () => {
+    expect(await topics('Touches retryPolicy and RetryPolicy', ['retrypolicy', 'billing'])).toEqual(['retrypolicy', 'billing']);
+    expect(await topics('Nothing worth noting here')).toBeUndefined();
+  });
+
+  it('caps the number of topics', async () => {
+    const tickets = Array.from({ length: 15 }, (_, i) => `ABC-${i + 1}`);
+    expect(await topics(tickets.join(' '))).toEqual(tickets.slice(0, 10));
+  });
+});
+
+describe('categorizer', () => {
+  const category = async (content: string, type: MemoryType = 'development', rules?: Parameters<typeof categorizer>[0]) =>
+    (await new EnrichmentPipeline([categorizer(rules)]).enrich(memory('m', content, { type }))).metadata.category;
+
+  it('applies the first matching default rule', async () => {
+    expect(await category('Fixed the XSS vulnerability in the comment form')).toBe('security');
+    expect(await category('Fixed a crash when the cache is empty')).toBe('bugfix');
+    expect(await category('We decided to keep Postgres')).toBe('decision');
+    expect(await category('Added support for webhooks')).toBe('feature');
+    expect(await category('Lunch at noon')).toBeUndefined();
+  });
+
+  it('uses custom rules and their type restrictions, and keeps a given category', async () => {
+    const rules = [{ category: 'ops', pattern: 'on-call', types: ['operational' as MemoryType] }, { category: 'people', pattern: /on-?call/i }];
+    expect(await category('Swap the On-Call rota', 'operational', rules)).toBe('ops');
+    expect(await category('Swap the On-Call rota', 'conversation', rules)).toBe('people');
+
+    const given = await new EnrichmentPipeline([categorizer()]).enrich(memory('m', 'Fixed the build', { category: 'chore' }));
+    expect(given.metadata.category).toBe('chore');
+  });
+});
+
+describe('importanceEstimator', () => {
+  const importance = async (content: string, metadata = {}) =>
+    (await createDefaultPipeline().enrich(memory('m', content, metadata))).metadata.importance;
+
+  it('scores from the category, emphasis, tickets and length', async () => {
+    expect(await importance('Lunch at noon')).toBe(1);
+    expect(await importance('Fixed a crash in the parser')).toBe(2);
+    expect(await importance('Critical: fixed a crash in the parser for OPS-7')).toBe(4);
+    expect(await importance(`Critical: fixed a crash for OPS-7. ${'x'.repeat(1000)}`)).toBe(5);
+  });
+
+  it('keeps an importance the caller gave', async () => {
+    expect(await importance('Critical: fixed a crash for OPS-7', { importance: 1 })).toBe(1);
+    expect((await new EnrichmentPipeline([importanceEstimator]).enrich(memory('m', 'Anything'))).metadata.importance).toBe(1);
+  });
+});
+
+describe('EnrichmentPipeline', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs enrichers in order and survives one that throws', async () => {
+    const warn = vi.spyOn(log, 'warn').mockImplementation(() => {});
+    const pipeline = new EnrichmentPipeline([{ name: 'broken', enrich: () => { throw new Error('boom'); } }])
+      .use({ name: 'tag', enrich: (_memory, enrichment) => { enrichment.topics.push('tagged'); } })
+      .use(categorizer([{ category: 'tagged', pattern: 'x' }]));
+
+    expect(pipeline.names).toEqual(['broken', 'tag', 'category']);
+    const enriched = await pipeline.enrich(memory('m', 'x', { source: 'cli' }));
+    expect(enriched.metadata).toMatchObject({ topics: ['tagged'], category: 'tagged', source: 'cli' });
+    expect(warn).toHaveBeenCalledWith('Enricher broken failed:', expect.any(Error));
+  });
+});
+
+describe('store_context enrichment', () => {
+  let dir: string;
+  let client: TestClient;
+  beforeEach(async () => {
+    dir = tempDir('enrich');
+    client = await startServer(dir);
+  });
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fills in what the caller left out', async () => {
+    const { structuredContent: { metadata } } = await client.call('store_context', {
+      context_type: 'conversation',
+      content: 'We decided to move src/auth/session.ts to JWT for AUTH-9',
+      metadata: { topics: ['auth'] }
+    });
+
+    expect(metadata).toMatchObject({
+      topics: ['auth', 'AUTH-9', 'src/auth/session.ts'],
+      category: 'decision',
+      importance: 3
+    });
+  });
+});
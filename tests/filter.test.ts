@@ -0,0 +1,121 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { matchesFilter, parseDuration, parseTimeBound } from '../src/core/filter.js';
+import { Workspace } from '../src/core/workspace.js';
+import { BACKENDS, memory, tempDir, tempWorkspace } from './helpers.js';
+
+describe('matchesFilter', () => {
+  const metadata = memory('a', '', {
+    type: 'development',
+    topics: ['Auth', 'tokens'],
+    category: 'security',
+    importance: 0.7,
+    timestamp: '2024-03-10T12:00:00.000Z',
+    commit: 'abc123',
+    files: ['src/auth.ts']
+  }).metadata;
+
+  it('requires every constraint to hold', () => {
+    expect(matchesFilter('a', metadata, {})).toBe(true);
+    expect(matchesFilter('a', metadata, {
+      type: 'development',
+      topics: ['auth'],
+      category: 'security',
+      minImportance: 0.7,
+      since: '2024-03-10T12:00:00.000Z',
+      until: '2024-03-10T12:00:00.000Z',
+      metadata: { commit: 'abc123', files: ['src/auth.ts'] },
+      ids: ['a']
+    })).toBe(true);
+
+    expect(matchesFilter('a', metadata, { type: 'document' })).toBe(false);
+    expect(matchesFilter('a', metadata, { topics: ['auth', 'billing'] })).toBe(false);
+    expect(matchesFilter('a', metadata, { category: 'Security' })).toBe(false);
+    expect(matchesFilter('a', metadata, { source: 'git' })).toBe(false);
+    expect(matchesFilter('a', metadata, { minImportance: 0.8 })).toBe(false);
+    expect(matchesFilter('a', metadata, { since: '2024-03-11' })).toBe(false);
+    expect(matchesFilter('a', metadata, { until: '2024-03-09' })).toBe(false);
+    expect(matchesFilter('a', metadata, { metadata: { commit: 'def456' } })).toBe(false);
+    expect(matchesFilter('a', metadata, { ids: ['b'] })).toBe(false);
+  });
+});
+
+describe('parseTimeBound', () => {
+  const now = new Date('2024-03-15T00:00:00.000Z');
+
+  it('reads durations relative to now and absolute dates', () => {
+    expect(parseTimeBound('14d', now)).toBe('2024-03-01T00:00:00.000Z');
+    expect(parseTimeBound('2w', now)).toBe('2024-03-01T00:00:00.000Z');
+    expect(parseTimeBound('12h', now)).toBe('2024-03-14T12:00:00.000Z');
+    expect(parseTimeBound('2024-01-01', now)).toBe('2024-01-01T00:00:00.000Z');
+    expect(parseTimeBound('last week', now)).toBeNull();
+  });
+
+  it('only accepts whole durations in known units', () => {
+    expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+    expect(parseDuration('1.5d')).toBeNull();
+    expect(parseDuration('3y')).toBeNull();
+    // Uppercase units are refused rather than M being read as minutes
+    expect(parseDuration('2M')).toBeNull();
+    expect(parseDuration('12H')).toBeNull();
+    expect(parseTimeBound('2M', now)).toBeNull();
+  });
+});
+
+describe.each(BACKENDS)('filters and cursors (%s)', backend => {
+  let dir: string;
+  let workspace: Workspace;
+  beforeEach(async () => {
+    dir = tempDir('filter');
+    workspace = await tempWorkspace(dir, backend);
+    for (let i = 0; i < 7; i++) {
+      await workspace.store.store(memory(`m${i}`, `Deploy checklist step ${i}`, {
+        type: i % 2 ? 'development' : 'document',
+        importance: i / 10,
+        timestamp: `2024-01-0${i + 1}T00:00:00.000Z`
+      }));
+    }
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pages through list results without repeats or gaps', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await workspace.store.list({ limit: 3, cursor, order: 'asc' });
+      seen.push(...page.memories.map(m => m.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['m0', 'm1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+  });
+
+  it('filters before paging', async () => {
+    const first = await workspace.store.list({ limit: 2, filter: { type: 'development' }, sortBy: 'importance' });
+    expect(first.memories.map(m => m.id)).toEqual(['m5', 'm3']);
+
+    const second = await workspace.store.list({ limit: 2, cursor: first.nextCursor, filter: { type: 'development' }, sortBy: 'importance' });
+    expect(second.memories.map(m => m.id)).toEqual(['m1']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('filters search candidates before ranking and pages the ranking', async () => {
+    const filter = { since: '2024-01-03', until: '2024-01-06', minImportance: 0.3 };
+    const options = { mode: 'keyword' as const, minScore: 0, limit: 2, filter };
+
+    const first = await workspace.store.search('deploy checklist', options);
+    const second = await workspace.store.search('deploy checklist', { ...options, cursor: first.nextCursor });
+    const ids = [...first.results, ...second.results].map(result => result.memory.id);
+
+    expect(ids.sort()).toEqual(['m3', 'm4', 'm5']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('rejects cursors it did not issue', async () => {
+    await expect(workspace.store.list({ cursor: 'bogus' })).rejects.toThrow('Invalid cursor: bogus');
+    await expect(workspace.store.search('deploy', { cursor: Buffer.from('{"offset":-1}').toString('base64url') }))
+      .rejects.toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatMemoryList, formatSearchResults, preview } from '../src/core/format.js';
+import { TestClient, memory, startServer, tempDir } from './helpers.js';
+
+const TIMESTAMP = '2024-05-01T10:00:00.000Z';
+const result = (id: string, content: string, score = 0.5) => ({
+  memory: memory(id, content, { timestamp: TIMESTAMP, topics: ['auth'], importance: 3 }),
+  score
+});
+
+describe('formatSearchResults', () => {
+  const results = [result('short', 'Rotate the signing key', 0.91234), result('long', 'x'.repeat(400), 0.4)];
+
+  it('renders one markdown block per memory by default', () => {
+    const { content, structuredContent } = formatSearchResults(results);
+
+    expect(content.map(item => item.text)).toEqual([
+      'Found 2 memories.',
+      `### 1. short (score 0.912)\ntype: custom · stored: ${TIMESTAMP} · importance: 3 · topics: auth\n\nRotate the signing key`,
+      `### 2. long (score 0.4)\ntype: custom · stored: ${TIMESTAMP} · importance: 3 · topics: auth\n\n${'x'.repeat(400)}`
+    ]);
+    expect(structuredContent).toMatchObject({ truncated: false, results: [{ id: 'short', score: 0.912 }, { id: 'long' }] });
+  });
+
+  it('shows short memories in full and shares the rest of the token budget', () => {
+    // 50 tokens is 200 characters: 22 for the short memory, 178 for the long one
+    const { content, structuredContent } = formatSearchResults(results, { maxTokens: 50 });
+
+    expect(structuredContent.results[0]).toMatchObject({ content: 'Rotate the signing key', truncated: false, length: 22 });
+    expect(structuredContent.results[1]).toMatchObject({ content: 'x'.repeat(178), truncated: true, length: 400 });
+    expect(structuredContent.truncated).toBe(true);
+    expect(content[0].text).toContain('Some content was truncated to fit max_tokens');
+    expect(content[2].text).toContain('_Truncated: showing 178 of 400 characters._');
+  });
+
+  it('returns the raw results as json and one line each when compact', () => {
+    const json = formatSearchResults(results, { format: 'json', nextCursor: 'abc' });
+    expect(JSON.parse(json.content[0].text)).toEqual(json.structuredContent);
+    expect(json.structuredContent.nextCursor).toBe('abc');
+
+    const compact = formatSearchResults([{ ...result('short', 'Rotate the signing key\nthen redeploy'), scope: 'global' }], {
+      format: 'compact',
+      nextCursor: 'abc'
+    });
+    expect(compact.content[0].text).toBe([
+      'Found 1 memory.',
+      'More results available, pass cursor "abc" to continue.',
+      '',
+      `1. short [custom ${TIMESTAMP} global] 0.5: Rotate the signing key …`
+    ].join('\n'));
+  });
+
+  it('says so when nothing matched', () => {
+    expect(formatSearchResults([], { format: 'compact' }).content[0].text).toBe('No matching memories found.');
+  });
+});
+
+describe('formatMemoryList', () => {
+  it('lists one line per memory with a cursor hint', () => {
+    const { content, structuredContent } = formatMemoryList([result('a', 'First line\nsecond').memory], 'next');
+
+    expect(content[0].text).toBe(`- a [custom ${TIMESTAMP} importance 3]: First line …\n\nMore memories available, pass cursor "next" to continue.`);
+    expect(structuredContent).toEqual({
+      memories: [{ id: 'a', type: 'custom', timestamp: TIMESTAMP, importance: 3, topics: ['auth'], preview: 'First line …' }],
+      nextCursor: 'next'
+    });
+  });
+});
+
+describe('preview', () => {
+  it('keeps the first line and caps its width', () => {
+    expect(preview('one line')).toBe('one line');
+    expect(preview('abcdef', 3)).toBe('abc …');
+    expect(preview('first\nsecond')).toBe('first …');
+  });
+});
+
+describe('get_context output', () => {
+  let dir: string;
+  let client: TestClient;
+  beforeEach(async () => {
+    dir = tempDir('format');
+    client = await startServer(dir);
+  });
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies format and max_tokens', async () => {
+    await client.call('store_context', { context_type: 'development', content: `Deploy checklist: ${'step '.repeat(100)}` });
+
+    const compact = await client.call('get_context', { query: 'deploy checklist', format: 'compact', max_tokens: 10 });
+    expect(compact.content).toHaveLength(1);
+    expect(compact.content[0].text).toMatch(/^Found 1 memory\.\nSome content was truncated/);
+    expect(compact.structuredContent.results[0]).toMatchObject({ content: 'Deploy checklist: step step step step st', truncated: true });
+
+    const json = await client.call('get_context', { query: 'deploy checklist', format: 'json' });
+    expect(JSON.parse(json.content[0].text).results[0].truncated).toBe(false);
+
+    await expect(client.call('get_context', { query: 'deploy', format: 'yaml' })).rejects.toThrow('/format');
+  });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findRepositoryRoot, readDependencies, readGitInfo } from '../src/core/git.js';
+import { gitRepo, memory, tempDir, tempWorkspace } from './helpers.js';
+
+let dir: string;
+let root: string;
+beforeEach(() => {
+  dir = tempDir('git');
+  root = path.join(dir, 'project');
+});
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const write = (file: string, content: string) => fs.writeFileSync(path.join(root, file), content);
+
+describe('readGitInfo', () => {
+  it('returns null outside a repository', async () => {
+    fs.mkdirSync(root);
+    expect(await readGitInfo(root)).toBeNull();
+    expect(await findRepositoryRoot(root)).toBeNull();
+  });
+
+  it('reports the branch of a repository without commits', async () => {
+    gitRepo(root);
+    expect(await readGitInfo(root)).toEqual({ branch: 'main', commit: undefined, dirtyFiles: [], recentFiles: [] });
+  });
+
+  it('reads the branch, commit, uncommitted changes and recently committed files', async () => {
+    const repo = gitRepo(root);
+    repo.commit('Add the parser', { 'src/parser.ts': 'export {}\n', 'README.md': '# p\n' });
+    const head = repo.commit('Add the lexer', { 'src/lexer.ts': 'export {}\n' });
+    write('README.md', '# project\n');
+    write('notes.txt', 'todo\n');
+    fs.mkdirSync(path.join(root, '.dev-memory'));
+    write('.dev-memory/index.json', '{}');
+
+    const info = await readGitInfo(path.join(root, 'src'), ['.dev-memory/']);
+    expect(info).toEqual({
+      branch: 'main',
+      commit: head,
+      dirtyFiles: ['README.md', 'notes.txt'],
+      recentFiles: ['src/lexer.ts', 'README.md', 'src/parser.ts']
+    });
+    expect(await findRepositoryRoot(path.join(root, 'src'))).toBe(fs.realpathSync(root));
+  });
+});
+
+describe('readDependencies', () => {
+  it('lists every kind of dependency with its range', async () => {
+    fs.mkdirSync(root);
+    expect(await readDependencies(root)).toEqual([]);
+
+    write('package.json', JSON.stringify({
+      dependencies: { zod: '^3.0.0' },
+      devDependencies: { typescript: '~5.4.0' },
+      peerDependencies: { react: '>=18' }
+    }));
+    expect(await readDependencies(root)).toEqual(['zod@^3.0.0', 'typescript@~5.4.0', 'react@>=18']);
+
+    write('package.json', '{ not json');
+    expect(await readDependencies(root)).toEqual([]);
+  });
+});
+
+describe('DevContextManager', () => {
+  it('captures the development context from git and package.json', async () => {
+    const repo = gitRepo(root);
+    const head = repo.commit('Initial', { 'src/app.ts': 'export {}\n', 'package.json': JSON.stringify({ dependencies: { zod: '^3.0.0' } }) });
+    write('src/app.ts', 'export const app = 1;\n');
+    const { contextManager } = await tempWorkspace(dir);
+
+    const context = await contextManager.updateCodeContext(['docs/plan.md']);
+    expect(context.projectInfo).toEqual({ name: 'project', path: root, branch: 'main', commit: head });
+    expect(context.codeContext).toEqual({
+      files: ['docs/plan.md', 'src/app.ts', 'package.json'],
+      dirtyFiles: ['src/app.ts'],
+      dependencies: ['zod@^3.0.0']
+    });
+
+    // Later calls refresh the same context
+    const next = repo.commit('Update the app');
+    expect((await contextManager.updateCodeContext()).projectInfo.commit).toBe(next);
+    expect(await contextManager.listContexts()).toEqual(['development']);
+  });
+
+  it('stamps development memories with the branch, commit and changed files', async () => {
+    const repo = gitRepo(root);
+    const head = repo.commit('Initial', { 'src/app.ts': 'export {}\n' });
+    write('src/app.ts', 'export const app = 1;\n');
+    const { contextManager, store } = await tempWorkspace(dir);
+
+    const stamped = await contextManager.storeDevMemory(memory('m1', 'Exported the app constant'));
+    expect(stamped.metadata).toMatchObject({ branch: 'main', commit: head });
+    expect(stamped.relationships?.codeContext).toEqual({ files: ['src/app.ts'], commits: [head], branch: 'main' });
+    expect((await contextManager.loadContext('development'))?.activeMemories).toEqual(['m1']);
+
+    // A hook's own branch and commit win over the working tree's
+    const hooked = await contextManager.storeDevMemory(memory('m2', 'From a hook', { branch: 'release', commit: 'abc123' } as any), ['lib.ts']);
+    expect(hooked.relationships?.codeContext).toEqual({ files: ['lib.ts'], commits: ['abc123'], branch: 'release' });
+    expect(await store.find('m2')).not.toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LinkIndex, getLinks } from '../src/core/graph.js';
+import { Workspace } from '../src/core/workspace.js';
+import { BACKENDS, memory, tempDir, tempWorkspace } from './helpers.js';
+
+describe('LinkIndex.walk', () => {
+  // a -implements-> b -caused_by-> c -references-> d, plus e -supersedes-> a
+  const graph = new LinkIndex();
+  graph.set('a', { implements: ['b'] });
+  graph.set('b', { caused_by: ['c'] });
+  graph.set('c', { references: ['d', 'a'] });
+  graph.set('e', { supersedes: ['a'] });
+  const everything = () => true;
+
+  const reached = (start: string, options: Parameters<LinkIndex['walk']>[1], exists = everything) =>
+    Object.fromEntries(graph.walk(start, options, exists).depths);
+
+  it('records how many hops away each memory is', () => {
+    expect(reached('a', { depth: 1 })).toEqual({ a: 0, b: 1, e: 1, c: 1 });
+    expect(reached('a', { depth: 3, direction: 'out' })).toEqual({ a: 0, b: 1, c: 2, d: 3 });
+  });
+
+  it('follows back-links, edge types and existence', () => {
+    expect(reached('d', { depth: 2, direction: 'in' })).toEqual({ d: 0, c: 1, b: 2 });
+    expect(reached('a', { depth: 3, types: ['implements', 'caused_by'] })).toEqual({ a: 0, b: 1, c: 2 });
+    expect(reached('a', { depth: 3, direction: 'out' }, id => id !== 'c')).toEqual({ a: 0, b: 1 });
+  });
+
+  it('stops at maxNodes and lists each edge once', () => {
+    expect(Object.keys(reached('a', { depth: 5, maxNodes: 3 }))).toHaveLength(3);
+
+    const { edges } = graph.walk('a', { depth: 5 }, everything);
+    expect(edges).toHaveLength(5);
+  });
+
+  it('forgets outgoing edges that are replaced or removed', () => {
+    const index = new LinkIndex();
+    index.set('x', { references: ['y', 'y'] });
+    expect(index.edgesTo('y')).toEqual([{ from: 'x', to: 'y', type: 'references' }]);
+
+    index.set('x', { references: ['z'] });
+    expect(index.edgesTo('y')).toEqual([]);
+    index.remove('x');
+    expect(index.edgesTo('z')).toEqual([]);
+  });
+});
+
+describe.each(BACKENDS)('memory links (%s)', backend => {
+  let dir: string;
+  let workspace: Workspace;
+  beforeEach(async () => {
+    dir = tempDir('graph');
+    workspace = await tempWorkspace(dir, backend);
+    for (const id of ['bug', 'fix', 'adr', 'old']) {
+      await workspace.store.store(memory(id, `note ${id}`));
+    }
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const ids = async (id: string, options = {}) =>
+    (await workspace.store.related(id, options))?.memories.map(({ memory, depth }) => [memory.id, depth]);
+
+  it('links memories and walks the links both ways', async () => {
+    expect(getLinks((await workspace.store.link('fix', 'bug', 'caused_by'))!)).toEqual({ caused_by: ['bug'] });
+    await workspace.store.link('fix', 'adr', 'implements');
+    await workspace.store.link('adr', 'old', 'supersedes');
+
+    expect(await ids('bug')).toEqual([['bug', 0], ['fix', 1]]);
+    expect(await ids('bug', { depth: 2 })).toEqual([['bug', 0], ['fix', 1], ['adr', 2]]);
+    expect(await ids('bug', { depth: 3, direction: 'out' })).toEqual([['bug', 0]]);
+    expect(await ids('fix', { depth: 2, types: ['implements'] })).toEqual([['fix', 0], ['adr', 1]]);
+    expect((await workspace.store.related('fix', { depth: 2 }))?.edges).toHaveLength(3);
+  });
+
+  it('does not link to or from memories that are not stored', async () => {
+    expect(await workspace.store.link('fix', 'missing', 'references')).toBeNull();
+    expect(await workspace.store.link('missing', 'fix', 'references')).toBeNull();
+    expect(await workspace.store.related('missing')).toBeNull();
+  });
+
+  it('unlinks one type or all of them', async () => {
+    await workspace.store.link('fix', 'bug', 'caused_by');
+    await workspace.store.link('fix', 'bug', 'references');
+    await workspace.store.link('fix', 'adr', 'references');
+
+    expect(await workspace.store.unlink('fix', 'bug', 'references')).toEqual(['references']);
+    expect(getLinks((await workspace.store.find('fix'))!)).toEqual({ caused_by: ['bug'], references: ['adr'] });
+
+    expect(await workspace.store.unlink('fix', 'bug')).toEqual(['caused_by']);
+    expect(await workspace.store.unlink('fix', 'bug')).toEqual([]);
+    expect(await ids('bug')).toEqual([['bug', 0]]);
+  });
+
+  it('skips archived and deleted memories', async () => {
+    await workspace.store.link('fix', 'bug', 'caused_by');
+    await workspace.store.link('fix', 'adr', 'implements');
+
+    await workspace.store.archive('bug');
+    expect(await ids('fix')).toEqual([['fix', 0], ['adr', 1]]);
+
+    await workspace.store.delete('adr');
+    expect(await ids('fix')).toEqual([['fix', 0]]);
+
+    await workspace.store.restore('bug');
+    expect(await ids('bug')).toEqual([['bug', 0], ['fix', 1]]);
+  });
+});
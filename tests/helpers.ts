@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { execFileSync } from 'child_process';
+import { DevMemoryServer } from '../src/index.js';
+import { StdioTransport } from '../src/sdk/server.js';
+import { ConfigFlags, loadConfig } from '../src/core/config.js';
+import { MemoryHome } from '../src/core/projects.js';
+import { StoreBackend, Workspace, WorkspaceConfig, openWorkspace } from '../src/core/workspace.js';
+import { Cipher } from '../src/core/crypto.js';
+import { BaseMemory, MemoryType } from '../src/core/types.js';
+
+export function tempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `dev-memory-${prefix}-`));
+}
+
+// A workspace for a throwaway project under its own memory home, unencrypted
+// unless config says otherwise
+export async function tempWorkspace(
+  dir: string,
+  backend: StoreBackend = 'file',
+  config: WorkspaceConfig = {}
+): Promise<Workspace> {
+  const home = new MemoryHome(path.join(dir, 'home'));
+  const root = path.join(dir, 'project');
+  fs.mkdirSync(root, { recursive: true });
+  return openWorkspace(home, await home.resolveProject(root), { backend, cipher: new Cipher(null), ...config });
+}
+
+export function memory(
+  id: string,
+  content: string,
+  metadata: Partial<BaseMemory['metadata']> = {}
+): BaseMemory {
+  return {
+    id,
+    content,
+    metadata: { type: 'custom' as MemoryType, timestamp: new Date().toISOString(), ...metadata }
+  };
+}
+
+export const BACKENDS: StoreBackend[] = ['file', 'sqlite'];
+
+export interface TestClient {
+  // Resolves to the JSON-RPC response, error or not
+  request(method: string, params?: unknown): Promise<any>;
+  // Resolves to a tool's result, or rejects with the JSON-RPC error
+  call(tool: string, args?: Record<string, unknown>): Promise<any>;
+  close(): Promise<void>;
+}
+
+// A server for dir/project with its memory home in dir/home, connected over
+// in-memory streams and already initialized
+export async function startServer(dir: string, flags: ConfigFlags = {}): Promise<TestClient> {
+  const root = path.join(dir, 'project');
+  fs.mkdirSync(root, { recursive: true });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const transport = new StdioTransport({ input, output });
+  const server = new DevMemoryServer({ config: loadConfig({ home: path.join(dir, 'home'), ...flags }), project: root });
+  await server.start(transport);
+
+  const waiting = new Map<number, (response: any) => void>();
+  let pending = '';
+  output.setEncoding('utf8');
+  output.on('data', (chunk: string) => {
+    pending += chunk;
+    let newline: number;
+    while ((newline = pending.indexOf('\n')) !== -1) {
+      const message = JSON.parse(pending.slice(0, newline));
+      pending = pending.slice(newline + 1);
+      waiting.get(message.id)?.(message);
+      waiting.delete(message.id);
+    }
+  });
+
+  let nextId = 0;
+  const request = (method: string, params?: unknown) => new Promise<any>(resolve => {
+    const id = ++nextId;
+    waiting.set(id, resolve);
+    input.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+  });
+
+  await request('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'tests', version: '1' } });
+  input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n');
+
+  return {
+    request,
+    call: async (tool, args = {}) => {
+      const response = await request('tools/call', { name: tool, arguments: args });
+      if (response.error) {
+        throw Object.assign(new Error(response.error.message), response.error);
+      }
+      return response.result;
+    },
+    close: () => transport.close()
+  };
+}
+
+// A git repository at root with a fixed identity, so tests don't depend on
+// the machine's git config
+export function gitRepo(root: string): { commit(message: string, files?: Record<string, string>, date?: string): string } {
+  fs.mkdirSync(root, { recursive: true });
+  const git = (args: string[], env: Record<string, string> = {}) =>
+    execFileSync('git', args, { cwd: root, encoding: 'utf-8', env: { ...process.env, ...env } }).trim();
+  git(['init', '-q', '-b', 'main']);
+  git(['config', 'user.name', 'Jane Doe']);
+  git(['config', 'user.email', 'jane@example.com']);
+  git(['config', 'commit.gpgsign', 'false']);
+
+  return {
+    // Resolves to the new commit's hash
+    commit(message, files = {}, date = new Date().toISOString()) {
+      for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+      }
+      git(['add', '-A']);
+      git(['commit', '-q', '--allow-empty', '-m', message], { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date });
+      return git(['rev-parse', 'HEAD']);
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mergeMemories } from '../src/core/operations.js';
+import { planMerges } from '../src/core/merge.js';
+import { Workspace } from '../src/core/workspace.js';
+import { BACKENDS, memory, tempDir, tempWorkspace } from './helpers.js';
+
+const NOTE = 'Cache the session lookups in Redis with a five minute TTL.';
+
+describe('planMerges', () => {
+  it('only merges memories of the same type that are close to the seed', async () => {
+    const plans = await planMerges([
+      memory('a', NOTE, { timestamp: '2024-01-02T00:00:00.000Z' }),
+      memory('b', `${NOTE.toUpperCase().slice(0, -1)}`, { timestamp: '2024-01-01T00:00:00.000Z' }),
+      memory('c', NOTE, { type: 'development' }),
+      memory('d', 'Deploys go out on Tuesdays after the release review.')
+    ]);
+
+    expect(plans).toHaveLength(1);
+    expect(plans[0].originals.map(original => original.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps one copy of lines that differ only in case, spacing or punctuation', async () => {
+    const [plan] = await planMerges([
+      memory('a', `${NOTE}\nOwner: platform team`),
+      memory('b', `${NOTE.slice(0, -1)}\nowner:   platform team.\nSee RFC 12.`)
+    ], { threshold: 0.7 });
+
+    expect(plan.merged.content.split('\n')).toHaveLength(3);
+    expect(plan.merged.content).toContain('See RFC 12.');
+  });
+});
+
+describe.each(BACKENDS)('mergeMemories (%s)', backend => {
+  let dir: string;
+  let workspace: Workspace;
+  beforeEach(async () => {
+    dir = tempDir('merge');
+    workspace = await tempWorkspace(dir, backend);
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('archives the originals and moves links and contexts to the merged memory', async () => {
+    const { store, contextManager } = workspace;
+    await store.store(memory('a', NOTE));
+    await store.store(memory('b', `${NOTE}\nOnly applies to the web tier.`));
+    await store.store(memory('target', 'The caching design document.'));
+    await store.store(memory('c', 'Session caching ticket.'));
+    await store.link('c', 'a', 'implements');
+    await store.link('a', 'target', 'references');
+    await store.link('b', 'a', 'supersedes');
+    await contextManager.createContext('notes', 'custom');
+    await contextManager.modifyContext('notes', context => {
+      context.activeMemories = ['a', 'c'];
+    });
+
+    const plans = await mergeMemories(workspace, { threshold: 0.8 });
+    expect(plans).toHaveLength(1);
+    const mergedId = plans[0].merged.id;
+
+    // The originals can still be restored
+    const archived = (await store.list({ archived: true })).memories.map(m => m.id).sort();
+    expect(archived).toEqual(['a', 'b']);
+    expect(await store.find('a')).toBeNull();
+
+    // C's link now points at the merged memory, which kept A's outbound link
+    const related = await store.related('c', { direction: 'out' });
+    expect(related?.edges).toEqual([{ from: 'c', to: mergedId, type: 'implements' }]);
+    const merged = await store.related(mergedId, { direction: 'out' });
+    expect(merged?.edges).toEqual([{ from: mergedId, to: 'target', type: 'references' }]);
+
+    const stored = await store.find(mergedId) as any;
+    expect(stored.relationships.customRelations.merged_from.sort()).toEqual(['a', 'b']);
+    expect(stored.relationships.customRelations.supersedes).toBeUndefined();
+
+    expect((await contextManager.loadContext('notes'))?.activeMemories).toEqual([mergedId, 'c']);
+  });
+
+  it('changes nothing on a dry run', async () => {
+    await workspace.store.store(memory('a', NOTE));
+    await workspace.store.store(memory('b', NOTE));
+
+    const plans = await mergeMemories(workspace, { dryRun: true });
+    expect(plans).toHaveLength(1);
+    expect((await workspace.store.list()).memories).toHaveLength(2);
+    expect((await workspace.store.list({ archived: true })).memories).toHaveLength(0);
+  });
+});
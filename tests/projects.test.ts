@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryHome } from '../src/core/projects.js';
+import { tempDir } from './helpers.js';
+
+describe('MemoryHome registry', () => {
+  let dir: string;
+  let registry: string;
+  beforeEach(() => {
+    dir = tempDir('projects');
+    registry = path.join(dir, 'home', 'projects.json');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const project = async (home: MemoryHome, name: string) => {
+    const root = path.join(dir, 'repos', name);
+    fs.mkdirSync(root, { recursive: true });
+    return home.resolveProject(root);
+  };
+
+  it('records every project opened concurrently from separate processes', async () => {
+    const names = ['api', 'web', 'cli', 'docs', 'infra', 'mobile'];
+    const homes = names.map(() => new MemoryHome(path.join(dir, 'home')));
+    const projects = await Promise.all(names.map((name, i) => project(homes[i], name)));
+
+    await Promise.all(projects.map((p, i) => homes[i].openProject(p)));
+
+    const listed = await new MemoryHome(path.join(dir, 'home')).listProjects();
+    expect(listed.map(p => p.name).sort()).toEqual([...names].sort());
+    expect(fs.existsSync(path.join(dir, 'home', 'projects.lock'))).toBe(false);
+  });
+
+  it('leaves the registry alone when a project is reopened straight away', async () => {
+    const home = new MemoryHome(path.join(dir, 'home'));
+    const api = await project(home, 'api');
+    await home.openProject(api);
+    const before = fs.statSync(registry);
+
+    await home.openProject(api);
+    const after = fs.statSync(registry);
+    expect([after.ino, after.mtimeMs]).toEqual([before.ino, before.mtimeMs]);
+  });
+
+  it.each([
+    ['unparseable', '{"api-1234": {"name": '],
+    ['of the wrong shape', '["api"]']
+  ])('quarantines a registry that is %s instead of overwriting it', async (_, content) => {
+    fs.mkdirSync(path.dirname(registry), { recursive: true });
+    fs.writeFileSync(registry, content);
+    const home = new MemoryHome(path.join(dir, 'home'));
+
+    await home.openProject(await project(home, 'web'));
+
+    expect(fs.readFileSync(path.join(dir, 'home', 'quarantine', 'projects.json'), 'utf-8')).toBe(content);
+    expect((await home.listProjects()).map(p => p.name)).toEqual(['web']);
+  });
+});
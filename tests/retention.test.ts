@@ -0,0 +1,133 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { decayScore, isExpired } from '../src/core/retention.js';
+import { BaseMemory, EnhancedMemory } from '../src/core/types.js';
+import { Workspace } from '../src/core/workspace.js';
+import { BACKENDS, memory, tempDir, tempWorkspace } from './helpers.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse('2024-06-01T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(now - days * DAY).toISOString();
+
+describe('decayScore', () => {
+  it('halves the recency term every half-life', () => {
+    const policy = { weights: { importance: 0, recency: 1, frequency: 0 } };
+    expect(decayScore({ type: 'custom', timestamp: daysAgo(0) }, undefined, policy, now)).toBeCloseTo(1);
+    expect(decayScore({ type: 'custom', timestamp: daysAgo(30) }, undefined, policy, now)).toBeCloseTo(0.5);
+    expect(decayScore({ type: 'custom', timestamp: daysAgo(14) }, undefined, { ...policy, halfLifeDays: 7 }, now)).toBeCloseTo(0.25);
+  });
+
+  it('counts the last read as recent use', () => {
+    const metadata = { type: 'custom' as const, timestamp: daysAgo(90) };
+    const read = { priority: 0, lastAccessed: daysAgo(0), accessCount: 3 };
+
+    expect(decayScore(metadata, read, {}, now)).toBeGreaterThan(decayScore(metadata, undefined, {}, now));
+  });
+
+  it('stays within [0, 1] and prefers important memories', () => {
+    const score = (importance: number) =>
+      decayScore({ type: 'custom', timestamp: daysAgo(10), importance }, undefined, {}, now);
+
+    expect(score(1000)).toBeLessThanOrEqual(1);
+    expect(score(0)).toBeGreaterThanOrEqual(0);
+    expect(score(0.9)).toBeGreaterThan(score(0.1));
+  });
+});
+
+describe('isExpired', () => {
+  it('only expires memories with a past expiresAt', () => {
+    expect(isExpired(undefined, now)).toBe(false);
+    expect(isExpired({ priority: 0, lastAccessed: '', accessCount: 0 }, now)).toBe(false);
+    expect(isExpired({ priority: 0, lastAccessed: '', accessCount: 0, expiresAt: daysAgo(1) }, now)).toBe(true);
+    expect(isExpired({ priority: 0, lastAccessed: '', accessCount: 0, expiresAt: daysAgo(-1) }, now)).toBe(false);
+  });
+});
+
+describe.each(BACKENDS)('retention (%s)', backend => {
+  let dir: string;
+  let workspace: Workspace;
+  beforeEach(async () => {
+    dir = tempDir('retention');
+    workspace = await tempWorkspace(dir, backend);
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const withExpiry = (id: string, expiresAt: string): BaseMemory => ({
+    ...memory(id, `note ${id}`),
+    persistence: { priority: 0, lastAccessed: new Date().toISOString(), accessCount: 0, expiresAt }
+  } as BaseMemory);
+
+  const liveIds = async () => (await workspace.store.list()).memories.map(m => m.id).sort();
+  const archivedIds = async () => (await workspace.store.list({ archived: true })).memories.map(m => m.id).sort();
+
+  it('archives memories once their TTL passes', async () => {
+    await workspace.store.store(withExpiry('gone', new Date(Date.now() - 1000).toISOString()));
+    await workspace.store.store(withExpiry('kept', new Date(Date.now() + DAY).toISOString()));
+
+    expect(await liveIds()).toEqual(['kept']);
+    expect(await archivedIds()).toEqual(['gone']);
+    expect(await workspace.store.find('gone')).toBeNull();
+    expect((await workspace.store.search('note gone', { mode: 'keyword', minScore: 0 })).results.map(r => r.memory.id))
+      .toEqual(['kept']);
+  });
+
+  it('restores an archived memory without letting it expire again', async () => {
+    await workspace.store.store(withExpiry('gone', new Date(Date.now() - 1000).toISOString()));
+    expect(await workspace.store.expire()).toEqual(['gone']);
+
+    const restored = await workspace.store.restore('gone') as BaseMemory & { persistence: { expiresAt?: string } };
+    expect(restored.persistence.expiresAt).toBeUndefined();
+    expect(await liveIds()).toEqual(['gone']);
+    expect(await archivedIds()).toEqual([]);
+    expect((await workspace.store.search('note gone', { mode: 'keyword', minScore: 0 })).results.map(r => r.memory.id))
+      .toEqual(['gone']);
+    expect(await workspace.store.restore('gone')).toBeNull();
+  });
+
+  it('brings an archived memory back when its id is stored again', async () => {
+    await workspace.store.store(memory('again', 'note again'));
+    await workspace.store.archive('again');
+
+    await workspace.store.store(memory('again', 'note again, revised'));
+    expect(await liveIds()).toEqual(['again']);
+    expect(await archivedIds()).toEqual([]);
+    expect((await workspace.store.find('again'))?.content).toBe('note again, revised');
+    expect(await workspace.store.restore('again')).toBeNull();
+  });
+
+  it('records reads for retention scoring', async () => {
+    await workspace.store.store(memory('read', 'note read', { importance: 0.4 }));
+    await workspace.store.touch(['read', 'read', 'missing']);
+    await workspace.store.touch(['read']);
+
+    const accessed = async () => ((await workspace.store.find('read')) as EnhancedMemory | null)?.persistence;
+    expect(await accessed()).toMatchObject({ priority: 0.4, accessCount: 2 });
+
+    await workspace.store.archive('read');
+    await workspace.store.restore('read');
+    expect((await accessed())?.accessCount).toBe(2);
+  });
+
+  it('prunes the lowest scoring memories down to a target size', async () => {
+    for (const [id, importance, age] of [['old', 0, 200], ['minor', 0.1, 60], ['key', 0.9, 30], ['fresh', 0.5, 0]] as const) {
+      await workspace.store.store(memory(id, `note ${id}`, { importance, timestamp: new Date(Date.now() - age * DAY).toISOString() }));
+    }
+
+    expect((await workspace.store.prune({ targetSize: 2, dryRun: true })).sort()).toEqual(['minor', 'old']);
+    expect(await liveIds()).toHaveLength(4);
+
+    expect((await workspace.store.prune({ targetSize: 2 })).sort()).toEqual(['minor', 'old']);
+    expect(await liveIds()).toEqual(['fresh', 'key']);
+    expect(await archivedIds()).toEqual(['minor', 'old']);
+  });
+
+  it('prunes everything scoring below minScore', async () => {
+    await workspace.store.store(memory('old', 'note old', { timestamp: new Date(Date.now() - 365 * DAY).toISOString() }));
+    await workspace.store.store(memory('new', 'note new'));
+
+    expect(await workspace.store.prune({ minScore: 0.2 })).toEqual(['old']);
+    expect(await liveIds()).toEqual(['new']);
+  });
+});
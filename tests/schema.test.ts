@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { validateSchema } from '../src/sdk/schema.js';
+import { JsonSchema } from '../src/sdk/types.js';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 8, pattern: '^[a-z]+$' },
+    kind: { type: 'string', enum: ['a', 'b'] },
+    limit: { type: 'integer', minimum: 1, maximum: 10 },
+    score: { type: 'number' },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    'a/b~c': { type: 'boolean' },
+    nested: {
+      type: 'object',
+      properties: { id: { type: 'string' } },
+      required: ['id'],
+      additionalProperties: false
+    }
+  },
+  required: ['name']
+};
+
+const paths = (value: unknown) => validateSchema(schema, value).map(violation => violation.path);
+
+describe('validateSchema', () => {
+  it('accepts valid values and ignores unknown properties unless forbidden', () => {
+    expect(validateSchema(schema, {
+      name: 'abc',
+      kind: 'a',
+      limit: 10,
+      score: 0.5,
+      tags: ['x'],
+      extra: true,
+      nested: { id: 'x' }
+    })).toEqual([]);
+  });
+
+  it('reports the root when the type is wrong', () => {
+    expect(validateSchema(schema, [])).toEqual([{ path: '', message: 'Expected object, got array' }]);
+    expect(validateSchema(schema, null)).toEqual([{ path: '', message: 'Expected object, got null' }]);
+  });
+
+  it('reports every violation with a JSON Pointer to it', () => {
+    expect(paths({
+      kind: 'c',
+      limit: 1.5,
+      score: Infinity,
+      tags: ['x', 2, 'z'],
+      'a/b~c': 'yes',
+      nested: { other: 1 }
+    }).sort()).toEqual([
+      '/a~1b~0c',
+      '/kind',
+      '/limit',
+      '/name',
+      '/nested/id',
+      '/nested/other',
+      '/score',
+      '/tags',
+      '/tags/1'
+    ]);
+  });
+
+  it('checks string and number bounds', () => {
+    const messages = (value: object) => validateSchema(schema, { name: 'abc', ...value }).map(v => v.message);
+
+    expect(messages({ name: '' })).toContain('Must be at least 1 characters');
+    expect(messages({ name: 'abcdefghi' })).toEqual(['Must be at most 8 characters']);
+    expect(messages({ name: 'ABC' })).toEqual(['Must match pattern ^[a-z]+$']);
+    expect(messages({ limit: 0 })).toEqual(['Must be >= 1']);
+    expect(messages({ limit: 11 })).toEqual(['Must be <= 10']);
+    expect(messages({ kind: 'c' })).toEqual(['Must be one of: "a", "b"']);
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Bm25Index } from '../src/core/bm25.js';
+import { FileStore } from '../src/core/store.js';
+import { BaseMemory } from '../src/core/types.js';
+import { memory, tempDir } from './helpers.js';
+
+let dir: string;
+beforeEach(() => {
+  dir = tempDir('search');
+});
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Bm25Index', () => {
+  it('ranks rare terms and repeated matches higher', async () => {
+    const index = new Bm25Index(path.join(dir, 'terms.json'));
+    await index.add('common', 'database connection pool settings');
+    await index.add('rare', 'database migration rollback');
+    await index.add('both', 'migration migration checklist for the database');
+    await index.add('other', 'database backups run nightly');
+
+    const matches = await index.search('database migration', 10);
+    expect(matches.map(match => match.id)).toEqual(['both', 'rare', 'common', 'other']);
+    expect(matches[2].score).toBeCloseTo(matches[3].score, 1);
+  });
+
+  it('matches split identifiers and stems', async () => {
+    const index = new Bm25Index(path.join(dir, 'terms.json'));
+    await index.add('code', 'getUserToken reads the cookie');
+    await index.add('prose', 'Deploys happen on Tuesdays');
+
+    expect((await index.search('user tokens', 10)).map(match => match.id)).toEqual(['code']);
+    expect(await index.search('user tokens', 10, id => id !== 'code')).toEqual([]);
+  });
+});
+
+describe('FileStore search', () => {
+  let store: FileStore<BaseMemory>;
+  beforeEach(async () => {
+    store = new FileStore(path.join(dir, 'ns'));
+    await store.store(memory('redis', 'Cache session lookups in Redis with a short TTL', { topics: ['caching'] }));
+    await store.store(memory('deploy', 'Deploys go out on Tuesdays after the release review'));
+    await store.store(memory('auth', 'The auth service signs session tokens with a rotating key'));
+  });
+
+  it('ranks by mode', async () => {
+    const ids = async (mode: 'keyword' | 'semantic' | 'hybrid') =>
+      (await store.search('redis session cache', { mode, minScore: 0.01 })).results.map(result => result.memory.id);
+
+    expect(await ids('keyword')).toEqual(['redis', 'auth']);
+    expect((await ids('semantic'))[0]).toBe('redis');
+    expect((await ids('hybrid'))[0]).toBe('redis');
+  });
+
+  it('scales keyword scores so hybrid results stay within [0, 1]', async () => {
+    const { results } = await store.search('session', { mode: 'hybrid', minScore: 0 });
+    expect(results.length).toBeGreaterThan(0);
+    for (const { score } of results) {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('drops results below minScore and searches topics', async () => {
+    expect((await store.search('caching', { mode: 'keyword' })).results.map(result => result.memory.id)).toEqual(['redis']);
+    expect((await store.search('redis', { minScore: 0.99 })).results).toEqual([]);
+  });
+});
+
+describe('FileStore index journals', () => {
+  const metadata = (file: string) => path.join(dir, 'ns', 'metadata', file);
+
+  it('appends writes to the journals instead of rewriting the snapshots', async () => {
+    const store = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    await store.store(memory('a', 'first'));
+    const snapshots = ['index.json', 'vectors.json', 'terms.json'].map(file => fs.statSync(metadata(file)).ino);
+
+    await store.store(memory('b', 'second'));
+    await store.delete('a');
+
+    expect(['index.json', 'vectors.json', 'terms.json'].map(file => fs.statSync(metadata(file)).ino)).toEqual(snapshots);
+    for (const file of ['index.log', 'vectors.log', 'terms.log']) {
+      expect(fs.readFileSync(metadata(file), 'utf-8').trim().split('\n').length).toBeGreaterThanOrEqual(2);
+    }
+
+    // Another process replays the journals
+    const other = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    expect((await other.list()).memories.map(m => m.id)).toEqual(['b']);
+    expect((await other.search('second', { mode: 'keyword' })).results.map(result => result.memory.id)).toEqual(['b']);
+    expect((await other.search('first', { mode: 'keyword' })).results).toEqual([]);
+  });
+
+  it('sees writes another process appended', async () => {
+    const first = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    const second = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    await first.store(memory('a', 'alpha'));
+    await second.store(memory('b', 'bravo'));
+    await second.delete('a');
+
+    expect((await first.list()).memories.map(m => m.id)).toEqual(['b']);
+    expect(await first.has('a')).toBe(false);
+  });
+
+  it('compacts a journal once it outgrows its snapshot', async () => {
+    const store = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    for (let i = 0; i < 120; i++) {
+      await store.update('a', { content: 'never stored' });
+      await store.store(memory('a', `revision ${i}`));
+    }
+
+    const logged = fs.existsSync(metadata('index.log'))
+      ? fs.readFileSync(metadata('index.log'), 'utf-8').trim().split('\n').length
+      : 0;
+    expect(logged).toBeLessThanOrEqual(100);
+    expect(JSON.parse(fs.readFileSync(metadata('index.json'), 'utf-8')).memories.a).toBeDefined();
+    expect((await new FileStore<BaseMemory>(path.join(dir, 'ns')).find('a'))?.content).toBe('revision 119');
+  });
+
+  it('ignores a journal entry cut short by a crash', async () => {
+    const store = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    await store.store(memory('a', 'first'));
+    await store.store(memory('b', 'second'));
+    fs.appendFileSync(metadata('index.log'), '{"id":"c","value":{"torn');
+
+    const reopened = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    expect((await reopened.list()).memories.map(m => m.id).sort()).toEqual(['a', 'b']);
+    await reopened.store(memory('c', 'third'));
+
+    // The torn line was compacted away rather than appended after
+    expect(fs.readFileSync(metadata('index.log'), 'utf-8')).not.toContain('torn');
+    expect((await new FileStore<BaseMemory>(path.join(dir, 'ns')).list()).memories).toHaveLength(3);
+  });
+
+  it('passes verify with a journal that is not yet compacted', async () => {
+    const store = new FileStore<BaseMemory>(path.join(dir, 'ns'));
+    await store.store(memory('a', 'first'));
+    await store.store(memory('b', 'second'));
+    await store.archive('a');
+
+    expect((await store.verify()).issues).toEqual([]);
+  });
+});
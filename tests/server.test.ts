@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SUPPORTED_PROTOCOL_VERSIONS, Server } from '../src/sdk/server.js';
+import { McpRequest } from '../src/sdk/types.js';
+
+const request = (method: string, params?: unknown) => ({ jsonrpc: '2.0', id: 1, method, params }) as McpRequest;
+const notification = (method: string) => ({ jsonrpc: '2.0', method }) as McpRequest;
+
+const initialize = (protocolVersion: string) => request('initialize', {
+  protocolVersion,
+  capabilities: { roots: { listChanged: true } },
+  clientInfo: { name: 'client', version: '2.0.0' }
+});
+
+describe('Server initialize', () => {
+  it('accepts a supported protocol version and reports the server', async () => {
+    const server = new Server({ name: 'dev-memory', version: '1.2.3', capabilities: { tools: true, resources: true } });
+
+    expect(await server.handleRequest(initialize('2025-03-26'))).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name: 'dev-memory', version: '1.2.3' }
+      }
+    });
+    expect(server.getClientInfo()).toEqual({ name: 'client', version: '2.0.0' });
+    expect(server.getClientCapabilities()).toEqual({ roots: { listChanged: true } });
+  });
+
+  it('offers the newest version it supports for an unknown one', async () => {
+    const server = new Server({ name: 's', version: '1' });
+    const response = await server.handleRequest(initialize('1999-01-01'));
+
+    expect(response?.result.protocolVersion).toBe(SUPPORTED_PROTOCOL_VERSIONS[0]);
+    expect(response?.result.capabilities).toEqual({});
+  });
+
+  it('is initialized once the client says so, without answering the notification', async () => {
+    const server = new Server({ name: 's', version: '1' });
+    await server.handleRequest(initialize('2025-06-18'));
+    expect(server.isInitialized()).toBe(false);
+
+    expect(await server.handleRequest(notification('notifications/initialized'))).toBeNull();
+    expect(server.isInitialized()).toBe(true);
+    expect((await server.handleRequest(request('ping')))?.result).toEqual({});
+  });
+});
+
+describe('Server.handleRequest', () => {
+  const server = new Server({ name: 's', version: '1', capabilities: { tools: true } });
+
+  it('answers malformed requests and unknown methods with JSON-RPC errors', async () => {
+    expect((await server.handleRequest({ jsonrpc: '1.0', id: 1, method: 'ping' } as any))?.error?.code).toBe(-32600);
+    expect((await server.handleRequest({ jsonrpc: '2.0', id: 1 } as any))?.error?.code).toBe(-32600);
+    expect((await server.handleRequest(request('tools/unknown')))?.error).toMatchObject({
+      code: -32601,
+      message: 'Method not found: tools/unknown'
+    });
+    // Notifications are never answered, even when they fail
+    expect(await server.handleRequest(notification('notifications/unknown'))).toBeNull();
+  });
+
+  it('rejects methods for capabilities the server does not have', async () => {
+    expect((await server.handleRequest(request('tools/list')))?.result).toEqual({ tools: [] });
+    expect((await server.handleRequest(request('resources/list')))?.error).toMatchObject({
+      code: -32601,
+      message: 'Server does not support resources'
+    });
+  });
+
+  it('reports handler failures as internal errors', async () => {
+    const failing = new Server({ name: 's', version: '1', capabilities: { tools: true } });
+    failing.registerTool({
+      name: 'explode',
+      description: 'Always fails',
+      inputSchema: { type: 'object' },
+      handler: async () => {
+        throw new Error('boom');
+      }
+    });
+
+    expect((await failing.handleRequest(request('tools/call', { name: 'explode' })))?.error).toMatchObject({
+      code: -32603,
+      message: 'boom'
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isValidContextId, sessionId } from '../src/core/context.js';
+import { log } from '../src/core/log.js';
+import { MemoryHome } from '../src/core/projects.js';
+import { Workspace } from '../src/core/workspace.js';
+import { memory, tempDir, tempWorkspace } from './helpers.js';
+
+describe('sessionId', () => {
+  it('gives names that differ in case or punctuation ids of their own', () => {
+    const names = ['Auth', 'auth', 'auth!', '!!', '??', 'a..b', 'PROJ-123'];
+    const ids = names.map(sessionId);
+
+    expect(new Set(ids).size).toBe(names.length);
+    for (const id of ids) {
+      expect(isValidContextId(id)).toBe(true);
+    }
+    expect(sessionId('  Auth ')).toBe(sessionId('Auth'));
+    expect(sessionId('PROJ-123')).toMatch(/^session-proj-123-[0-9a-f]{8}$/);
+  });
+});
+
+describe('SessionManager', () => {
+  let dir: string;
+  let workspace: Workspace;
+  beforeEach(async () => {
+    dir = tempDir('session');
+    workspace = await tempWorkspace(dir, 'file', { maxContextSize: 3 });
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves a new session once', async () => {
+    const session = await workspace.sessions.startSession('Auth refactor', 'move to OAuth');
+
+    expect(session.metadata.version).toBe(1);
+    expect((await workspace.sessions.getSession('Auth refactor'))?.metadata).toMatchObject({
+      name: 'Auth refactor',
+      description: 'move to OAuth',
+      version: 1
+    });
+    expect((await workspace.sessions.getActiveSession())?.id).toBe(session.id);
+  });
+
+  it('keeps every memory attached, past the context size limit', async () => {
+    await workspace.sessions.startSession('auth');
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    for (const id of ids) {
+      await workspace.store.store(memory(id, `note ${id}`));
+      await workspace.sessions.attachToActiveSession([id]);
+    }
+
+    expect((await workspace.sessions.getSession('auth'))?.activeMemories.sort()).toEqual(ids);
+
+    // Other contexts are still capped
+    const notes = await workspace.contextManager.createContext('notes', 'custom');
+    for (const id of ids) {
+      await workspace.contextManager.updateContext(notes, memory(id, `note ${id}`));
+    }
+    expect((await workspace.contextManager.loadContext('notes'))?.activeMemories).toEqual(['e', 'd', 'c']);
+  });
+
+  it('keeps sessions named alike apart', async () => {
+    await workspace.sessions.startSession('Auth');
+    await workspace.store.store(memory('upper', 'upper'));
+    await workspace.sessions.attachToActiveSession(['upper']);
+    await workspace.sessions.startSession('auth');
+    await workspace.store.store(memory('lower', 'lower'));
+    await workspace.sessions.attachToActiveSession(['lower']);
+
+    expect((await workspace.sessions.getSession('Auth'))?.activeMemories).toEqual(['upper']);
+    expect((await workspace.sessions.getSession('auth'))?.activeMemories).toEqual(['lower']);
+    expect(await workspace.sessions.listSessions()).toHaveLength(2);
+  });
+
+  it('finds sessions saved under the old unhashed ids by their exact name', async () => {
+    await workspace.contexts.save({
+      id: 'session-auth',
+      activeMemories: ['x'],
+      metadata: { type: 'session', name: 'Auth', startTime: '', lastUpdate: '' }
+    });
+
+    expect((await workspace.sessions.getSession('Auth'))?.activeMemories).toEqual(['x']);
+    expect(await workspace.sessions.getSession('auth')).toBeNull();
+  });
+
+  it('closing the active session leaves none active', async () => {
+    const session = await workspace.sessions.startSession('auth');
+    const closed = await workspace.sessions.closeSession(session);
+
+    expect(closed.metadata.closedAt).toBeDefined();
+    expect(await workspace.sessions.getActiveSession()).toBeNull();
+    expect(await workspace.sessions.attachToActiveSession(['a'])).toBeNull();
+  });
+
+  it('treats an unreadable session state file as no active session', async () => {
+    const warn = vi.spyOn(log, 'warn').mockImplementation(() => {});
+    await workspace.sessions.startSession('auth');
+    const statePath = path.join(new MemoryHome(path.join(dir, 'home')).projectDir(workspace.project), 'session.json');
+    fs.writeFileSync(statePath, '{"active": "sess');
+
+    expect(await workspace.sessions.getActiveSession()).toBeNull();
+    expect(await workspace.sessions.attachToActiveSession(['a'])).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('session.json'), expect.any(SyntaxError));
+
+    // Starting a session writes a fresh one
+    const next = await workspace.sessions.startSession('billing');
+    expect((await workspace.sessions.getActiveSession())?.id).toBe(next.id);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteStore } from '../src/core/sqlite.js';
+import { BaseMemory } from '../src/core/types.js';
+import { memory, tempDir } from './helpers.js';
+
+describe('SqliteStore shared between connections', () => {
+  let dir: string;
+  let first: SqliteStore<BaseMemory>;
+  let second: SqliteStore<BaseMemory>;
+  beforeEach(() => {
+    dir = tempDir('sqlite');
+    first = new SqliteStore(path.join(dir, 'ns'));
+    second = new SqliteStore(path.join(dir, 'ns'));
+  });
+  afterEach(() => {
+    first.close();
+    second.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const semantic = async (store: SqliteStore<BaseMemory>, query: string) =>
+    (await store.search(query, { mode: 'semantic', minScore: 0.3 })).results.map(result => result.memory.id);
+
+  it('finds memories another connection stored, and drops ones it deleted', async () => {
+    await first.store(memory('a', 'Rotate the signing keys every quarter'));
+    expect(await semantic(first, 'rotate signing keys')).toEqual(['a']);
+
+    await second.store(memory('b', 'Rotate the signing keys before each release'));
+    expect((await semantic(first, 'rotate signing keys')).sort()).toEqual(['a', 'b']);
+
+    await second.delete('a');
+    await second.archive('b');
+    expect(await semantic(first, 'rotate signing keys')).toEqual([]);
+  });
+});
+
+describe('SqliteStore.update', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = tempDir('sqlite');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps concurrent edits from separate connections', async () => {
+    const stores = [0, 1, 2].map(() => new SqliteStore<BaseMemory>(path.join(dir, 'ns')));
+    await stores[0].store(memory('a', 'original'));
+
+    await Promise.all([
+      stores[0].update('a', { metadata: { category: 'auth' } }),
+      stores[1].update('a', { metadata: { importance: 0.9 } }),
+      stores[2].update('a', { content: 'rewritten' })
+    ]);
+
+    const stored = await stores[0].find('a');
+    expect(stored?.content).toBe('rewritten');
+    expect(stored?.metadata).toMatchObject({ category: 'auth', importance: 0.9 });
+    expect((await stores[1].search('rewritten', { mode: 'keyword' })).results.map(r => r.memory.id)).toEqual(['a']);
+    stores.forEach(store => store.close());
+  });
+
+  it('resolves to null for a memory that is not stored', async () => {
+    const store = new SqliteStore<BaseMemory>(path.join(dir, 'ns'));
+    expect(await store.update('missing', { content: 'x' })).toBeNull();
+    store.close();
+  });
+});
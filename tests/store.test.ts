@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileStore } from '../src/core/store.js';
+import { BaseMemory, EnhancedMemory } from '../src/core/types.js';
+import { memory, tempDir } from './helpers.js';
+
+let dir: string;
+let base: string;
+beforeEach(() => {
+  dir = tempDir('store');
+  base = path.join(dir, 'ns');
+});
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const readJson = (...segments: string[]) => JSON.parse(fs.readFileSync(path.join(base, ...segments), 'utf-8'));
+
+describe('FileStore layout', () => {
+  it('files memories by type and indexes them by id', async () => {
+    const store = new FileStore<BaseMemory>(base);
+    await store.store(memory('a', 'Use pnpm', { type: 'development' }));
+    await store.store(memory('b', 'Notes from standup'));
+
+    expect(readJson('interactions', 'development', 'a.json').content).toBe('Use pnpm');
+    expect(readJson('interactions', 'custom', 'b.json').content).toBe('Notes from standup');
+    for (const child of ['archive', 'metadata', 'logs']) {
+      expect(fs.statSync(path.join(base, child)).isDirectory()).toBe(true);
+    }
+
+    const reopened = new FileStore<BaseMemory>(base);
+    expect((await reopened.find('a'))?.metadata.type).toBe('development');
+  });
+
+  it('moves a memory whose type changes', async () => {
+    const store = new FileStore<BaseMemory>(base);
+    await store.store(memory('a', 'Use pnpm'));
+    await store.update('a', { metadata: { type: 'system' } });
+
+    expect(fs.existsSync(path.join(base, 'interactions', 'custom', 'a.json'))).toBe(false);
+    expect(readJson('interactions', 'system', 'a.json').metadata.type).toBe('system');
+    expect((await new FileStore<BaseMemory>(base).find('a'))?.content).toBe('Use pnpm');
+  });
+
+  it('rejects ids that are not a single path segment', async () => {
+    const store = new FileStore<BaseMemory>(base);
+    for (const id of ['../escape', 'a/b', '']) {
+      await expect(store.store(memory(id, 'x'))).rejects.toThrow('Invalid memory id');
+    }
+  });
+
+  it('records reads in the index without rewriting memory files', async () => {
+    const store = new FileStore<BaseMemory>(base);
+    await store.store(memory('a', 'Use pnpm'));
+    const file = path.join(base, 'interactions', 'custom', 'a.json');
+    const written = fs.readFileSync(file, 'utf-8');
+
+    await store.touch(['a']);
+    expect(fs.readFileSync(file, 'utf-8')).toBe(written);
+    expect(((await new FileStore<BaseMemory>(base).find('a')) as EnhancedMemory | null)?.persistence.accessCount).toBe(1);
+
+    // The next write carries the count into the file
+    await store.update('a', { content: 'Use pnpm 9' });
+    expect(readJson('interactions', 'custom', 'a.json').persistence.accessCount).toBe(1);
+  });
+
+  it('rebuilds a missing or corrupt index from the memory files', async () => {
+    const store = new FileStore<BaseMemory>(base);
+    await store.store(memory('a', 'first'));
+    await store.store(memory('b', 'second'));
+    await store.archive('b');
+
+    for (const file of fs.readdirSync(path.join(base, 'metadata'))) {
+      if (file.startsWith('index.')) fs.rmSync(path.join(base, 'metadata', file));
+    }
+    fs.writeFileSync(path.join(base, 'metadata', 'archive.json'), '{"version":');
+
+    const reopened = new FileStore<BaseMemory>(base);
+    expect((await reopened.list()).memories.map(m => m.id)).toEqual(['a']);
+    expect(await reopened.find('b')).toBeNull();
+    expect((await reopened.restore('b'))?.content).toBe('second');
+    expect(readJson('metadata', 'index.json').memories.a.file).toBe(path.join('interactions', 'custom', 'a.json'));
+  });
+});
+
+describe('FileStore legacy migration', () => {
+  it('moves root and flat files into the typed layout', async () => {
+    fs.mkdirSync(path.join(base, 'interactions'), { recursive: true });
+    fs.writeFileSync(path.join(base, 'memory-1700000000000.json'), JSON.stringify({
+      content: 'from the root',
+      metadata: { type: 'conversation' }
+    }));
+    fs.writeFileSync(path.join(base, 'interactions', 'flat.json'), JSON.stringify({
+      id: 'flat',
+      content: 'from interactions/',
+      metadata: { type: 'development', timestamp: '2024-01-02T00:00:00.000Z' }
+    }));
+
+    const store = new FileStore<BaseMemory>(base);
+    const root = await store.find('memory-1700000000000');
+    expect(root?.content).toBe('from the root');
+    expect(root?.metadata.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect((await store.find('flat'))?.metadata.timestamp).toBe('2024-01-02T00:00:00.000Z');
+
+    expect(fs.existsSync(path.join(base, 'memory-1700000000000.json'))).toBe(false);
+    expect(fs.existsSync(path.join(base, 'interactions', 'flat.json'))).toBe(false);
+    expect(fs.existsSync(path.join(base, 'interactions', 'conversation', 'memory-1700000000000.json'))).toBe(true);
+    expect(fs.existsSync(path.join(base, 'interactions', 'development', 'flat.json'))).toBe(true);
+  });
+
+  it('leaves files that are not memories where they are', async () => {
+    fs.mkdirSync(path.join(base, 'interactions'), { recursive: true });
+    fs.writeFileSync(path.join(base, 'interactions', 'notes.json'), JSON.stringify({ todo: [] }));
+
+    const store = new FileStore<BaseMemory>(base);
+    expect((await store.list()).memories).toEqual([]);
+    expect(fs.existsSync(path.join(base, 'interactions', 'notes.json'))).toBe(true);
+  });
+
+  it('keeps the indexed copy when a legacy file has the same id', async () => {
+    const store = new FileStore<BaseMemory>(base);
+    await store.store(memory('a', 'current'));
+    fs.writeFileSync(path.join(base, 'interactions', 'a.json'), JSON.stringify(memory('a', 'stale')));
+
+    const reopened = new FileStore<BaseMemory>(base);
+    expect((await reopened.find('a'))?.content).toBe('current');
+    expect(fs.existsSync(path.join(base, 'interactions', 'a.json'))).toBe(false);
+  });
+});
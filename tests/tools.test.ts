@@ -0,0 +1,82 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestClient, startServer, tempDir } from './helpers.js';
+
+let dir: string;
+let client: TestClient;
+beforeEach(async () => {
+  dir = tempDir('tools');
+  client = await startServer(dir);
+});
+afterEach(async () => {
+  await client.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('memory tools', () => {
+  // A memory that only exists in the global namespace
+  const globalMemory = async () => {
+    const { structuredContent: { id } } = await client.call('store_context', {
+      context_type: 'development',
+      content: 'Use UTC timestamps everywhere'
+    });
+    await client.call('promote_memory', { id });
+    await client.call('delete_memory', { id });
+    return id as string;
+  };
+
+  it('get, update and delete fall back to the global namespace', async () => {
+    const id = await globalMemory();
+
+    expect((await client.call('get_memory', { id })).structuredContent.memory.content).toBe('Use UTC timestamps everywhere');
+
+    await client.call('update_memory', { id, content: 'Use UTC timestamps in storage and logs' });
+    expect((await client.call('get_memory', { id })).structuredContent.memory.content).toBe('Use UTC timestamps in storage and logs');
+
+    expect((await client.call('delete_memory', { id })).structuredContent).toEqual({ id, deleted: true });
+    await expect(client.call('get_memory', { id })).rejects.toThrow(`Memory not found: ${id}`);
+  });
+
+  it('prefers the project copy of a promoted memory', async () => {
+    const { structuredContent: { id } } = await client.call('store_context', {
+      context_type: 'development',
+      content: 'Pin the Node version in .nvmrc'
+    });
+    await client.call('promote_memory', { id });
+
+    await client.call('update_memory', { id, content: 'Pin the Node version in .nvmrc and CI' });
+    await client.call('delete_memory', { id });
+
+    // The global copy was left as it was
+    expect((await client.call('get_memory', { id })).structuredContent.memory.content).toBe('Pin the Node version in .nvmrc');
+  });
+
+  it('reports ids found in neither namespace', async () => {
+    for (const tool of ['get_memory', 'delete_memory']) {
+      await expect(client.call(tool, { id: 'missing' })).rejects.toThrow('Memory not found: missing');
+    }
+    await expect(client.call('update_memory', { id: 'missing', content: 'x' })).rejects.toThrow('Memory not found: missing');
+  });
+});
+
+describe('tool argument validation', () => {
+  it('rejects arguments that break the input schema before running the tool', async () => {
+    const error = await client.call('store_context', { context_type: 'note', content: '', ttl: 'soon' }).catch(e => e);
+
+    expect(error.code).toBe(-32602);
+    expect(error.message).toMatch(/^Invalid arguments for tool store_context: /);
+    expect(error.data.tool).toBe('store_context');
+    expect(error.data.errors.map((violation: { path: string }) => violation.path)).toEqual(['/context_type', '/content', '/ttl']);
+    expect((await client.call('list_memories')).structuredContent.memories).toEqual([]);
+  });
+
+  it('reports missing and mistyped arguments', async () => {
+    await expect(client.call('get_memory', {})).rejects.toThrow('/id: Required property is missing');
+    await expect(client.call('get_memory', { id: 7 })).rejects.toThrow('/id: Expected string, got number');
+    await expect(client.call('store_context', { context_type: 'custom', content: 'x', ttl: '2M' })).rejects.toThrow('/ttl');
+  });
+
+  it('rejects unknown tools', async () => {
+    await expect(client.call('drop_everything')).rejects.toMatchObject({ code: -32602, message: 'Unknown tool: drop_everything' });
+  });
+});
@@ -0,0 +1,257 @@
+import { PassThrough } from 'stream';
+import { afterEach, describe, expect, it } from 'vitest';
+import { MessageHandler, Server, StdioTransport } from '../src/sdk/server.js';
+import { McpRequest, McpResponse } from '../src/sdk/types.js';
+
+// Drives a transport through in-memory streams and collects what it writes
+function harness(handler: MessageHandler) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const transport = new StdioTransport({ input, output });
+  const lines: string[] = [];
+  let pending = '';
+  output.setEncoding('utf8');
+  output.on('data', (chunk: string) => {
+    pending += chunk;
+    let newline: number;
+    while ((newline = pending.indexOf('\n')) !== -1) {
+      lines.push(pending.slice(0, newline));
+      pending = pending.slice(newline + 1);
+    }
+  });
+
+  return {
+    input,
+    transport,
+    lines,
+    connect: () => transport.connect(handler),
+    // Resolves once at least count lines have been written
+    waitFor: async (count: number) => {
+      for (let i = 0; i < 200 && lines.length < count; i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      return lines.map(line => JSON.parse(line));
+    }
+  };
+}
+
+function echo(delays: Record<string, number> = {}): MessageHandler {
+  return async (request: McpRequest, { signal }) => {
+    const delay = delays[String(request.id)] ?? 0;
+    if (delay > 0) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, delay);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+    if (request.id === undefined) return null;
+    return { jsonrpc: '2.0', result: { method: request.method }, id: request.id } as McpResponse;
+  };
+}
+
+const frame = (message: unknown) => JSON.stringify(message) + '\n';
+
+describe('StdioTransport', () => {
+  let active: StdioTransport | null = null;
+  afterEach(async () => {
+    await active?.close();
+    active = null;
+  });
+
+  it('reassembles a frame split across chunks', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    const text = frame({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    for (const part of [text.slice(0, 5), text.slice(5, 17), text.slice(17)]) {
+      h.input.write(part);
+    }
+
+    expect(await h.waitFor(1)).toEqual([{ jsonrpc: '2.0', result: { method: 'ping' }, id: 1 }]);
+  });
+
+  it('handles several frames in one chunk and a final frame without a newline', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    h.input.write(frame({ jsonrpc: '2.0', id: 1, method: 'a' }) + frame({ jsonrpc: '2.0', id: 2, method: 'b' }));
+    h.input.end(JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'c' }));
+
+    const messages = await h.waitFor(3);
+    expect(messages.map(message => message.id)).toEqual([1, 2, 3]);
+  });
+
+  it('splits multi-byte characters across chunks without corrupting them', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    const bytes = Buffer.from(frame({ jsonrpc: '2.0', id: 'é✓', method: 'ping' }));
+    const cut = bytes.indexOf(Buffer.from('✓')) + 1;
+    h.input.write(bytes.subarray(0, cut));
+    h.input.write(bytes.subarray(cut));
+
+    expect((await h.waitFor(1))[0].id).toBe('é✓');
+  });
+
+  it('answers parse errors and skips blank lines', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    h.input.write('\n  \n{not json\n');
+    const [response] = await h.waitFor(1);
+    expect(response.id).toBeNull();
+    expect(response.error.code).toBe(-32700);
+  });
+
+  it('answers a batch with an array in its own order, leaving out notifications', async () => {
+    const h = harness(echo({ 1: 30 }));
+    active = h.transport;
+    await h.connect();
+
+    h.input.write(frame([
+      { jsonrpc: '2.0', id: 1, method: 'a' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'b' }
+    ]));
+
+    const [batch] = await h.waitFor(1);
+    expect(batch.map((response: McpResponse) => response.id)).toEqual([1, 2]);
+  });
+
+  it('rejects an empty batch and writes nothing for a batch of notifications', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    h.input.write(frame([{ jsonrpc: '2.0', method: 'notifications/initialized' }]));
+    h.input.write(frame([]));
+
+    const messages = await h.waitFor(1);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].error.code).toBe(-32600);
+  });
+
+  it('runs requests concurrently and answers each as soon as it is ready', async () => {
+    const started: Array<string | number> = [];
+    const handler = echo({ 1: 60, 2: 0 });
+    const h = harness(async (request, context) => {
+      started.push(request.id!);
+      return handler(request, context);
+    });
+    active = h.transport;
+    await h.connect();
+
+    h.input.write(frame({ jsonrpc: '2.0', id: 1, method: 'slow' }) + frame({ jsonrpc: '2.0', id: 2, method: 'fast' }));
+
+    // The fast one is answered while the slow one is still running
+    const [first] = await h.waitFor(1);
+    expect(started).toEqual([1, 2]);
+    expect(first.id).toBe(2);
+
+    const messages = await h.waitFor(2);
+    expect(messages.map(message => message.id)).toEqual([2, 1]);
+  });
+
+  it('does not hold back later responses behind a cancelled request', async () => {
+    // Ignores the abort signal, as a handler stuck on I/O would
+    const h = harness(async request => request.id === 1
+      ? new Promise<McpResponse | null>(() => {})
+      : echo()(request, { signal: new AbortController().signal }));
+    active = h.transport;
+    await h.connect();
+
+    h.input.write(frame({ jsonrpc: '2.0', id: 1, method: 'stuck' }));
+    h.input.write(frame({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } }));
+    h.input.write(frame({ jsonrpc: '2.0', id: 2, method: 'next' }));
+
+    const messages = await h.waitFor(1);
+    expect(messages.map(message => message.id)).toEqual([2]);
+  });
+
+  it('aborts a cancelled request and does not answer it', async () => {
+    let aborted = false;
+    const handler = echo({ 1: 1000 });
+    const h = harness(async (request, context) => {
+      context.signal.addEventListener('abort', () => {
+        aborted = true;
+      });
+      return handler(request, context);
+    });
+    active = h.transport;
+    await h.connect();
+
+    h.input.write(frame({ jsonrpc: '2.0', id: 1, method: 'slow' }));
+    h.input.write(frame({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } }));
+    h.input.write(frame({ jsonrpc: '2.0', id: 2, method: 'next' }));
+
+    const messages = await h.waitFor(1);
+    expect(aborted).toBe(true);
+    expect(messages.map(message => message.id)).toEqual([2]);
+  });
+
+  it('matches client responses to its own requests', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    const roots = h.transport.request('roots/list');
+    const [request] = await h.waitFor(1);
+    expect(request.method).toBe('roots/list');
+
+    h.input.write(frame({ jsonrpc: '2.0', id: request.id, result: { roots: [] } }));
+    await expect(roots).resolves.toEqual({ roots: [] });
+  });
+
+  it('rejects its own requests on a client error, timeout or close', async () => {
+    const h = harness(echo());
+    active = h.transport;
+    await h.connect();
+
+    const failing = h.transport.request('roots/list');
+    const [request] = await h.waitFor(1);
+    h.input.write(frame({ jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'nope' } }));
+    await expect(failing).rejects.toThrow('nope');
+
+    await expect(h.transport.request('roots/list', undefined, 10)).rejects.toThrow('timed out');
+
+    const closing = h.transport.request('roots/list');
+    await h.transport.close();
+    await expect(closing).rejects.toThrow('Transport closed');
+  });
+
+  it('carries a full server handshake', async () => {
+    const server = new Server({ name: 'test', version: '1.0.0', capabilities: { tools: true } });
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const transport = new StdioTransport({ input, output });
+    active = transport;
+    await server.connect(transport);
+
+    const chunks: string[] = [];
+    output.setEncoding('utf8');
+    output.on('data', (chunk: string) => chunks.push(chunk));
+    input.write(frame({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'c', version: '1' } }
+    }));
+    input.write(frame({ jsonrpc: '2.0', method: 'notifications/initialized' }));
+    input.write(frame({ jsonrpc: '2.0', id: 2, method: 'tools/list' }));
+
+    for (let i = 0; i < 200 && chunks.join('').split('\n').length < 3; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const [init, list] = chunks.join('').trim().split('\n').map(line => JSON.parse(line));
+    expect(init.result.protocolVersion).toBe('2024-11-05');
+    expect(list).toEqual({ jsonrpc: '2.0', result: { tools: [] }, id: 2 });
+    expect(server.isInitialized()).toBe(true);
+  });
+});